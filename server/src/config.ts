@@ -21,6 +21,15 @@ if (!fs.existsSync(downloadPath)) {
   fs.mkdirSync(downloadPath, { recursive: true })
 }
 
+// Parse TRUST_PROXY into an Express "trust proxy" value:
+// a hop count ("1"), "true", or a list of proxy addresses/subnets ("loopback, 10.0.0.0/8")
+const parseTrustProxy = (value: string | undefined): boolean | number | string => {
+  if (!value || value === 'false') return false
+  if (value === 'true') return true
+  if (/^\d+$/.test(value)) return parseInt(value, 10)
+  return value
+}
+
 export const config = {
   port: parseInt(process.env.PORT || '3001', 10),
   downloadPath,
@@ -28,12 +37,16 @@ export const config = {
   // External URL for the backend API (used for HLS proxy URLs that browsers need to access)
   // This should be the publicly accessible URL of the backend
   externalUrl: process.env.BACKEND_EXTERNAL_URL || process.env.VITE_TORRENT_API_URL || `http://localhost:${process.env.PORT || '3001'}`,
+  // Reverse proxies whose X-Forwarded-For header is believed when working out client IPs
+  // Off by default, since any client can send the header itself
+  trustProxy: parseTrustProxy(process.env.TRUST_PROXY),
 
   // WebTorrent settings
   torrent: {
     maxConnections: 100,
-    uploadLimit: -1,  // Unlimited
-    downloadLimit: -1 // Unlimited
+    // Speed limits in KiB/s outside scheduled bandwidth windows (0 = unlimited)
+    uploadLimit: parseInt(process.env.TORRENT_UPLOAD_LIMIT || '0', 10),
+    downloadLimit: parseInt(process.env.TORRENT_DOWNLOAD_LIMIT || '0', 10)
   },
 
   // Radarr settings (for movies)
@@ -64,19 +77,47 @@ export const config = {
     .map(p => p.trim())
     .filter(p => p.length > 0),
 
+  // TMDB settings (all movie and show metadata, proxied for the frontend)
+  // Falls back to the old frontend variable so existing .env files keep working
+  tmdb: {
+    apiKey: process.env.TMDB_API_KEY || process.env.VITE_TMDB_API_KEY || '',
+    enabled: !!(process.env.TMDB_API_KEY || process.env.VITE_TMDB_API_KEY),
+    // Hours between refreshes of the TMDB details of Radarr and Sonarr titles (0 = only when added)
+    libraryIndexIntervalHours: parseInt(process.env.LIBRARY_INDEX_INTERVAL_HOURS || '12', 10)
+  },
+
+  // OMDb settings (IMDb, Rotten Tomatoes and Metacritic ratings)
+  omdb: {
+    apiKey: process.env.OMDB_API_KEY || process.env.VITE_OMDB_API_KEY || '',
+    enabled: !!(process.env.OMDB_API_KEY || process.env.VITE_OMDB_API_KEY)
+  },
+
   // qBittorrent settings
   qbittorrent: {
     url: process.env.QBITTORRENT_URL || 'http://localhost:8080',
     username: process.env.QBITTORRENT_USERNAME || 'admin',
     password: process.env.QBITTORRENT_PASSWORD || '',
-    enabled: !!process.env.QBITTORRENT_URL && !!process.env.QBITTORRENT_PASSWORD
+    enabled: !!process.env.QBITTORRENT_URL && !!process.env.QBITTORRENT_PASSWORD,
+    // Downloads running at once; the rest wait in the queue (0 = no limit)
+    maxActiveDownloads: parseInt(process.env.MAX_ACTIVE_DOWNLOADS || '3', 10),
+    // Free space in GB kept on the download disk; downloads that would eat into it wait in the
+    // queue until space is freed, or are refused with LOW_SPACE_ACTION=refuse
+    diskReserveGb: parseFloat(process.env.DISK_RESERVE_GB || '10'),
+    lowSpaceAction: (process.env.LOW_SPACE_ACTION === 'refuse' ? 'refuse' : 'queue') as 'queue' | 'refuse'
   },
 
   // Authentication settings
   auth: {
     jwtSecret: process.env.JWT_SECRET || 'change-me-in-production-use-random-32-chars',
     passwordHash: process.env.APP_PASSWORD_HASH || '',
-    tokenExpiry: process.env.TOKEN_EXPIRY || '7d',
+    // Username of the initial account created from APP_PASSWORD_HASH
+    adminUsername: process.env.ADMIN_USERNAME || 'admin',
+    // Access tokens are short-lived and renewed with a refresh token
+    tokenExpiry: process.env.TOKEN_EXPIRY || '15m',
+    refreshTokenExpiryDays: parseInt(process.env.REFRESH_TOKEN_EXPIRY_DAYS || '30', 10),
+    // Failed logins allowed per IP and per account before a temporary lockout
+    // Each further failure doubles the lockout, up to an hour
+    lockoutThreshold: parseInt(process.env.LOGIN_LOCKOUT_THRESHOLD || '5', 10),
     enabled: !!process.env.APP_PASSWORD_HASH
   },
 
@@ -88,6 +129,17 @@ export const config = {
     // Falls back to internal URL if not specified
     externalUrl: process.env.JELLYFIN_EXTERNAL_URL || process.env.JELLYFIN_URL || 'http://localhost:8096',
     apiKey: process.env.JELLYFIN_API_KEY || '',
+    // Lifetime of signed stream URLs in seconds (default: 10 minutes)
+    // Segment URLs are fixed once a playlist is loaded, so a token stays valid while its
+    // play session keeps making requests, until it is streamTokenMaxAge old
+    streamTokenTtl: parseInt(process.env.STREAM_TOKEN_TTL || '600', 10),
+    // Longest a stream token can be kept alive by use, in seconds (default: 8 hours)
+    streamTokenMaxAge: parseInt(process.env.STREAM_TOKEN_MAX_AGE || '28800', 10),
+    // Minutes between watched-state syncs for profiles linked to a Jellyfin user (0 = manual only)
+    syncIntervalMinutes: parseInt(process.env.JELLYFIN_SYNC_INTERVAL_MINUTES || '15', 10),
+    // Minutes between updates of the index of Jellyfin items used to find what to play
+    // (0 = only on start, after library refreshes and when an item isn't found)
+    indexIntervalMinutes: parseInt(process.env.JELLYFIN_INDEX_INTERVAL_MINUTES || '30', 10),
     enabled: !!process.env.JELLYFIN_URL && !!process.env.JELLYFIN_API_KEY
   }
 }
@@ -0,0 +1,25 @@
+import Database, { Database as DatabaseType } from 'better-sqlite3'
+import path from 'path'
+import fs from 'fs'
+
+// Database file location - use data directory for persistence in Docker
+const DB_DIR = process.env.DB_PATH || '/data'
+export const DB_FILE = path.join(DB_DIR, 'my-cinema.db')
+
+/**
+ * Open the database file, creating its directory when needed
+ */
+export const openDatabase = (): DatabaseType => {
+  // Ensure directory exists
+  if (!fs.existsSync(DB_DIR)) {
+    fs.mkdirSync(DB_DIR, { recursive: true })
+  }
+
+  const db = new Database(DB_FILE)
+
+  // Enable foreign keys and WAL mode for better performance
+  db.pragma('journal_mode = WAL')
+  db.pragma('foreign_keys = ON')
+
+  return db
+}
@@ -0,0 +1,112 @@
+import type { Database } from 'better-sqlite3'
+import { migrations } from './migrations/index.js'
+
+export interface Migration {
+  // Position in the upgrade sequence; never renumber a released migration
+  version: number
+  name: string
+  up: (db: Database) => void
+}
+
+export interface AppliedMigration {
+  version: number
+  name: string
+  appliedAt: string
+}
+
+export interface MigrationStatus {
+  currentVersion: number
+  latestVersion: number
+  applied: AppliedMigration[]
+  pending: Migration[]
+}
+
+// Thrown to roll back a dry run once every pending migration has been applied
+class DryRunRollback extends Error {}
+
+const ensureVersionTable = (db: Database) => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `)
+}
+
+// Catch mistakes like two migrations sharing a number
+const validateMigrations = () => {
+  migrations.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new Error(`Migration "${migration.name}" has version ${migration.version}, expected ${index + 1}`)
+    }
+  })
+}
+
+// Databases from before versioning have no schema_version table; reading the status must not create it
+const hasVersionTable = (db: Database): boolean => {
+  return !!db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'schema_version'").get()
+}
+
+export const getMigrationStatus = (db: Database): MigrationStatus => {
+  validateMigrations()
+
+  const rows = hasVersionTable(db) ? db.prepare('SELECT * FROM schema_version ORDER BY version').all() as any[] : []
+  const applied = rows.map(row => ({ version: row.version, name: row.name, appliedAt: row.applied_at }))
+  const currentVersion = applied.length ? applied[applied.length - 1].version : 0
+  const latestVersion = migrations.length
+
+  return {
+    currentVersion,
+    latestVersion,
+    applied,
+    pending: migrations.filter(m => m.version > currentVersion)
+  }
+}
+
+/**
+ * Bring the database up to the latest schema version
+ * Each migration runs in its own transaction, so a failure leaves the database at the last good version
+ * With dryRun, all pending migrations run in one transaction that is rolled back afterwards
+ * Returns the migrations that were (or, for a dry run, would be) applied
+ */
+export const runMigrations = (db: Database, options: { dryRun?: boolean } = {}): Migration[] => {
+  const { currentVersion, latestVersion, pending } = getMigrationStatus(db)
+
+  // Opening a database with an older build could lose data written by newer code
+  if (currentVersion > latestVersion) {
+    throw new Error(
+      `Database schema version ${currentVersion} is newer than this build supports (${latestVersion})`
+    )
+  }
+
+  const apply = (migration: Migration) => {
+    migration.up(db)
+    db.prepare('INSERT INTO schema_version (version, name) VALUES (?, ?)').run(migration.version, migration.name)
+  }
+
+  if (options.dryRun) {
+    try {
+      db.transaction(() => {
+        ensureVersionTable(db)
+        pending.forEach(apply)
+        throw new DryRunRollback()
+      })()
+    } catch (error) {
+      if (!(error instanceof DryRunRollback)) throw error
+    }
+    return pending
+  }
+
+  ensureVersionTable(db)
+  for (const migration of pending) {
+    try {
+      db.transaction(() => apply(migration))()
+    } catch (error) {
+      throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${(error as Error).message}`)
+    }
+    console.log(`Applied database migration ${migration.version}: ${migration.name}`)
+  }
+
+  return pending
+}
@@ -0,0 +1,51 @@
+// Database migration command
+// Usage: node dist/db/migrateCli.js [status | up [--dry-run]]
+//   status     show the schema version and pending migrations (default)
+//   up         apply pending migrations
+//   --dry-run  apply them inside a transaction that is rolled back, to check they succeed
+import '../config.js' // Loads .env, which may set DB_PATH
+import { DB_FILE, openDatabase } from './connection.js'
+import { getMigrationStatus, runMigrations } from './migrate.js'
+
+const args = process.argv.slice(2)
+const command = args.find(arg => !arg.startsWith('--')) || 'status'
+const dryRun = args.includes('--dry-run')
+
+const db = openDatabase()
+
+try {
+  const status = getMigrationStatus(db)
+  console.log(`Database: ${DB_FILE}`)
+  console.log(`Schema version: ${status.currentVersion} (latest: ${status.latestVersion})`)
+
+  if (command === 'status') {
+    for (const migration of status.applied) {
+      console.log(`  [x] ${migration.version} ${migration.name} (applied ${migration.appliedAt})`)
+    }
+    for (const migration of status.pending) {
+      console.log(`  [ ] ${migration.version} ${migration.name}`)
+    }
+    if (status.currentVersion > status.latestVersion) {
+      console.log('This database was upgraded by a newer version of the server')
+    }
+  } else if (command === 'up') {
+    const applied = runMigrations(db, { dryRun })
+    const names = applied.map(m => `${m.version} ${m.name}`).join(', ')
+
+    if (applied.length === 0) {
+      console.log('Database is up to date')
+    } else if (dryRun) {
+      console.log(`Dry run succeeded, would apply: ${names} (no changes were made)`)
+    } else {
+      console.log(`Now at schema version ${getMigrationStatus(db).currentVersion}`)
+    }
+  } else {
+    console.error(`Unknown command "${command}", expected "status" or "up"`)
+    process.exitCode = 1
+  }
+} catch (error) {
+  console.error((error as Error).message)
+  process.exitCode = 1
+} finally {
+  db.close()
+}
@@ -0,0 +1,58 @@
+import type { Migration } from '../migrate.js'
+
+// Schema from before accounts existed
+// Migrations 1-8 predate the schema_version table, so they only create what is missing
+// and are safe to run against databases that already have their tables
+const migration: Migration = {
+  version: 1,
+  name: 'initial_schema',
+  up: (db) => {
+    // Watch progress table (user_id holds the profile ID)
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS watch_progress (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id TEXT NOT NULL,
+        media_type TEXT NOT NULL CHECK (media_type IN ('movie', 'episode')),
+        tmdb_id INTEGER NOT NULL,
+        season_number INTEGER,
+        episode_number INTEGER,
+        position_ms INTEGER NOT NULL DEFAULT 0,
+        duration_ms INTEGER NOT NULL DEFAULT 0,
+        completed BOOLEAN NOT NULL DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(user_id, media_type, tmdb_id, season_number, episode_number)
+      )
+    `)
+
+    // User preferences table
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS user_preferences (
+        user_id TEXT PRIMARY KEY,
+        subtitle_settings TEXT,
+        default_subtitle_language TEXT,
+        default_audio_language TEXT,
+        playback_speed REAL DEFAULT 1.0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `)
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_progress_user_media
+      ON watch_progress(user_id, media_type, tmdb_id)
+    `)
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_progress_updated
+      ON watch_progress(updated_at DESC)
+    `)
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_progress_user_updated
+      ON watch_progress(user_id, updated_at DESC)
+    `)
+  }
+}
+
+export default migration
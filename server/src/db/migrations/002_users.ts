@@ -0,0 +1,20 @@
+import type { Migration } from '../migrate.js'
+
+const migration: Migration = {
+  version: 2,
+  name: 'users',
+  up: (db) => {
+    // Users table (household accounts)
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS users (
+        id TEXT PRIMARY KEY,
+        username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        password_hash TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `)
+  }
+}
+
+export default migration
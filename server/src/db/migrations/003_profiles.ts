@@ -0,0 +1,30 @@
+import type { Migration } from '../migrate.js'
+
+const migration: Migration = {
+  version: 3,
+  name: 'profiles',
+  up: (db) => {
+    // Profiles table ("who's watching?" profiles within an account)
+    // The first profile of every account reuses the account ID so data
+    // recorded before profiles existed stays attached to it
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS profiles (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        avatar_color TEXT NOT NULL DEFAULT '#e50914',
+        pin_hash TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(user_id, name)
+      )
+    `)
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_profiles_user
+      ON profiles(user_id)
+    `)
+  }
+}
+
+export default migration
@@ -0,0 +1,25 @@
+import type { Migration } from '../migrate.js'
+import { addColumnIfMissing } from './helpers.js'
+
+const migration: Migration = {
+  version: 4,
+  name: 'user_roles',
+  up: (db) => {
+    const added = addColumnIfMissing(
+      db,
+      'users',
+      'role',
+      "TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('admin', 'viewer', 'kid'))"
+    )
+
+    // Accounts created before roles existed had full access, so they become admins
+    if (added) {
+      db.exec("UPDATE users SET role = 'admin'")
+    }
+
+    // Highest content rating a kid account may play
+    addColumnIfMissing(db, 'users', 'max_rating', 'TEXT')
+  }
+}
+
+export default migration
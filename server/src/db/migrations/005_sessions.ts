@@ -0,0 +1,29 @@
+import type { Migration } from '../migrate.js'
+
+const migration: Migration = {
+  version: 5,
+  name: 'sessions',
+  up: (db) => {
+    // Sessions table (one row per signed-in device, holding its refresh token)
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        profile_id TEXT,
+        refresh_token_hash TEXT NOT NULL UNIQUE,
+        user_agent TEXT,
+        ip TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        last_used_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        expires_at DATETIME NOT NULL
+      )
+    `)
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_sessions_user
+      ON sessions(user_id)
+    `)
+  }
+}
+
+export default migration
@@ -0,0 +1,30 @@
+import type { Migration } from '../migrate.js'
+import { addColumnIfMissing } from './helpers.js'
+
+const migration: Migration = {
+  version: 6,
+  name: 'two_factor',
+  up: (db) => {
+    addColumnIfMissing(db, 'users', 'totp_secret', 'TEXT')
+    addColumnIfMissing(db, 'users', 'totp_enabled', 'BOOLEAN NOT NULL DEFAULT 0')
+    addColumnIfMissing(db, 'users', 'totp_last_step', 'INTEGER')
+
+    // One-time recovery codes for accounts with two-factor authentication
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS recovery_codes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id TEXT NOT NULL,
+        code_hash TEXT NOT NULL,
+        used_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `)
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_recovery_codes_user
+      ON recovery_codes(user_id)
+    `)
+  }
+}
+
+export default migration
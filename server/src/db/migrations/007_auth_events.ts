@@ -0,0 +1,38 @@
+import type { Migration } from '../migrate.js'
+
+const migration: Migration = {
+  version: 7,
+  name: 'auth_events',
+  up: (db) => {
+    // Auth events table (login history, also used to spot brute-force attempts)
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS auth_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        event TEXT NOT NULL,
+        username TEXT,
+        ip TEXT NOT NULL,
+        user_agent TEXT,
+        reason TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `)
+
+    // Login lockouts table (failed attempts per IP or account, kept across restarts)
+    // key is "ip:<address>" or "user:<lowercased username>"
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS login_lockouts (
+        key TEXT PRIMARY KEY,
+        failures INTEGER NOT NULL DEFAULT 0,
+        locked_until DATETIME,
+        last_failure_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `)
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_auth_events_created
+      ON auth_events(created_at DESC)
+    `)
+  }
+}
+
+export default migration
@@ -0,0 +1,30 @@
+import type { Migration } from '../migrate.js'
+
+const migration: Migration = {
+  version: 8,
+  name: 'api_keys',
+  up: (db) => {
+    // API keys table (long-lived credentials for scripts and home automation)
+    // profile_id is the profile watch data is read from, picked when the key was created
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS api_keys (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        profile_id TEXT,
+        name TEXT NOT NULL,
+        key_hash TEXT NOT NULL UNIQUE,
+        key_prefix TEXT NOT NULL,
+        scope TEXT NOT NULL CHECK (scope IN ('read', 'downloads', 'admin')),
+        last_used_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `)
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_api_keys_user
+      ON api_keys(user_id)
+    `)
+  }
+}
+
+export default migration
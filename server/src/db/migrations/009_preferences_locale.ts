@@ -0,0 +1,12 @@
+import type { Migration } from '../migrate.js'
+
+const migration: Migration = {
+  version: 9,
+  name: 'preferences_locale',
+  up: (db) => {
+    // Interface language, synced so every device opens in the profile's language
+    db.exec('ALTER TABLE user_preferences ADD COLUMN ui_locale TEXT')
+  }
+}
+
+export default migration
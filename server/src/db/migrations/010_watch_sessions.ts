@@ -0,0 +1,51 @@
+import type { Migration } from '../migrate.js'
+
+const migration: Migration = {
+  version: 10,
+  name: 'watch_sessions',
+  up: (db) => {
+    // Watch sessions table (one row per play, kept when a title is rewatched)
+    // user_id is the profile ID, like watch_progress
+    db.exec(`
+      CREATE TABLE watch_sessions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id TEXT NOT NULL,
+        media_type TEXT NOT NULL CHECK (media_type IN ('movie', 'episode')),
+        tmdb_id INTEGER NOT NULL,
+        season_number INTEGER,
+        episode_number INTEGER,
+        start_position_ms INTEGER NOT NULL DEFAULT 0,
+        end_position_ms INTEGER NOT NULL DEFAULT 0,
+        duration_ms INTEGER NOT NULL DEFAULT 0,
+        completed BOOLEAN NOT NULL DEFAULT 0,
+        device TEXT,
+        started_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        ended_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `)
+
+    db.exec(`
+      CREATE INDEX idx_watch_sessions_user_started
+      ON watch_sessions(user_id, started_at DESC)
+    `)
+
+    db.exec(`
+      CREATE INDEX idx_watch_sessions_title
+      ON watch_sessions(user_id, media_type, tmdb_id, season_number, episode_number)
+    `)
+
+    // Keep what's already known: the last play of each title, without a device
+    db.exec(`
+      INSERT INTO watch_sessions (
+        user_id, media_type, tmdb_id, season_number, episode_number,
+        end_position_ms, duration_ms, completed, started_at, ended_at
+      )
+      SELECT
+        user_id, media_type, tmdb_id, season_number, episode_number,
+        position_ms, duration_ms, completed, created_at, updated_at
+      FROM watch_progress
+    `)
+  }
+}
+
+export default migration
@@ -0,0 +1,50 @@
+import type { Migration } from '../migrate.js'
+
+const migration: Migration = {
+  version: 11,
+  name: 'jellyfin_sync',
+  up: (db) => {
+    // Jellyfin user whose watched state is synced with the profile
+    db.exec('ALTER TABLE profiles ADD COLUMN jellyfin_user_id TEXT')
+
+    // Outcome of the latest sync of each profile
+    db.exec(`
+      CREATE TABLE jellyfin_sync_runs (
+        profile_id TEXT PRIMARY KEY,
+        synced_at DATETIME NOT NULL,
+        pulled INTEGER NOT NULL DEFAULT 0,
+        pushed INTEGER NOT NULL DEFAULT 0,
+        conflicts INTEGER NOT NULL DEFAULT 0,
+        unmatched INTEGER NOT NULL DEFAULT 0,
+        error TEXT
+      )
+    `)
+
+    // Items changed on both sides between two syncs, from the latest sync
+    db.exec(`
+      CREATE TABLE jellyfin_sync_conflicts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        profile_id TEXT NOT NULL,
+        media_type TEXT NOT NULL CHECK (media_type IN ('movie', 'episode')),
+        tmdb_id INTEGER NOT NULL,
+        season_number INTEGER,
+        episode_number INTEGER,
+        local_position_ms INTEGER NOT NULL,
+        local_completed BOOLEAN NOT NULL,
+        local_updated_at DATETIME NOT NULL,
+        remote_position_ms INTEGER NOT NULL,
+        remote_played BOOLEAN NOT NULL,
+        remote_updated_at DATETIME,
+        resolution TEXT NOT NULL CHECK (resolution IN ('local', 'remote')),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `)
+
+    db.exec(`
+      CREATE INDEX idx_jellyfin_sync_conflicts_profile
+      ON jellyfin_sync_conflicts(profile_id)
+    `)
+  }
+}
+
+export default migration
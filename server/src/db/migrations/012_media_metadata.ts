@@ -0,0 +1,23 @@
+import type { Migration } from '../migrate.js'
+
+const migration: Migration = {
+  version: 12,
+  name: 'media_metadata',
+  up: (db) => {
+    // TMDB details of watched titles, shared by all profiles
+    // genres is a JSON array of { id, name }; runtime is per episode for shows
+    db.exec(`
+      CREATE TABLE media_metadata (
+        media_type TEXT NOT NULL CHECK (media_type IN ('movie', 'tv')),
+        tmdb_id INTEGER NOT NULL,
+        title TEXT,
+        genres TEXT NOT NULL DEFAULT '[]',
+        runtime_minutes INTEGER,
+        fetched_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (media_type, tmdb_id)
+      )
+    `)
+  }
+}
+
+export default migration
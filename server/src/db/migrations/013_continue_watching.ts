@@ -0,0 +1,17 @@
+import type { Migration } from '../migrate.js'
+
+const migration: Migration = {
+  version: 13,
+  name: 'continue_watching',
+  up: (db) => {
+    // Set when a title is removed from Continue Watching; cleared by new progress
+    db.exec('ALTER TABLE watch_progress ADD COLUMN hidden_at DATETIME')
+
+    // Percentage watched that counts as finished, and the days without progress
+    // after which a title leaves Continue Watching (NULL keeps it forever)
+    db.exec('ALTER TABLE user_preferences ADD COLUMN completion_threshold INTEGER NOT NULL DEFAULT 95')
+    db.exec('ALTER TABLE user_preferences ADD COLUMN abandon_after_days INTEGER DEFAULT 30')
+  }
+}
+
+export default migration
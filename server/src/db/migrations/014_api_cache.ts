@@ -0,0 +1,23 @@
+import type { Migration } from '../migrate.js'
+
+const migration: Migration = {
+  version: 14,
+  name: 'api_cache',
+  up: (db) => {
+    // Responses of external metadata APIs (TMDB, OMDb), shared by all users
+    // Served as-is until expires_at, then served while being refreshed until stale_until
+    db.exec(`
+      CREATE TABLE api_cache (
+        cache_key TEXT PRIMARY KEY,
+        status INTEGER NOT NULL,
+        body TEXT NOT NULL,
+        fetched_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        expires_at DATETIME NOT NULL,
+        stale_until DATETIME NOT NULL
+      )
+    `)
+    db.exec('CREATE INDEX idx_api_cache_stale_until ON api_cache(stale_until)')
+  }
+}
+
+export default migration
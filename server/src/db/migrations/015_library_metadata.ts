@@ -0,0 +1,21 @@
+import type { Migration } from '../migrate.js'
+
+const migration: Migration = {
+  version: 15,
+  name: 'library_metadata',
+  up: (db) => {
+    // Artwork and the other ids of a title, so library items can be matched and shown
+    // without asking TMDB each time
+    db.exec('ALTER TABLE media_metadata ADD COLUMN tvdb_id INTEGER')
+    db.exec('ALTER TABLE media_metadata ADD COLUMN imdb_id TEXT')
+    db.exec('ALTER TABLE media_metadata ADD COLUMN poster_path TEXT')
+    db.exec('ALTER TABLE media_metadata ADD COLUMN backdrop_path TEXT')
+    db.exec('CREATE INDEX idx_media_metadata_tvdb_id ON media_metadata(tvdb_id)')
+    db.exec('CREATE INDEX idx_media_metadata_imdb_id ON media_metadata(imdb_id)')
+
+    // Fetch titles cached before again, to fill in the new columns
+    db.exec(`UPDATE media_metadata SET fetched_at = '1970-01-01 00:00:00'`)
+  }
+}
+
+export default migration
@@ -0,0 +1,32 @@
+import type { Migration } from '../migrate.js'
+
+const migration: Migration = {
+  version: 16,
+  name: 'jellyfin_items',
+  up: (db) => {
+    // Jellyfin movies, episodes and series by provider id and file path, so items to play
+    // are found without listing the whole library
+    // Episodes carry their series' item id; the series row holds its TMDB and TVDB ids
+    db.exec(`
+      CREATE TABLE jellyfin_items (
+        item_id TEXT PRIMARY KEY,
+        item_type TEXT NOT NULL CHECK (item_type IN ('movie', 'episode', 'series')),
+        tmdb_id INTEGER,
+        tvdb_id INTEGER,
+        series_id TEXT,
+        season_number INTEGER,
+        episode_number INTEGER,
+        path TEXT,
+        file_name TEXT,
+        indexed_at DATETIME NOT NULL
+      )
+    `)
+    db.exec('CREATE INDEX idx_jellyfin_items_tmdb_id ON jellyfin_items(item_type, tmdb_id)')
+    db.exec('CREATE INDEX idx_jellyfin_items_tvdb_id ON jellyfin_items(item_type, tvdb_id)')
+    db.exec('CREATE INDEX idx_jellyfin_items_series ON jellyfin_items(series_id, season_number, episode_number)')
+    db.exec('CREATE INDEX idx_jellyfin_items_path ON jellyfin_items(path)')
+    db.exec('CREATE INDEX idx_jellyfin_items_file_name ON jellyfin_items(file_name)')
+  }
+}
+
+export default migration
@@ -0,0 +1,39 @@
+import type { Migration } from '../migrate.js'
+
+const migration: Migration = {
+  version: 17,
+  name: 'downloads',
+  up: (db) => {
+    // Every download ever started, kept after it completes, fails or is cancelled
+    // Times are ISO 8601 strings, as sent to clients
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS downloads (
+        id TEXT PRIMARY KEY,
+        info_hash TEXT NOT NULL DEFAULT '',
+        media_id INTEGER,
+        media_type TEXT CHECK(media_type IN ('movie', 'tv')),
+        name TEXT NOT NULL,
+        status TEXT NOT NULL,
+        progress INTEGER NOT NULL DEFAULT 0,
+        download_speed INTEGER NOT NULL DEFAULT 0,
+        upload_speed INTEGER NOT NULL DEFAULT 0,
+        size INTEGER NOT NULL DEFAULT 0,
+        downloaded INTEGER NOT NULL DEFAULT 0,
+        eta INTEGER,
+        save_path TEXT NOT NULL,
+        error TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        completed_at TEXT,
+        failed_at TEXT,
+        cancelled_at TEXT
+      )
+    `)
+
+    db.exec('CREATE INDEX IF NOT EXISTS idx_downloads_status ON downloads(status, created_at)')
+    db.exec('CREATE INDEX IF NOT EXISTS idx_downloads_media ON downloads(media_type, media_id)')
+    db.exec('CREATE INDEX IF NOT EXISTS idx_downloads_created ON downloads(created_at)')
+  }
+}
+
+export default migration
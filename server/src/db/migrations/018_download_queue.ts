@@ -0,0 +1,14 @@
+import type { Migration } from '../migrate.js'
+
+const migration: Migration = {
+  version: 18,
+  name: 'download_queue',
+  up: (db) => {
+    db.exec(`ALTER TABLE downloads ADD COLUMN priority TEXT NOT NULL DEFAULT 'normal' CHECK(priority IN ('high', 'normal', 'low'))`)
+
+    // Ties are broken by created_at, so existing downloads keep the order they were added in
+    db.exec('ALTER TABLE downloads ADD COLUMN queue_position INTEGER NOT NULL DEFAULT 0')
+  }
+}
+
+export default migration
@@ -0,0 +1,36 @@
+import type { Migration } from '../migrate.js'
+
+const migration: Migration = {
+  version: 19,
+  name: 'bandwidth_schedule',
+  up: (db) => {
+    // Weekly windows with their own speed limits; the first matching rule applies
+    // days is a comma separated list of weekdays (0 = Sunday), times are HH:MM in the server's time zone
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS bandwidth_rules (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        position INTEGER NOT NULL,
+        days TEXT NOT NULL,
+        start_time TEXT NOT NULL,
+        end_time TEXT NOT NULL,
+        download_limit INTEGER NOT NULL DEFAULT 0,
+        upload_limit INTEGER NOT NULL DEFAULT 0
+      )
+    `)
+
+    // Limits of the manual "slow" mode and the manual override in effect, if any
+    // Limits are in KiB/s, 0 = unlimited
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS bandwidth_settings (
+        id INTEGER PRIMARY KEY CHECK(id = 1),
+        slow_download_limit INTEGER NOT NULL DEFAULT 1024,
+        slow_upload_limit INTEGER NOT NULL DEFAULT 256,
+        override_mode TEXT CHECK(override_mode IN ('turbo', 'slow')),
+        override_until DATETIME
+      )
+    `)
+    db.exec('INSERT OR IGNORE INTO bandwidth_settings (id) VALUES (1)')
+  }
+}
+
+export default migration
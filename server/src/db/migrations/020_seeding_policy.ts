@@ -0,0 +1,30 @@
+import type { Migration } from '../migrate.js'
+
+const migration: Migration = {
+  version: 20,
+  name: 'seeding_policy',
+  up: (db) => {
+    // Where a download came from, and how much it has seeded
+    // seeding_stopped_at is set once the torrent is removed from qBittorrent after seeding
+    db.exec('ALTER TABLE downloads ADD COLUMN indexer TEXT')
+    db.exec('ALTER TABLE downloads ADD COLUMN private_tracker INTEGER NOT NULL DEFAULT 0')
+    db.exec('ALTER TABLE downloads ADD COLUMN ratio REAL')
+    db.exec('ALTER TABLE downloads ADD COLUMN seeding_time INTEGER')
+    db.exec('ALTER TABLE downloads ADD COLUMN seeding_stopped_at TEXT')
+
+    // How long torrents seed before they are removed, by qBittorrent category and indexer
+    // An empty category or indexer matches any; the most specific rule applies
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS seeding_rules (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        category TEXT NOT NULL DEFAULT '',
+        indexer TEXT NOT NULL DEFAULT '',
+        ratio REAL,
+        seed_time_minutes INTEGER,
+        UNIQUE(category, indexer)
+      )
+    `)
+  }
+}
+
+export default migration
@@ -0,0 +1,13 @@
+import type { Database } from 'better-sqlite3'
+
+/**
+ * Add a column to a table created by an older version of the schema
+ * Returns whether the column was added
+ */
+export const addColumnIfMissing = (db: Database, table: string, column: string, definition: string): boolean => {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]
+  if (columns.some(c => c.name === column)) return false
+
+  db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`)
+  return true
+}
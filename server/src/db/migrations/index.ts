@@ -0,0 +1,46 @@
+import type { Migration } from '../migrate.js'
+import initialSchema from './001_initial_schema.js'
+import users from './002_users.js'
+import profiles from './003_profiles.js'
+import userRoles from './004_user_roles.js'
+import sessions from './005_sessions.js'
+import twoFactor from './006_two_factor.js'
+import authEvents from './007_auth_events.js'
+import apiKeys from './008_api_keys.js'
+import preferencesLocale from './009_preferences_locale.js'
+import watchSessions from './010_watch_sessions.js'
+import jellyfinSync from './011_jellyfin_sync.js'
+import mediaMetadata from './012_media_metadata.js'
+import continueWatching from './013_continue_watching.js'
+import apiCache from './014_api_cache.js'
+import libraryMetadata from './015_library_metadata.js'
+import jellyfinItems from './016_jellyfin_items.js'
+import downloads from './017_downloads.js'
+import downloadQueue from './018_download_queue.js'
+import bandwidthSchedule from './019_bandwidth_schedule.js'
+import seedingPolicy from './020_seeding_policy.js'
+
+// Every schema change, oldest first
+// To change the schema, add a new numbered file here; never edit one that has shipped
+export const migrations: Migration[] = [
+  initialSchema,
+  users,
+  profiles,
+  userRoles,
+  sessions,
+  twoFactor,
+  authEvents,
+  apiKeys,
+  preferencesLocale,
+  watchSessions,
+  jellyfinSync,
+  mediaMetadata,
+  continueWatching,
+  apiCache,
+  libraryMetadata,
+  jellyfinItems,
+  downloads,
+  downloadQueue,
+  bandwidthSchedule,
+  seedingPolicy
+]
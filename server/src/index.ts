@@ -7,15 +7,32 @@ import torrentRoutes from './routes/torrents.js'
 import libraryRoutes from './routes/library.js'
 import mediaRoutes from './routes/media.js'
 import progressRoutes from './routes/progress.js'
+import statsRoutes from './routes/stats.js'
 import hlsProxyRoutes from './routes/hlsProxy.js'
 import subtitleRoutes from './routes/subtitles.js'
-import { authMiddleware } from './middleware/auth.js'
+import userRoutes from './routes/users.js'
+import profileRoutes from './routes/profiles.js'
+import apiKeyRoutes from './routes/apiKeys.js'
+import preferencesRoutes from './routes/preferences.js'
+import tmdbRoutes from './routes/tmdb.js'
+import omdbRoutes from './routes/omdb.js'
+import bandwidthRoutes from './routes/bandwidth.js'
+import { authMiddleware, requireProfile, requireRole, requireSession } from './middleware/auth.js'
 import { setupWebSocket } from './websocket/progressSocket.js'
 import { downloadManager } from './services/downloadManager.js'
+import { jellyfinSyncService } from './services/jellyfinSyncService.js'
+import { libraryIndexService } from './services/libraryIndexService.js'
+import { jellyfinIndexService } from './services/jellyfinIndexService.js'
+import { bandwidthService } from './services/bandwidthService.js'
+import { storageService } from './services/storageService.js'
+import { userService } from './services/userService.js'
 
 const app = express()
 const server = createServer(app)
 
+// Only believe X-Forwarded-For from configured proxies (used for client IPs in auth logs and lockouts)
+app.set('trust proxy', config.trustProxy)
+
 // Middleware
 app.use(cors({
   origin: (origin, callback) => {
@@ -37,32 +54,61 @@ app.use(cors({
     }
     callback(null, true) // Allow all origins for now (can be restricted later)
   },
-  credentials: true
+  credentials: true,
+  // Lets the frontend name downloaded exports
+  exposedHeaders: ['Content-Disposition']
 }))
 app.use(express.json())
 
 // Public routes (no auth required)
 app.use('/api/auth', authRoutes)
-app.use('/api/proxy', hlsProxyRoutes) // HLS proxy for Jellyfin streams (no auth - HLS.js can't send headers)
+app.use('/api/proxy', hlsProxyRoutes) // HLS proxy for Jellyfin streams (signed stream tokens - HLS.js can't send headers)
 
 // Protected routes (auth required)
-app.use('/api/torrents', authMiddleware, torrentRoutes)
+app.use('/api/torrents', authMiddleware, requireRole('admin'), torrentRoutes) // Starting and managing downloads is admin-only
+app.use('/api/bandwidth', authMiddleware, requireRole('admin'), bandwidthRoutes)
 app.use('/api/library', authMiddleware, libraryRoutes)
 app.use('/api/media', authMiddleware, mediaRoutes)
-app.use('/api/progress', authMiddleware, progressRoutes)
+app.use('/api/progress', authMiddleware, requireProfile, progressRoutes)
+app.use('/api/preferences', authMiddleware, requireProfile, preferencesRoutes)
+app.use('/api/stats', authMiddleware, requireProfile, statsRoutes)
 app.use('/api/subtitles', authMiddleware, subtitleRoutes)
+app.use('/api/tmdb', authMiddleware, tmdbRoutes) // Metadata proxies keep the API keys on the server
+app.use('/api/omdb', authMiddleware, omdbRoutes)
+app.use('/api/users', authMiddleware, userRoutes)
+app.use('/api/profiles', authMiddleware, profileRoutes)
+app.use('/api/api-keys', authMiddleware, requireSession, apiKeyRoutes) // Keys are managed from the app, never with another key
 
 // Health check
 app.get('/health', (req, res) => {
-  res.json({ status: 'ok', downloadPath: config.downloadPath })
+  res.json({ status: 'ok', downloadPath: config.downloadPath, storage: storageService.getDownloadSpace() })
 })
 
+// Create the initial account from APP_PASSWORD_HASH on first start
+userService.ensureBootstrapUser()
+
 // Setup WebSocket
 setupWebSocket(server)
 
+// Keep watched state in sync with Jellyfin users linked to profiles
+jellyfinSyncService.start()
+
+// Keep TMDB details of library titles at hand
+libraryIndexService.start()
+
+// Keep track of where movies and episodes are in Jellyfin
+jellyfinIndexService.start()
+
+// Apply scheduled qBittorrent speed limits
+bandwidthService.start()
+
 // Graceful shutdown
 process.on('SIGINT', async () => {
   console.log('\nShutting down...')
+  jellyfinSyncService.stop()
+  libraryIndexService.stop()
+  jellyfinIndexService.stop()
+  bandwidthService.stop()
   await downloadManager.destroy()
   server.close()
   process.exit(0)
@@ -70,6 +116,10 @@ process.on('SIGINT', async () => {
 
 process.on('SIGTERM', async () => {
   console.log('\nShutting down...')
+  jellyfinSyncService.stop()
+  libraryIndexService.stop()
+  jellyfinIndexService.stop()
+  bandwidthService.stop()
   await downloadManager.destroy()
   server.close()
   process.exit(0)
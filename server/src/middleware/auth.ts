@@ -1,21 +1,147 @@
 import { Request, Response, NextFunction } from 'express'
 import jwt from 'jsonwebtoken'
 import { config } from '../config.js'
+import { DEFAULT_USER_ID, userService, type UserRole } from '../services/userService.js'
+import { sessionService } from '../services/sessionService.js'
+import { apiKeyService, isAllowedByScope, type ApiKeyScope } from '../services/apiKeyService.js'
+import { DEFAULT_KID_RATING } from '../utils/contentRating.js'
+
+export interface TokenPayload {
+  authenticated: boolean
+  userId: string
+  username: string
+  role?: UserRole
+  // Device session the token was issued for; revoking it invalidates the token
+  sessionId?: string
+  // Set once a profile has been picked on the "who's watching?" screen
+  profileId?: string
+  profileName?: string
+  // Set when the request was authenticated with an X-Api-Key header instead of a token
+  apiKeyId?: string
+  apiKeyScope?: ApiKeyScope
+  // Absent for API keys
+  iat?: number
+  exp?: number
+}
 
 export interface AuthenticatedRequest extends Request {
-  user?: {
-    authenticated: boolean
-    iat: number
-    exp: number
+  user?: TokenPayload
+}
+
+/**
+ * Get the ID of the user making the request
+ * Falls back to the default user when auth is disabled
+ */
+export const getUserId = (req: AuthenticatedRequest): string => {
+  return req.user?.userId || DEFAULT_USER_ID
+}
+
+/**
+ * Get the ID of the profile watch data is scoped to
+ * An account's first profile shares the account ID
+ */
+export const getProfileId = (req: AuthenticatedRequest): string => {
+  return req.user?.profileId || getUserId(req)
+}
+
+/**
+ * Require a profile-scoped token (use after authMiddleware)
+ */
+export const requireProfile = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  if (!config.auth.enabled || req.user?.profileId) {
+    return next()
+  }
+
+  return res.status(403).json({ error: 'No profile selected' })
+}
+
+/**
+ * Get the current role of the user making the request
+ * Read from the database so role changes apply without signing in again
+ */
+export const getUserRole = (req: AuthenticatedRequest): UserRole | null => {
+  if (!config.auth.enabled) return 'admin'
+  return userService.getUserById(getUserId(req))?.role ?? null
+}
+
+/**
+ * Get the content rating limit for the request, or null when unrestricted
+ */
+export const getRatingLimit = (req: AuthenticatedRequest): string | null => {
+  if (!config.auth.enabled) return null
+
+  const user = userService.getUserById(getUserId(req))
+  if (!user || user.role !== 'kid') return null
+  return user.maxRating || DEFAULT_KID_RATING
+}
+
+/**
+ * Only allow users with one of the given roles (use after authMiddleware)
+ */
+export const requireRole = (...roles: UserRole[]) => {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const role = getUserRole(req)
+
+    if (role && roles.includes(role)) {
+      return next()
+    }
+
+    return res.status(403).json({ error: 'You do not have permission to do this' })
   }
 }
 
+/**
+ * Only allow requests from a signed-in device, not an API key (use after authMiddleware)
+ * Keeps keys from creating more keys or managing the account
+ */
+export const requireSession = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  if (!req.user?.apiKeyId) {
+    return next()
+  }
+
+  return res.status(403).json({ error: 'API keys cannot be used for this' })
+}
+
+// Authenticate a request made with an API key, limited to what its scope allows
+const authenticateApiKey = (key: string, req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const apiKey = apiKeyService.authenticate(key)
+  if (!apiKey) {
+    return res.status(401).json({ error: 'Invalid API key' })
+  }
+
+  // Keys from before profiles were recorded can't tell whose history they act on
+  if (!apiKey.profileId) {
+    return res.status(403).json({ error: 'This API key has no profile, create a new one' })
+  }
+
+  if (!isAllowedByScope(apiKey.scope, req.method, req.baseUrl)) {
+    return res.status(403).json({ error: `This API key only has ${apiKey.scope} access` })
+  }
+
+  req.user = {
+    authenticated: true,
+    userId: apiKey.userId,
+    username: apiKey.username,
+    role: apiKey.role,
+    profileId: apiKey.profileId,
+    apiKeyId: apiKey.id,
+    apiKeyScope: apiKey.scope
+  }
+  next()
+}
+
 export const authMiddleware = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   // Skip auth if not enabled (for development without password set)
   if (!config.auth.enabled) {
     return next()
   }
 
+  // Scripts and home automation authenticate with a long-lived key
+  const apiKey = req.headers['x-api-key']
+  if (typeof apiKey === 'string' && apiKey) {
+    return authenticateApiKey(apiKey, req, res, next)
+  }
+
   const authHeader = req.headers.authorization
   const queryToken = req.query.token as string | undefined
 
@@ -36,10 +162,16 @@ export const authMiddleware = (req: AuthenticatedRequest, res: Response, next: N
   }
 
   try {
-    const decoded = jwt.verify(token, config.auth.jwtSecret) as {
-      authenticated: boolean
-      iat: number
-      exp: number
+    const decoded = jwt.verify(token, config.auth.jwtSecret) as TokenPayload
+
+    // Tokens issued before multi-user accounts or sessions lack these claims
+    if (!decoded.userId || !decoded.sessionId) {
+      return res.status(401).json({ error: 'Invalid token' })
+    }
+
+    // The device was signed out remotely or its session expired
+    if (!sessionService.isSessionActive(decoded.sessionId)) {
+      return res.status(401).json({ error: 'Session revoked' })
     }
 
     req.user = decoded
@@ -0,0 +1,27 @@
+import { Request, Response, NextFunction } from 'express'
+import { verifyStreamToken, STREAM_TOKEN_PARAM, type StreamTokenPayload } from '../utils/streamTokens.js'
+
+/**
+ * Reject requests without a valid stream token for the item in the :itemId route parameter
+ * The verified token is left in res.locals.streamToken
+ */
+export const requireStreamToken = (req: Request, res: Response, next: NextFunction) => {
+  const payload = verifyStreamToken(req.query[STREAM_TOKEN_PARAM], req.params.itemId)
+
+  if (!payload) {
+    res.status(403).json({ error: 'Invalid or expired stream token' })
+    return
+  }
+
+  // The token only covers the play session it was issued for
+  const { PlaySessionId } = req.query
+  if (PlaySessionId && PlaySessionId !== payload.playSessionId) {
+    res.status(403).json({ error: 'Invalid or expired stream token' })
+    return
+  }
+
+  res.locals.streamToken = payload
+  next()
+}
+
+export const getStreamToken = (res: Response): StreamTokenPayload => res.locals.streamToken
@@ -0,0 +1,69 @@
+import { Router, Response } from 'express'
+import { apiKeyService, getAllowedScopes, type ApiKeyScope } from '../services/apiKeyService.js'
+import { getUserId, getUserRole, type AuthenticatedRequest } from '../middleware/auth.js'
+
+const router = Router()
+
+const MAX_NAME_LENGTH = 50
+
+// List the current user's API keys
+router.get('/', (req: AuthenticatedRequest, res: Response) => {
+  const role = getUserRole(req)
+
+  res.json({
+    apiKeys: apiKeyService.listKeys(getUserId(req)),
+    allowedScopes: role ? getAllowedScopes(role) : []
+  })
+})
+
+// Create an API key; the key itself is only returned in this response
+router.post('/', (req: AuthenticatedRequest, res: Response) => {
+  const { name, scope = 'read' } = req.body
+  const role = getUserRole(req)
+
+  if (!name || typeof name !== 'string' || !name.trim()) {
+    res.status(400).json({ error: 'Name is required' })
+    return
+  }
+
+  if (name.trim().length > MAX_NAME_LENGTH) {
+    res.status(400).json({ error: `Name must be at most ${MAX_NAME_LENGTH} characters` })
+    return
+  }
+
+  // Keys can't do more than their owner
+  const allowedScopes = role ? getAllowedScopes(role) : []
+  if (!allowedScopes.includes(scope as ApiKeyScope)) {
+    res.status(400).json({ error: `Scope must be one of: ${allowedScopes.join(', ')}` })
+    return
+  }
+
+  // A key reads and writes as the profile it was created from
+  const profileId = req.user?.profileId
+  if (!profileId) {
+    res.status(403).json({ error: 'No profile selected' })
+    return
+  }
+
+  const result = apiKeyService.createKey(getUserId(req), profileId, name, scope)
+
+  if (result) {
+    res.json(result)
+  } else {
+    res.status(500).json({ error: 'Failed to create API key' })
+  }
+})
+
+// Revoke an API key
+router.delete('/:id', (req: AuthenticatedRequest, res: Response) => {
+  const success = apiKeyService.revokeKey(req.params.id, getUserId(req))
+
+  if (!success) {
+    res.status(404).json({ error: 'API key not found' })
+    return
+  }
+
+  res.json({ success: true })
+})
+
+export default router
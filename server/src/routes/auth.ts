@@ -1,99 +1,160 @@
 import { Router, Request, Response } from 'express'
-import jwt, { SignOptions } from 'jsonwebtoken'
-import bcrypt from 'bcryptjs'
-import rateLimit from 'express-rate-limit'
+import jwt from 'jsonwebtoken'
 import { config } from '../config.js'
-import { logAuthEvent, getClientIp } from '../utils/authLogger.js'
-
-// Helper to create JWT with proper typing
-const createToken = (payload: object): string => {
-  // expiresIn accepts seconds (number) or string like "7d", "1h", etc.
-  // Cast to any to bypass strict typing from newer @types/jsonwebtoken
-  return jwt.sign(payload, config.auth.jwtSecret, {
-    expiresIn: config.auth.tokenExpiry
-  } as jwt.SignOptions)
-}
+import { logAuthEvent, getClientIp, AUTH_LOG_EVENTS, type AuthLogEvent } from '../utils/authLogger.js'
+import { userService, DEFAULT_USER_ID } from '../services/userService.js'
+import { profileService } from '../services/profileService.js'
+import { sessionService } from '../services/sessionService.js'
+import { authMiddleware, getUserId, requireRole, requireSession, type AuthenticatedRequest, type TokenPayload } from '../middleware/auth.js'
+import { twoFactorService } from '../services/twoFactorService.js'
+import { authEventService } from '../services/authEventService.js'
+import { loginLockoutService } from '../services/loginLockoutService.js'
+import { createSessionToken, createTwoFactorChallenge, verifyTwoFactorChallenge } from '../utils/tokens.js'
+import { disconnectSession } from '../websocket/progressSocket.js'
 
 const router = Router()
 
-// Rate limiting for login endpoint - 5 attempts per minute per IP
-const loginLimiter = rateLimit({
-  windowMs: 60 * 1000, // 1 minute
-  max: 5, // 5 attempts
-  message: { error: 'Too many login attempts, please try again after a minute' },
-  standardHeaders: true,
-  legacyHeaders: false,
-  handler: (req, res) => {
-    logAuthEvent({
-      event: 'LOGIN_FAILED',
-      ip: getClientIp(req),
-      userAgent: req.headers['user-agent'],
-      reason: 'Rate limit exceeded'
-    })
-    res.status(429).json({ error: 'Too many login attempts, please try again after a minute' })
-  }
-})
+/**
+ * Reject the attempt while its IP or account is locked out after repeated failures
+ * Returns true when a response was sent
+ */
+const rejectIfLockedOut = (req: Request, res: Response, username?: string): boolean => {
+  const clientIp = getClientIp(req)
+  const lockout = loginLockoutService.getLockout(clientIp, username)
+  if (!lockout) return false
+
+  logAuthEvent({
+    event: 'LOGIN_RATE_LIMITED',
+    username,
+    ip: clientIp,
+    userAgent: req.headers['user-agent'],
+    reason: `Locked out after ${lockout.failures} failed attempts`
+  })
+
+  const minutes = Math.ceil(lockout.retryAfter / 60)
+  res.set('Retry-After', String(lockout.retryAfter))
+  res.status(429).json({
+    error: `Too many failed attempts, please try again in ${minutes} minute${minutes === 1 ? '' : 's'}`,
+    retryAfter: lockout.retryAfter
+  })
+  return true
+}
 
 // POST /api/auth/login
-router.post('/login', loginLimiter, async (req: Request, res: Response) => {
-  const { password } = req.body
+// Accounts with two-factor enabled sign in in two steps: username and password
+// return a challenge token, which is then sent back together with a code
+// Repeated failures lock out the IP and the account, with longer lockouts each time
+router.post('/login', async (req: Request, res: Response) => {
+  const { username, password, challengeToken, code } = req.body
   const clientIp = getClientIp(req)
   const userAgent = req.headers['user-agent']
 
   // Check if auth is enabled
   if (!config.auth.enabled) {
-    // If no password is configured, allow access (development mode)
-    const token = createToken({ authenticated: true })
-    const decoded = jwt.decode(token) as { exp: number }
+    // If no password is configured, allow access as the default user (development mode)
+    return res.json(createSessionToken({ id: DEFAULT_USER_ID, username: config.auth.adminUsername, role: 'admin' }))
+  }
+
+  // Second step: check the authenticator or recovery code
+  if (challengeToken) {
+    const userId = typeof challengeToken === 'string' ? verifyTwoFactorChallenge(challengeToken) : null
+    const user = userId ? userService.getUserById(userId) : null
+
+    if (rejectIfLockedOut(req, res, user?.username)) return
+
+    if (!user) {
+      logAuthEvent({
+        event: 'LOGIN_FAILED',
+        ip: clientIp,
+        userAgent,
+        reason: 'Invalid or expired two-factor challenge'
+      })
+      return res.status(401).json({ error: 'Your sign-in attempt expired, please start again' })
+    }
 
-    return res.json({
-      token,
-      expiresAt: decoded.exp * 1000 // Convert to milliseconds
+    const method = typeof code === 'string' ? twoFactorService.verifyCode(user.id, code) : null
+    if (!method) {
+      loginLockoutService.recordFailure(clientIp, user.username)
+      logAuthEvent({
+        event: 'LOGIN_FAILED',
+        username: user.username,
+        ip: clientIp,
+        userAgent,
+        reason: 'Invalid two-factor code'
+      })
+      return res.status(401).json({ error: 'Invalid verification code' })
+    }
+
+    loginLockoutService.recordSuccess(clientIp, user.username)
+    logAuthEvent({
+      event: 'LOGIN_SUCCESS',
+      username: user.username,
+      ip: clientIp,
+      userAgent,
+      reason: method === 'recovery' ? 'Recovery code' : 'Authenticator code'
     })
+
+    const issued = sessionService.createSession(user.id, userAgent, clientIp)
+    if (!issued) {
+      return res.status(500).json({ error: 'Login failed' })
+    }
+
+    return res.json(createSessionToken(user, { sessionId: issued.session.id, refreshToken: issued.refreshToken }))
   }
 
-  if (!password) {
+  if (rejectIfLockedOut(req, res, typeof username === 'string' ? username : undefined)) return
+
+  if (!username || !password || typeof username !== 'string' || typeof password !== 'string') {
     logAuthEvent({
       event: 'LOGIN_FAILED',
       ip: clientIp,
       userAgent,
-      reason: 'No password provided'
+      reason: 'No username or password provided'
     })
-    return res.status(400).json({ error: 'Password is required' })
+    return res.status(400).json({ error: 'Username and password are required' })
   }
 
   try {
-    // Verify password against stored hash
-    const isValid = await bcrypt.compare(password, config.auth.passwordHash)
+    // Verify password against the user's stored hash
+    const user = await userService.verifyCredentials(username, password)
 
-    if (!isValid) {
+    if (!user) {
+      loginLockoutService.recordFailure(clientIp, username)
       logAuthEvent({
         event: 'LOGIN_FAILED',
+        username,
         ip: clientIp,
         userAgent,
-        reason: 'Invalid password'
+        reason: 'Invalid credentials'
       })
-      return res.status(401).json({ error: 'Invalid password' })
+      return res.status(401).json({ error: 'Invalid username or password' })
     }
 
-    // Generate JWT token
-    const token = createToken({ authenticated: true })
-    const decoded = jwt.decode(token) as { exp: number }
+    // The password was right, but the account also needs a code from the authenticator app
+    if (user.twoFactorEnabled) {
+      return res.json({ twoFactorRequired: true, challengeToken: createTwoFactorChallenge(user.id) })
+    }
 
+    loginLockoutService.recordSuccess(clientIp, user.username)
     logAuthEvent({
       event: 'LOGIN_SUCCESS',
+      username: user.username,
       ip: clientIp,
-      userAgent
+      userAgent,
+      reason: 'Password'
     })
 
-    res.json({
-      token,
-      expiresAt: decoded.exp * 1000 // Convert to milliseconds
-    })
+    const issued = sessionService.createSession(user.id, userAgent, clientIp)
+    if (!issued) {
+      return res.status(500).json({ error: 'Login failed' })
+    }
+
+    res.json(createSessionToken(user, { sessionId: issued.session.id, refreshToken: issued.refreshToken }))
   } catch (error) {
     console.error('Login error:', error)
     logAuthEvent({
       event: 'LOGIN_FAILED',
+      username,
       ip: clientIp,
       userAgent,
       reason: 'Server error'
@@ -114,13 +175,136 @@ router.post('/verify', (req: Request, res: Response) => {
   }
 
   try {
-    jwt.verify(token, config.auth.jwtSecret)
-    res.json({ valid: true })
+    const decoded = jwt.verify(token, config.auth.jwtSecret) as TokenPayload
+
+    // Reject tokens without a user claim or for accounts that were deleted
+    const user = decoded.userId ? userService.getUserById(decoded.userId) : null
+    if (config.auth.enabled && !user) {
+      return res.json({ valid: false })
+    }
+
+    // The device may have been signed out since the token was issued
+    if (config.auth.enabled && !(decoded.sessionId && sessionService.isSessionActive(decoded.sessionId))) {
+      return res.json({ valid: false })
+    }
+
+    // A profile-scoped token is only valid while its profile exists
+    const profile = decoded.profileId ? profileService.getProfile(decoded.profileId) : null
+    if (decoded.profileId && !profile) {
+      return res.json({ valid: false })
+    }
+
+    res.json({
+      valid: true,
+      user: user
+        ? { id: user.id, username: user.username, role: user.role, maxRating: user.maxRating }
+        : { id: decoded.userId, username: decoded.username, role: 'admin', maxRating: null },
+      profile: profile ? { id: profile.id, name: profile.name, avatarColor: profile.avatarColor } : null
+    })
   } catch {
     res.json({ valid: false })
   }
 })
 
+// POST /api/auth/refresh
+// Exchange a refresh token for a new access token and a new refresh token
+router.post('/refresh', (req: Request, res: Response) => {
+  const { refreshToken } = req.body
+
+  if (!refreshToken || typeof refreshToken !== 'string') {
+    return res.status(400).json({ error: 'Refresh token is required' })
+  }
+
+  const issued = sessionService.rotateRefreshToken(refreshToken, req.headers['user-agent'], getClientIp(req))
+  if (!issued) {
+    return res.status(401).json({ error: 'Invalid refresh token' })
+  }
+
+  const { session } = issued
+  const user = userService.getUserById(session.userId)
+  if (!user) {
+    sessionService.revokeSession(session.id, session.userId)
+    return res.status(401).json({ error: 'Invalid refresh token' })
+  }
+
+  // Keep the token scoped to the profile picked on this device, if it still exists
+  const profile = session.profileId ? profileService.getProfile(session.profileId) : null
+
+  res.json(createSessionToken(user, { sessionId: session.id, profile, refreshToken: issued.refreshToken }))
+})
+
+// POST /api/auth/logout
+// Sign out the current device
+router.post('/logout', authMiddleware, (req: AuthenticatedRequest, res: Response) => {
+  const sessionId = req.user?.sessionId
+  if (sessionId) {
+    sessionService.revokeSession(sessionId, getUserId(req))
+    disconnectSession(sessionId)
+  }
+
+  res.json({ success: true })
+})
+
+// GET /api/auth/sessions
+// List the devices signed in to the current account (not with an API key)
+router.get('/sessions', authMiddleware, requireSession, (req: AuthenticatedRequest, res: Response) => {
+  const sessions = sessionService.listSessions(getUserId(req)).map(session => ({
+    ...session,
+    current: session.id === req.user?.sessionId
+  }))
+
+  res.json({ sessions })
+})
+
+// DELETE /api/auth/sessions/:id
+// Sign out another device, e.g. a lost phone (not with an API key)
+router.delete('/sessions/:id', authMiddleware, requireSession, (req: AuthenticatedRequest, res: Response) => {
+  const success = sessionService.revokeSession(req.params.id, getUserId(req))
+
+  if (!success) {
+    return res.status(404).json({ error: 'Session not found' })
+  }
+
+  disconnectSession(req.params.id)
+  res.json({ success: true })
+})
+
+// GET /api/auth/events
+// Browse login history (admin only), filtered by event, username or IP
+router.get('/events', authMiddleware, requireRole('admin'), (req: AuthenticatedRequest, res: Response) => {
+  const { event, username, ip } = req.query
+  const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 200)
+  const offset = Math.max(parseInt(req.query.offset as string) || 0, 0)
+
+  if (event !== undefined && !AUTH_LOG_EVENTS.includes(event as AuthLogEvent)) {
+    return res.status(400).json({ error: `Event must be one of: ${AUTH_LOG_EVENTS.join(', ')}` })
+  }
+
+  res.json(authEventService.list({
+    event: event as AuthLogEvent | undefined,
+    username: typeof username === 'string' && username ? username : undefined,
+    ip: typeof ip === 'string' && ip ? ip : undefined,
+    limit,
+    offset
+  }))
+})
+
+// GET /api/auth/lockouts
+// List IPs and accounts currently locked out (admin only)
+router.get('/lockouts', authMiddleware, requireRole('admin'), (_req: AuthenticatedRequest, res: Response) => {
+  res.json({ lockouts: loginLockoutService.listLockouts() })
+})
+
+// DELETE /api/auth/lockouts/:key
+// Lift a lockout early (admin only)
+router.delete('/lockouts/:key', authMiddleware, requireRole('admin'), (req: AuthenticatedRequest, res: Response) => {
+  if (!loginLockoutService.clearLockout(req.params.key)) {
+    return res.status(404).json({ error: 'Lockout not found' })
+  }
+
+  res.json({ success: true })
+})
+
 // GET /api/auth/status
 router.get('/status', (_req: Request, res: Response) => {
   res.json({
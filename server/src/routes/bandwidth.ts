@@ -0,0 +1,117 @@
+import { Router, Request, Response } from 'express'
+import { bandwidthService, type BandwidthOverrideMode, type BandwidthRule } from '../services/bandwidthService.js'
+
+const router = Router()
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+const OVERRIDE_MODES: BandwidthOverrideMode[] = ['turbo', 'slow']
+const MAX_RULES = 50
+// A week, the longest an override can be set for
+const MAX_OVERRIDE_MINUTES = 7 * 24 * 60
+
+const isLimit = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 0
+
+const isLimits = (value: any): boolean =>
+  typeof value === 'object' && value !== null && isLimit(value.downloadLimit) && isLimit(value.uploadLimit)
+
+const isRule = (value: any): value is BandwidthRule =>
+  isLimits(value) &&
+  Array.isArray(value.days) && value.days.length > 0 &&
+  value.days.every((day: unknown) => Number.isInteger(day) && (day as number) >= 0 && (day as number) <= 6) &&
+  TIME_PATTERN.test(value.start) &&
+  TIME_PATTERN.test(value.end)
+
+/**
+ * Get the schedule, the override and the limits in effect
+ * GET /api/bandwidth
+ */
+router.get('/', (req: Request, res: Response) => {
+  res.json(bandwidthService.getStatus())
+})
+
+/**
+ * Replace the weekly schedule
+ * PUT /api/bandwidth/rules { rules: [{ days, start, end, downloadLimit, uploadLimit }] }
+ */
+router.put('/rules', (req: Request, res: Response) => {
+  const { rules } = req.body as { rules?: unknown }
+
+  if (!Array.isArray(rules) || rules.length > MAX_RULES || !rules.every(isRule)) {
+    res.status(400).json({ error: 'Invalid rules' })
+    return
+  }
+
+  const saved = bandwidthService.setRules(rules.map(rule => ({
+    days: [...new Set(rule.days)].sort((a, b) => a - b),
+    start: rule.start,
+    end: rule.end,
+    downloadLimit: rule.downloadLimit,
+    uploadLimit: rule.uploadLimit
+  })))
+  if (!saved) {
+    res.status(500).json({ error: 'Failed to save rules' })
+    return
+  }
+
+  res.json(bandwidthService.getStatus())
+})
+
+/**
+ * Set the limits used in slow mode
+ * PUT /api/bandwidth/slow-limits { downloadLimit, uploadLimit }
+ */
+router.put('/slow-limits', (req: Request, res: Response) => {
+  if (!isLimits(req.body)) {
+    res.status(400).json({ error: 'Limits must be whole numbers of KiB/s, 0 for unlimited' })
+    return
+  }
+
+  if (!bandwidthService.setSlowLimits({ downloadLimit: req.body.downloadLimit, uploadLimit: req.body.uploadLimit })) {
+    res.status(500).json({ error: 'Failed to save limits' })
+    return
+  }
+
+  res.json(bandwidthService.getStatus())
+})
+
+/**
+ * Switch to turbo (unlimited) or slow regardless of the schedule
+ * PUT /api/bandwidth/override { mode: 'turbo' | 'slow', minutes?: number }
+ */
+router.put('/override', (req: Request, res: Response) => {
+  const { mode, minutes } = req.body as { mode?: BandwidthOverrideMode, minutes?: number | null }
+
+  if (!mode || !OVERRIDE_MODES.includes(mode)) {
+    res.status(400).json({ error: `Mode must be one of: ${OVERRIDE_MODES.join(', ')}` })
+    return
+  }
+  if (minutes !== undefined && minutes !== null && (
+    !Number.isInteger(minutes) || minutes < 1 || minutes > MAX_OVERRIDE_MINUTES
+  )) {
+    res.status(400).json({ error: `Minutes must be between 1 and ${MAX_OVERRIDE_MINUTES}` })
+    return
+  }
+
+  if (!bandwidthService.setOverride(mode, minutes ?? null)) {
+    res.status(500).json({ error: 'Failed to save override' })
+    return
+  }
+
+  res.json(bandwidthService.getStatus())
+})
+
+/**
+ * Go back to the schedule
+ * DELETE /api/bandwidth/override
+ */
+router.delete('/override', (req: Request, res: Response) => {
+  if (!bandwidthService.setOverride(null)) {
+    res.status(500).json({ error: 'Failed to clear override' })
+    return
+  }
+
+  res.json(bandwidthService.getStatus())
+})
+
+export default router
@@ -2,19 +2,50 @@ import { Router, Request, Response } from 'express'
 import axios from 'axios'
 import { jellyfinService } from '../services/jellyfinService.js'
 import { config } from '../config.js'
+import { requireStreamToken } from '../middleware/streamToken.js'
+import { STREAM_TOKEN_PARAM } from '../utils/streamTokens.js'
 
 const router = Router()
 
+// Streaming parameters passed through to Jellyfin, lowercased
+// The stream token is passed too, so Jellyfin echoes it into the playlist URLs it generates
+// Anything else is dropped, notably api_key/ApiKey, which would pick the Jellyfin identity
+const JELLYFIN_PARAMS = new Set([
+  'mediasourceid', 'playsessionid', 'deviceid', 'tag',
+  'audiostreamindex', 'subtitlestreamindex', 'subtitlemethod',
+  'videobitrate', 'audiobitrate', 'maxframerate', 'transcodingmaxaudiochannels',
+  'segmentcontainer', 'minsegments', 'breakonnonkeyframes',
+  'videocodec', 'audiocodec', 'requireavc', 'enableaudiovbrencoding', 'transcodereasons',
+  'starttimeticks', 'runtimeticks', 'actualsegmentlengthticks',
+  STREAM_TOKEN_PARAM
+])
+
+// Per-codec settings such as h264-profile or hevc-rangetype
+const CODEC_PARAM_PATTERN = /^(h264|hevc|av1|vp9)-(profile|rangetype|level|deinterlace|videobitdepth)$/
+
+const getJellyfinParams = (query: Request['query']): URLSearchParams => {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(query)) {
+    const name = key.toLowerCase()
+    if (typeof value !== 'string' || !value) continue
+    if (JELLYFIN_PARAMS.has(name) || CODEC_PARAM_PATTERN.test(name)) {
+      params.set(key, value)
+    }
+  }
+  return params
+}
+
 // ============================================================================
 // HLS PROXY ENDPOINTS (to bypass Private Network Access restrictions)
-// These routes are PUBLIC (no auth) because HLS.js cannot send auth headers
-// Security: The Jellyfin API key is kept server-side, never exposed to client
+// These routes skip the auth middleware because HLS.js cannot send auth headers
+// Security: The Jellyfin API key is kept server-side, never exposed to client.
+// Every request must carry a signed, expiring stream token for its item, which
+// Jellyfin echoes into the playlist URLs it generates so segments carry it too
 // ============================================================================
 
 // Proxy HLS master playlist (.m3u8)
-router.get('/hls/:itemId/master.m3u8', async (req: Request, res: Response) => {
+router.get('/hls/:itemId/master.m3u8', requireStreamToken, async (req: Request, res: Response) => {
   const { itemId } = req.params
-  const queryParams = req.query
 
   if (!jellyfinService.isEnabled()) {
     res.status(503).json({ error: 'Jellyfin not enabled' })
@@ -23,10 +54,7 @@ router.get('/hls/:itemId/master.m3u8', async (req: Request, res: Response) => {
 
   try {
     // Build the Jellyfin URL using internal URL
-    const params = new URLSearchParams()
-    for (const [key, value] of Object.entries(queryParams)) {
-      if (value) params.set(key, String(value))
-    }
+    const params = getJellyfinParams(req.query)
 
     const jellyfinUrl = `${config.jellyfin.url}/Videos/${itemId}/master.m3u8?${params.toString()}`
     console.log(`HLS proxy: Fetching master manifest from ${jellyfinUrl.substring(0, 80)}...`)
@@ -69,9 +97,8 @@ router.get('/hls/:itemId/master.m3u8', async (req: Request, res: Response) => {
 })
 
 // Proxy HLS variant playlist (e.g., hls1/main/0.m3u8)
-router.get('/hls/:itemId/:hlsPath(*).m3u8', async (req: Request, res: Response) => {
+router.get('/hls/:itemId/:hlsPath(*).m3u8', requireStreamToken, async (req: Request, res: Response) => {
   const { itemId, hlsPath } = req.params
-  const queryParams = req.query
 
   if (!jellyfinService.isEnabled()) {
     res.status(503).json({ error: 'Jellyfin not enabled' })
@@ -79,10 +106,7 @@ router.get('/hls/:itemId/:hlsPath(*).m3u8', async (req: Request, res: Response)
   }
 
   try {
-    const params = new URLSearchParams()
-    for (const [key, value] of Object.entries(queryParams)) {
-      if (value) params.set(key, String(value))
-    }
+    const params = getJellyfinParams(req.query)
 
     const jellyfinUrl = `${config.jellyfin.url}/Videos/${itemId}/${hlsPath}.m3u8?${params.toString()}`
 
@@ -122,9 +146,8 @@ router.get('/hls/:itemId/:hlsPath(*).m3u8', async (req: Request, res: Response)
 })
 
 // Proxy HLS segments (.ts files)
-router.get('/hls/:itemId/:segmentPath(*).ts', async (req: Request, res: Response) => {
+router.get('/hls/:itemId/:segmentPath(*).ts', requireStreamToken, async (req: Request, res: Response) => {
   const { itemId, segmentPath } = req.params
-  const queryParams = req.query
 
   if (!jellyfinService.isEnabled()) {
     res.status(503).json({ error: 'Jellyfin not enabled' })
@@ -132,10 +155,7 @@ router.get('/hls/:itemId/:segmentPath(*).ts', async (req: Request, res: Response
   }
 
   try {
-    const params = new URLSearchParams()
-    for (const [key, value] of Object.entries(queryParams)) {
-      if (value) params.set(key, String(value))
-    }
+    const params = getJellyfinParams(req.query)
 
     const jellyfinUrl = `${config.jellyfin.url}/Videos/${itemId}/${segmentPath}.ts?${params.toString()}`
 
@@ -156,9 +176,8 @@ router.get('/hls/:itemId/:segmentPath(*).ts', async (req: Request, res: Response
 })
 
 // Proxy HLS segments (.mp4 fMP4 files - used by Jellyfin for better quality)
-router.get('/hls/:itemId/:segmentPath(*).mp4', async (req: Request, res: Response) => {
+router.get('/hls/:itemId/:segmentPath(*).mp4', requireStreamToken, async (req: Request, res: Response) => {
   const { itemId, segmentPath } = req.params
-  const queryParams = req.query
 
   if (!jellyfinService.isEnabled()) {
     res.status(503).json({ error: 'Jellyfin not enabled' })
@@ -166,10 +185,7 @@ router.get('/hls/:itemId/:segmentPath(*).mp4', async (req: Request, res: Respons
   }
 
   try {
-    const params = new URLSearchParams()
-    for (const [key, value] of Object.entries(queryParams)) {
-      if (value) params.set(key, String(value))
-    }
+    const params = getJellyfinParams(req.query)
 
     const jellyfinUrl = `${config.jellyfin.url}/Videos/${itemId}/${segmentPath}.mp4?${params.toString()}`
 
@@ -190,7 +206,7 @@ router.get('/hls/:itemId/:segmentPath(*).mp4', async (req: Request, res: Respons
 })
 
 // Proxy subtitle files from Jellyfin
-router.get('/subtitles/:itemId/:mediaSourceId/:streamIndex/Stream.:format', async (req: Request, res: Response) => {
+router.get('/subtitles/:itemId/:mediaSourceId/:streamIndex/Stream.:format', requireStreamToken, async (req: Request, res: Response) => {
   const { itemId, mediaSourceId, streamIndex, format } = req.params
 
   if (!jellyfinService.isEnabled()) {
@@ -2,34 +2,40 @@ import { Router, Request, Response } from 'express'
 import { radarrService } from '../services/radarrService.js'
 import { sonarrService } from '../services/sonarrService.js'
 import { downloadManager } from '../services/downloadManager.js'
+import { requireRole } from '../middleware/auth.js'
+import { libraryIndexService } from '../services/libraryIndexService.js'
+import { storageService } from '../services/storageService.js'
+import { publishLibraryChange } from '../websocket/progressSocket.js'
 
 const router = Router()
 
-// Test connections to all services
+// Test connections to all services, and report free space where media is stored
 router.get('/status', async (req: Request, res: Response) => {
-  const [radarr, sonarr, qbittorrent] = await Promise.all([
+  const [radarr, sonarr, qbittorrent, storage] = await Promise.all([
     radarrService.isEnabled() ? radarrService.testConnection() : Promise.resolve(false),
     sonarrService.isEnabled() ? sonarrService.testConnection() : Promise.resolve(false),
-    downloadManager.testQBittorrentConnection()
+    downloadManager.testQBittorrentConnection(),
+    storageService.getStatus()
   ])
 
   res.json({
     radarr: { enabled: radarrService.isEnabled(), connected: radarr },
     sonarr: { enabled: sonarrService.isEnabled(), connected: sonarr },
-    qbittorrent: { connected: qbittorrent }
+    qbittorrent: { connected: qbittorrent },
+    storage
   })
 })
 
 // ============ RADARR ROUTES ============
 
-// Get all movies in library
+// Get all movies in library, with TMDB artwork and genres
 router.get('/movies', async (req: Request, res: Response) => {
   if (!radarrService.isEnabled()) {
     res.status(503).json({ error: 'Radarr is not configured' })
     return
   }
 
-  const movies = await radarrService.getMovies()
+  const movies = await libraryIndexService.withMovieMetadata(await radarrService.getMovies())
   res.json({ movies })
 })
 
@@ -50,8 +56,8 @@ router.get('/movies/check/:tmdbId', async (req: Request, res: Response) => {
   })
 })
 
-// Add movie to library
-router.post('/movies', async (req: Request, res: Response) => {
+// Add movie to library (a request, so viewers may do this too)
+router.post('/movies', requireRole('admin', 'viewer'), async (req: Request, res: Response) => {
   if (!radarrService.isEnabled()) {
     res.status(503).json({ error: 'Radarr is not configured' })
     return
@@ -72,6 +78,8 @@ router.post('/movies', async (req: Request, res: Response) => {
   })
 
   if (movie) {
+    libraryIndexService.indexMovie(movie.tmdbId)
+    publishLibraryChange({ type: 'added', mediaType: 'movie', tmdbId: movie.tmdbId })
     res.json({ success: true, movie })
   } else {
     res.status(500).json({ error: 'Failed to add movie to library' })
@@ -79,7 +87,7 @@ router.post('/movies', async (req: Request, res: Response) => {
 })
 
 // Delete movie from library
-router.delete('/movies/:id', async (req: Request, res: Response) => {
+router.delete('/movies/:id', requireRole('admin'), async (req: Request, res: Response) => {
   if (!radarrService.isEnabled()) {
     res.status(503).json({ error: 'Radarr is not configured' })
     return
@@ -88,7 +96,11 @@ router.delete('/movies/:id', async (req: Request, res: Response) => {
   const id = parseInt(req.params.id, 10)
   const deleteFiles = req.query.deleteFiles === 'true'
 
+  const movie = await radarrService.getMovie(id)
   const success = await radarrService.deleteMovie(id, deleteFiles)
+  if (success) {
+    publishLibraryChange({ type: 'removed', mediaType: 'movie', tmdbId: movie?.tmdbId ?? null })
+  }
   res.json({ success })
 })
 
@@ -102,7 +114,7 @@ router.get('/movies/calendar', async (req: Request, res: Response) => {
   const startDate = req.query.start ? new Date(req.query.start as string) : undefined
   const endDate = req.query.end ? new Date(req.query.end as string) : undefined
 
-  const movies = await radarrService.getCalendar(startDate, endDate)
+  const movies = await libraryIndexService.withMovieMetadata(await radarrService.getCalendar(startDate, endDate))
   res.json({ movies })
 })
 
@@ -130,14 +142,14 @@ router.get('/movies/profiles', async (req: Request, res: Response) => {
 
 // ============ SONARR ROUTES ============
 
-// Get all series in library
+// Get all series in library, with TMDB ids, artwork and genres
 router.get('/series', async (req: Request, res: Response) => {
   if (!sonarrService.isEnabled()) {
     res.status(503).json({ error: 'Sonarr is not configured' })
     return
   }
 
-  const series = await sonarrService.getSeries()
+  const series = await libraryIndexService.withSeriesMetadata(await sonarrService.getSeries())
   res.json({ series })
 })
 
@@ -171,8 +183,8 @@ router.get('/series/lookup/tmdb/:tmdbId', async (req: Request, res: Response) =>
   res.json({ series })
 })
 
-// Add series to library
-router.post('/series', async (req: Request, res: Response) => {
+// Add series to library (a request, so viewers may do this too)
+router.post('/series', requireRole('admin', 'viewer'), async (req: Request, res: Response) => {
   if (!sonarrService.isEnabled()) {
     res.status(503).json({ error: 'Sonarr is not configured' })
     return
@@ -192,6 +204,8 @@ router.post('/series', async (req: Request, res: Response) => {
   })
 
   if (series) {
+    libraryIndexService.indexSeries(series)
+    publishLibraryChange({ type: 'added', mediaType: 'tv', tmdbId: series.tmdbId ?? null })
     res.json({ success: true, series })
   } else {
     res.status(500).json({ error: 'Failed to add series to library' })
@@ -199,7 +213,7 @@ router.post('/series', async (req: Request, res: Response) => {
 })
 
 // Delete series from library
-router.delete('/series/:id', async (req: Request, res: Response) => {
+router.delete('/series/:id', requireRole('admin'), async (req: Request, res: Response) => {
   if (!sonarrService.isEnabled()) {
     res.status(503).json({ error: 'Sonarr is not configured' })
     return
@@ -208,7 +222,11 @@ router.delete('/series/:id', async (req: Request, res: Response) => {
   const id = parseInt(req.params.id, 10)
   const deleteFiles = req.query.deleteFiles === 'true'
 
+  const series = await sonarrService.getSeriesById(id)
   const success = await sonarrService.deleteSeries(id, deleteFiles)
+  if (success) {
+    publishLibraryChange({ type: 'removed', mediaType: 'tv', tmdbId: series?.tmdbId ?? null })
+  }
   res.json({ success })
 })
 
@@ -223,7 +241,7 @@ router.get('/series/calendar', async (req: Request, res: Response) => {
   const episodes = await sonarrService.getUpcoming(days)
 
   // Get all series to include series info with episodes
-  const allSeries = await sonarrService.getSeries()
+  const allSeries = await libraryIndexService.withSeriesMetadata(await sonarrService.getSeries())
   const seriesMap = new Map(allSeries.map(s => [s.id, s]))
 
   // Enrich episodes with series info
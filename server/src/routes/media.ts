@@ -1,9 +1,20 @@
 import { Router, Request, Response } from 'express'
 import { mediaService } from '../services/mediaService.js'
 import { jellyfinService } from '../services/jellyfinService.js'
+import { jellyfinIndexService } from '../services/jellyfinIndexService.js'
+import { getRatingLimit, requireRole, type AuthenticatedRequest } from '../middleware/auth.js'
+import { requireStreamToken, getStreamToken } from '../middleware/streamToken.js'
+import { isRatingAllowed } from '../utils/contentRating.js'
+import { verifyStreamToken, type StreamTokenPayload } from '../utils/streamTokens.js'
 
 const router = Router()
 
+// Kid accounts may only play titles rated within their limit
+const isWithinRatingLimit = (req: AuthenticatedRequest, certification: string | null): boolean => {
+  const limit = getRatingLimit(req)
+  return !limit || isRatingAllowed(certification, limit)
+}
+
 // ============================================================================
 // PLAYBACK INFO ENDPOINTS (via Jellyfin)
 // ============================================================================
@@ -28,91 +39,149 @@ router.get('/status', async (req: Request, res: Response) => {
 // ============================================================================
 
 // Get Jellyfin stream URL with specific audio track
-router.get('/jellyfin/audio/:itemId/:audioIndex', async (req: Request, res: Response) => {
+// Needs the stream token of the URL being played; the new URL is signed for the same item and play session
+router.get('/jellyfin/audio/:itemId/:audioIndex', requireStreamToken, async (req: AuthenticatedRequest, res: Response) => {
   const { itemId, audioIndex } = req.params
-  const { mediaSourceId, playSessionId } = req.query
+  const { mediaSourceId } = req.query
+  const { playSessionId } = getStreamToken(res)
 
   if (!jellyfinService.isEnabled()) {
     res.status(503).json({ error: 'Jellyfin not enabled' })
     return
   }
 
-  if (!mediaSourceId || !playSessionId) {
-    res.status(400).json({ error: 'mediaSourceId and playSessionId required' })
+  if (!mediaSourceId) {
+    res.status(400).json({ error: 'mediaSourceId required' })
+    return
+  }
+
+  // The token was issued after a rating check, but a kid may have been handed someone else's
+  if (getRatingLimit(req) && !isWithinRatingLimit(req, await jellyfinService.getOfficialRating(itemId))) {
+    res.status(403).json({ error: 'This title is above your content rating limit' })
     return
   }
 
   const hlsUrl = jellyfinService.getHlsUrlWithAudioTrack(
     itemId,
     mediaSourceId as string,
-    playSessionId as string,
+    playSessionId,
     parseInt(audioIndex, 10)
   )
 
   res.json({ hlsUrl })
 })
 
+// Playback reports must carry the stream token of the item being played, which was only
+// issued after the rating check, so they can't be sent for any other item
+const getReportedItem = (req: Request, res: Response): StreamTokenPayload | null => {
+  if (!jellyfinService.isEnabled()) {
+    res.status(503).json({ error: 'Jellyfin not enabled' })
+    return null
+  }
+
+  const { itemId, st } = req.body
+  if (!itemId || typeof itemId !== 'string') {
+    res.status(400).json({ error: 'itemId required' })
+    return null
+  }
+
+  const token = verifyStreamToken(st, itemId)
+  if (!token) {
+    res.status(403).json({ error: 'Invalid or expired stream token' })
+    return null
+  }
+
+  return token
+}
+
+const isValidPosition = (positionMs: unknown): positionMs is number => {
+  return typeof positionMs === 'number' && Number.isFinite(positionMs) && positionMs >= 0
+}
+
 // Report playback started to Jellyfin (must be called before progress updates)
 router.post('/jellyfin/started', async (req: Request, res: Response) => {
-  const { itemId, mediaSourceId, playSessionId } = req.body
+  const token = getReportedItem(req, res)
+  if (!token) return
 
-  if (!jellyfinService.isEnabled()) {
-    res.status(503).json({ error: 'Jellyfin not enabled' })
+  const { mediaSourceId } = req.body
+  if (!mediaSourceId || typeof mediaSourceId !== 'string') {
+    res.status(400).json({ error: 'mediaSourceId required' })
     return
   }
 
-  await jellyfinService.reportStarted(itemId, mediaSourceId, playSessionId)
+  await jellyfinService.reportStarted(token.itemId, mediaSourceId, token.playSessionId)
   res.json({ success: true })
 })
 
 // Report playback progress to Jellyfin
 router.post('/jellyfin/progress', async (req: Request, res: Response) => {
-  const { itemId, positionMs, isPaused } = req.body
+  const token = getReportedItem(req, res)
+  if (!token) return
 
-  if (!jellyfinService.isEnabled()) {
-    res.status(503).json({ error: 'Jellyfin not enabled' })
+  const { positionMs, isPaused } = req.body
+  if (!isValidPosition(positionMs)) {
+    res.status(400).json({ error: 'positionMs must be a non-negative number' })
     return
   }
 
   // Convert ms to ticks (1 tick = 10,000 nanoseconds = 0.01 ms)
-  const positionTicks = positionMs * 10000
+  const positionTicks = Math.round(positionMs * 10000)
 
-  await jellyfinService.reportProgress(itemId, positionTicks, isPaused || false)
+  await jellyfinService.reportProgress(token.itemId, positionTicks, isPaused === true)
   res.json({ success: true })
 })
 
 // Report playback stopped to Jellyfin
 router.post('/jellyfin/stopped', async (req: Request, res: Response) => {
-  const { itemId, positionMs } = req.body
+  const token = getReportedItem(req, res)
+  if (!token) return
 
-  if (!jellyfinService.isEnabled()) {
-    res.status(503).json({ error: 'Jellyfin not enabled' })
+  const { positionMs } = req.body
+  if (!isValidPosition(positionMs)) {
+    res.status(400).json({ error: 'positionMs must be a non-negative number' })
     return
   }
 
-  const positionTicks = positionMs * 10000
+  const positionTicks = Math.round(positionMs * 10000)
 
-  await jellyfinService.reportStopped(itemId, positionTicks)
+  await jellyfinService.reportStopped(token.itemId, positionTicks)
   res.json({ success: true })
 })
 
 // Trigger Jellyfin library refresh
-router.post('/jellyfin/refresh', async (req: Request, res: Response) => {
+router.post('/jellyfin/refresh', requireRole('admin'), async (req: Request, res: Response) => {
   if (!jellyfinService.isEnabled()) {
     res.status(503).json({ error: 'Jellyfin not enabled' })
     return
   }
 
   await jellyfinService.refreshLibrary()
+  jellyfinIndexService.refreshAfterScan()
   res.json({ success: true })
 })
 
+// List Jellyfin users, for linking profiles to them
+router.get('/jellyfin/users', requireRole('admin'), async (req: Request, res: Response) => {
+  if (!jellyfinService.isEnabled()) {
+    res.status(503).json({ error: 'Jellyfin not enabled' })
+    return
+  }
+
+  const users = await jellyfinService.getUsers()
+  if (!users) {
+    res.status(502).json({ error: 'Could not reach Jellyfin' })
+    return
+  }
+
+  res.json({ users })
+})
+
 // ============================================================================
 // PLAYBACK INFO ENDPOINTS (Radarr/Sonarr lookup + Jellyfin streaming)
 // ============================================================================
 
 // Get playback info for a movie by TMDB ID
-router.get('/movie/:tmdbId', async (req: Request, res: Response) => {
+router.get('/movie/:tmdbId', async (req: AuthenticatedRequest, res: Response) => {
   const tmdbId = parseInt(req.params.tmdbId, 10)
   console.log(`Media API: Getting movie playback for TMDB ID ${tmdbId}`)
 
@@ -124,6 +193,11 @@ router.get('/movie/:tmdbId', async (req: Request, res: Response) => {
       return
     }
 
+    if (!isWithinRatingLimit(req, playbackInfo.certification)) {
+      res.status(403).json({ error: 'This title is above your content rating limit' })
+      return
+    }
+
     console.log(`Media API: Movie ${tmdbId} found, stream URL: ${playbackInfo.streamUrl.substring(0, 80)}...`)
     res.json(playbackInfo)
   } catch (error: any) {
@@ -133,7 +207,7 @@ router.get('/movie/:tmdbId', async (req: Request, res: Response) => {
 })
 
 // Get playback info for an episode by TMDB show ID, season, and episode
-router.get('/episode/:showTmdbId/:season/:episode', async (req: Request, res: Response) => {
+router.get('/episode/:showTmdbId/:season/:episode', async (req: AuthenticatedRequest, res: Response) => {
   const showTmdbId = parseInt(req.params.showTmdbId, 10)
   const season = parseInt(req.params.season, 10)
   const episode = parseInt(req.params.episode, 10)
@@ -145,6 +219,11 @@ router.get('/episode/:showTmdbId/:season/:episode', async (req: Request, res: Re
       return
     }
 
+    if (!isWithinRatingLimit(req, playbackInfo.certification)) {
+      res.status(403).json({ error: 'This title is above your content rating limit' })
+      return
+    }
+
     res.json(playbackInfo)
   } catch (error: any) {
     console.error('Error getting episode playback:', error.message)
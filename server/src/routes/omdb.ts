@@ -0,0 +1,36 @@
+import { Router, Request, Response } from 'express'
+import { omdbService } from '../services/omdbService.js'
+
+const router = Router()
+
+const IMDB_ID_PATTERN = /^tt\d+$/
+
+/**
+ * Get OMDb's entry for an IMDb id, with the API key added and the response cached
+ * GET /api/omdb/tt0137523
+ */
+router.get('/:imdbId', async (req: Request, res: Response) => {
+  if (!omdbService.isEnabled()) {
+    res.status(503).json({ error: 'OMDb is not configured' })
+    return
+  }
+
+  if (!IMDB_ID_PATTERN.test(req.params.imdbId)) {
+    res.status(400).json({ error: 'Invalid IMDb id' })
+    return
+  }
+
+  try {
+    const { status, data } = await omdbService.getTitle(req.params.imdbId)
+    // Passed on as is, a 401 would look like our own session expiring
+    if (status === 401) {
+      res.status(502).json({ error: 'OMDb rejected the API key or its daily limit was reached' })
+      return
+    }
+    res.status(status).json(data)
+  } catch {
+    res.status(502).json({ error: 'OMDb could not be reached' })
+  }
+})
+
+export default router
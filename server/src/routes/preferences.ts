@@ -0,0 +1,118 @@
+import { Router, Response } from 'express'
+import { preferencesService, type PreferencesUpdate } from '../services/preferencesService.js'
+import { getProfileId, type AuthenticatedRequest } from '../middleware/auth.js'
+
+const router = Router()
+
+const FONT_SIZES = ['small', 'medium', 'large', 'xlarge']
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i
+const LOCALE_PATTERN = /^[a-z]{2}(-[A-Z]{2})?$/
+const LANGUAGE_CODE_PATTERN = /^[a-z]{2,3}(-[a-z]{2,4})?$/i
+const MIN_PLAYBACK_SPEED = 0.25
+const MAX_PLAYBACK_SPEED = 4
+const MIN_COMPLETION_THRESHOLD = 50
+const MAX_COMPLETION_THRESHOLD = 100
+const MAX_ABANDON_AFTER_DAYS = 365
+
+const isValidSubtitleStyle = (value: any): boolean => {
+  return typeof value === 'object' && value !== null &&
+    FONT_SIZES.includes(value.fontSize) &&
+    COLOR_PATTERN.test(value.fontColor) &&
+    COLOR_PATTERN.test(value.backgroundColor) &&
+    typeof value.backgroundOpacity === 'number' && value.backgroundOpacity >= 0 && value.backgroundOpacity <= 1
+}
+
+const isNullOr = (value: unknown, pattern: RegExp): boolean => {
+  return value === null || (typeof value === 'string' && pattern.test(value))
+}
+
+/**
+ * Validate a preferences update, returning an error message for the first invalid field
+ */
+const validateUpdate = (body: any): string | null => {
+  if (body.subtitleStyle !== undefined && body.subtitleStyle !== null && !isValidSubtitleStyle(body.subtitleStyle)) {
+    return 'Invalid subtitle style'
+  }
+  if (body.locale !== undefined && !isNullOr(body.locale, LOCALE_PATTERN)) {
+    return 'Invalid locale'
+  }
+  if (body.defaultAudioLanguage !== undefined && !isNullOr(body.defaultAudioLanguage, LANGUAGE_CODE_PATTERN)) {
+    return 'Invalid audio language'
+  }
+  if (body.defaultSubtitleLanguage !== undefined && !isNullOr(body.defaultSubtitleLanguage, LANGUAGE_CODE_PATTERN)) {
+    return 'Invalid subtitle language'
+  }
+  if (body.playbackSpeed !== undefined && (
+    typeof body.playbackSpeed !== 'number' ||
+    body.playbackSpeed < MIN_PLAYBACK_SPEED ||
+    body.playbackSpeed > MAX_PLAYBACK_SPEED
+  )) {
+    return `Playback speed must be between ${MIN_PLAYBACK_SPEED} and ${MAX_PLAYBACK_SPEED}`
+  }
+  if (body.completionThreshold !== undefined && (
+    !Number.isInteger(body.completionThreshold) ||
+    body.completionThreshold < MIN_COMPLETION_THRESHOLD ||
+    body.completionThreshold > MAX_COMPLETION_THRESHOLD
+  )) {
+    return `Completion threshold must be between ${MIN_COMPLETION_THRESHOLD} and ${MAX_COMPLETION_THRESHOLD}`
+  }
+  if (body.abandonAfterDays !== undefined && body.abandonAfterDays !== null && (
+    !Number.isInteger(body.abandonAfterDays) ||
+    body.abandonAfterDays < 1 ||
+    body.abandonAfterDays > MAX_ABANDON_AFTER_DAYS
+  )) {
+    return `Abandon after days must be between 1 and ${MAX_ABANDON_AFTER_DAYS}, or null`
+  }
+  return null
+}
+
+/**
+ * Get the current profile's preferences
+ * GET /api/preferences
+ */
+router.get('/', (req: AuthenticatedRequest, res: Response) => {
+  res.json({ preferences: preferencesService.getPreferences(getProfileId(req)) })
+})
+
+/**
+ * Update some of the current profile's preferences; omitted fields are kept
+ * PUT /api/preferences
+ */
+router.put('/', (req: AuthenticatedRequest, res: Response) => {
+  const error = validateUpdate(req.body)
+  if (error) {
+    res.status(400).json({ error })
+    return
+  }
+
+  const {
+    subtitleStyle,
+    locale,
+    defaultAudioLanguage,
+    defaultSubtitleLanguage,
+    playbackSpeed,
+    completionThreshold,
+    abandonAfterDays
+  } = req.body
+  const update: PreferencesUpdate = {}
+  if (subtitleStyle !== undefined) {
+    const { fontSize, fontColor, backgroundColor, backgroundOpacity } = subtitleStyle ?? {}
+    update.subtitleStyle = subtitleStyle && { fontSize, fontColor, backgroundColor, backgroundOpacity }
+  }
+  if (locale !== undefined) update.locale = locale
+  if (defaultAudioLanguage !== undefined) update.defaultAudioLanguage = defaultAudioLanguage
+  if (defaultSubtitleLanguage !== undefined) update.defaultSubtitleLanguage = defaultSubtitleLanguage
+  if (playbackSpeed !== undefined) update.playbackSpeed = playbackSpeed
+  if (completionThreshold !== undefined) update.completionThreshold = completionThreshold
+  if (abandonAfterDays !== undefined) update.abandonAfterDays = abandonAfterDays
+
+  const preferences = preferencesService.updatePreferences(getProfileId(req), update)
+
+  if (preferences) {
+    res.json({ preferences })
+  } else {
+    res.status(500).json({ error: 'Failed to save preferences' })
+  }
+})
+
+export default router
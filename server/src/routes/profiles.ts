@@ -0,0 +1,163 @@
+import { Router, Response } from 'express'
+import { profileService, PIN_PATTERN, type Profile } from '../services/profileService.js'
+import { userService } from '../services/userService.js'
+import { sessionService } from '../services/sessionService.js'
+import { loginLockoutService } from '../services/loginLockoutService.js'
+import { getUserId, type AuthenticatedRequest } from '../middleware/auth.js'
+import { createSessionToken } from '../utils/tokens.js'
+import { config } from '../config.js'
+
+const router = Router()
+
+const getUsername = (req: AuthenticatedRequest): string => {
+  return req.user?.username || config.auth.adminUsername
+}
+
+// Find a profile that belongs to the current account
+const findOwnProfile = (req: AuthenticatedRequest, res: Response): Profile | null => {
+  const profile = profileService.getProfile(req.params.id)
+
+  if (!profile || profile.userId !== getUserId(req)) {
+    res.status(404).json({ error: 'Profile not found' })
+    return null
+  }
+
+  return profile
+}
+
+// PIN-protected profiles can only be changed from a session opened with their PIN
+const canManageProfile = (req: AuthenticatedRequest, profile: Profile): boolean => {
+  return !profile.hasPin || req.user?.profileId === profile.id
+}
+
+const isValidPin = (pin: unknown): boolean => {
+  return pin === undefined || pin === null || (typeof pin === 'string' && PIN_PATTERN.test(pin))
+}
+
+// List the account's profiles
+router.get('/', (req: AuthenticatedRequest, res: Response) => {
+  const profiles = profileService.listProfiles(getUserId(req), getUsername(req))
+  res.json({ profiles })
+})
+
+// Create a profile
+router.post('/', async (req: AuthenticatedRequest, res: Response) => {
+  const { name, avatarColor, pin } = req.body
+
+  if (!name || typeof name !== 'string' || !name.trim()) {
+    res.status(400).json({ error: 'Profile name is required' })
+    return
+  }
+
+  if (!isValidPin(pin)) {
+    res.status(400).json({ error: 'PIN must be 4 digits' })
+    return
+  }
+
+  const existing = profileService.listProfiles(getUserId(req), getUsername(req))
+  if (existing.some(p => p.name.toLowerCase() === name.trim().toLowerCase())) {
+    res.status(409).json({ error: 'A profile with this name already exists' })
+    return
+  }
+
+  const profile = await profileService.createProfile(getUserId(req), { name, avatarColor, pin })
+
+  if (profile) {
+    res.json({ profile })
+  } else {
+    res.status(500).json({ error: 'Failed to create profile' })
+  }
+})
+
+// Update a profile (name, color, PIN)
+router.put('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  const profile = findOwnProfile(req, res)
+  if (!profile) return
+
+  if (!canManageProfile(req, profile)) {
+    res.status(403).json({ error: 'Switch to this profile to change it' })
+    return
+  }
+
+  const { name, avatarColor, pin } = req.body
+
+  if (!isValidPin(pin)) {
+    res.status(400).json({ error: 'PIN must be 4 digits' })
+    return
+  }
+
+  const updated = await profileService.updateProfile(profile.id, { name, avatarColor, pin })
+
+  if (updated) {
+    res.json({ profile: updated })
+  } else {
+    res.status(500).json({ error: 'Failed to update profile' })
+  }
+})
+
+// Delete a profile and its watch data
+router.delete('/:id', (req: AuthenticatedRequest, res: Response) => {
+  const profile = findOwnProfile(req, res)
+  if (!profile) return
+
+  if (!canManageProfile(req, profile)) {
+    res.status(403).json({ error: 'Switch to this profile to delete it' })
+    return
+  }
+
+  if (profileService.listProfiles(getUserId(req), getUsername(req)).length <= 1) {
+    res.status(400).json({ error: 'An account needs at least one profile' })
+    return
+  }
+
+  const success = profileService.deleteProfile(profile.id)
+  res.json({ success })
+})
+
+// Select a profile, returning a token scoped to it
+// Wrong PINs lock the profile, with longer lockouts each time, so 4 digits can't be guessed
+router.post('/:id/select', async (req: AuthenticatedRequest, res: Response) => {
+  const profile = findOwnProfile(req, res)
+  if (!profile) return
+
+  if (!isValidPin(req.body.pin)) {
+    res.status(400).json({ error: 'PIN must be 4 digits' })
+    return
+  }
+
+  if (profile.hasPin) {
+    const lockout = loginLockoutService.getProfileLockout(profile.id)
+    if (lockout) {
+      const minutes = Math.ceil(lockout.retryAfter / 60)
+      res.set('Retry-After', String(lockout.retryAfter))
+      res.status(429).json({
+        error: `Too many incorrect PINs, please try again in ${minutes} minute${minutes === 1 ? '' : 's'}`,
+        retryAfter: lockout.retryAfter
+      })
+      return
+    }
+  }
+
+  const isValid = await profileService.verifyPin(profile.id, req.body.pin)
+  if (!isValid) {
+    loginLockoutService.recordProfileFailure(profile.id)
+    res.status(403).json({ error: 'Incorrect PIN' })
+    return
+  }
+
+  if (profile.hasPin) {
+    loginLockoutService.recordProfileSuccess(profile.id)
+  }
+
+  const user = userService.getUserById(getUserId(req))
+  const tokenUser = user || { id: getUserId(req), username: getUsername(req), role: 'admin' as const }
+
+  const sessionId = req.user?.sessionId
+  if (sessionId) {
+    sessionService.setProfile(sessionId, profile.id)
+  }
+
+  res.json(createSessionToken(tokenUser, { sessionId, profile }))
+})
+
+export default router
@@ -1,27 +1,25 @@
-import { Router, Request, Response } from 'express'
+import express, { Router, Response } from 'express'
 import { progressService } from '../services/progressService.js'
+import { getProfileId, requireRole, type AuthenticatedRequest } from '../middleware/auth.js'
+import { jellyfinSyncService } from '../services/jellyfinSyncService.js'
+import { jellyfinService } from '../services/jellyfinService.js'
+import { profileService } from '../services/profileService.js'
+import { describeDevice } from '../utils/device.js'
+import { historyTransferService, HISTORY_FORMATS, type HistoryFormat } from '../services/historyTransferService.js'
+import { episodeTrackingService, type EpisodeSelection } from '../services/episodeTrackingService.js'
+import { tmdbService } from '../services/tmdbService.js'
+import type { EpisodeNumber } from '../services/progressService.js'
 
 const router = Router()
 
-// Extended request type with user from auth middleware
-// Note: This is a single-user system, so we use a default userId
-// The auth middleware verifies the token is valid, but doesn't provide a userId
-interface AuthRequest extends Request {
-  user?: { authenticated: boolean }
-}
-
-// Default user ID for single-user system
-const DEFAULT_USER_ID = 'default'
-
 /**
  * Save/update watch progress
  * POST /api/progress
  */
-router.post('/', async (req: AuthRequest, res: Response) => {
-  // Auth middleware already verified the token, use default user
-  const userId = DEFAULT_USER_ID
+router.post('/', async (req: AuthenticatedRequest, res: Response) => {
+  const userId = getProfileId(req)
 
-  const { mediaType, tmdbId, seasonNumber, episodeNumber, positionMs, durationMs } = req.body
+  const { mediaType, tmdbId, seasonNumber, episodeNumber, positionMs, durationMs, creditsStartMs } = req.body
 
   if (!mediaType || !tmdbId || positionMs === undefined || durationMs === undefined) {
     res.status(400).json({ error: 'Missing required fields' })
@@ -40,7 +38,9 @@ router.post('/', async (req: AuthRequest, res: Response) => {
     seasonNumber,
     episodeNumber,
     positionMs,
-    durationMs
+    durationMs,
+    device: describeDevice(req.headers['user-agent']),
+    creditsStartMs: typeof creditsStartMs === 'number' ? creditsStartMs : undefined
   })
 
   if (progress) {
@@ -54,8 +54,8 @@ router.post('/', async (req: AuthRequest, res: Response) => {
  * Get progress for a movie
  * GET /api/progress/movie/:tmdbId
  */
-router.get('/movie/:tmdbId', async (req: AuthRequest, res: Response) => {
-  const userId = DEFAULT_USER_ID
+router.get('/movie/:tmdbId', async (req: AuthenticatedRequest, res: Response) => {
+  const userId = getProfileId(req)
 
   const tmdbId = parseInt(req.params.tmdbId, 10)
   const progress = progressService.getMovieProgress(userId, tmdbId)
@@ -67,8 +67,8 @@ router.get('/movie/:tmdbId', async (req: AuthRequest, res: Response) => {
  * Get progress for an episode
  * GET /api/progress/episode/:tmdbId/:season/:episode
  */
-router.get('/episode/:tmdbId/:season/:episode', async (req: AuthRequest, res: Response) => {
-  const userId = DEFAULT_USER_ID
+router.get('/episode/:tmdbId/:season/:episode', async (req: AuthenticatedRequest, res: Response) => {
+  const userId = getProfileId(req)
 
   const tmdbId = parseInt(req.params.tmdbId, 10)
   const season = parseInt(req.params.season, 10)
@@ -83,8 +83,8 @@ router.get('/episode/:tmdbId/:season/:episode', async (req: AuthRequest, res: Re
  * Get all progress for a TV show
  * GET /api/progress/show/:tmdbId
  */
-router.get('/show/:tmdbId', async (req: AuthRequest, res: Response) => {
-  const userId = DEFAULT_USER_ID
+router.get('/show/:tmdbId', async (req: AuthenticatedRequest, res: Response) => {
+  const userId = getProfileId(req)
 
   const tmdbId = parseInt(req.params.tmdbId, 10)
   const progress = progressService.getShowProgress(userId, tmdbId)
@@ -92,12 +92,110 @@ router.get('/show/:tmdbId', async (req: AuthRequest, res: Response) => {
   res.json(progress)
 })
 
+const isEpisodeNumber = (value: unknown): value is EpisodeNumber => {
+  const episode = value as EpisodeNumber
+  return !!episode &&
+    Number.isInteger(episode.seasonNumber) && episode.seasonNumber >= 0 &&
+    Number.isInteger(episode.episodeNumber) && episode.episodeNumber > 0
+}
+
+// Read which episodes a bulk change applies to; the whole show when nothing is named
+const parseEpisodeSelection = (body: any): EpisodeSelection | null => {
+  const { episodes, seasonNumber, through, before } = body ?? {}
+  const given = [episodes, seasonNumber, through, before].filter(value => value !== undefined)
+  if (given.length > 1) return null
+
+  if (episodes !== undefined) {
+    return Array.isArray(episodes) && episodes.length > 0 && episodes.every(isEpisodeNumber)
+      ? { type: 'episodes', episodes: episodes.map(({ seasonNumber, episodeNumber }) => ({ seasonNumber, episodeNumber })) }
+      : null
+  }
+  if (seasonNumber !== undefined) {
+    return Number.isInteger(seasonNumber) && seasonNumber >= 0 ? { type: 'season', seasonNumber } : null
+  }
+  if (through !== undefined) {
+    return isEpisodeNumber(through) ? { type: 'through', episode: through } : null
+  }
+  if (before !== undefined) {
+    return isEpisodeNumber(before) ? { type: 'before', episode: before } : null
+  }
+  return { type: 'show' }
+}
+
+/**
+ * Get the episode of a show to play next: the one left partway through,
+ * or the first aired episode after the furthest one watched (specials skipped)
+ * GET /api/progress/show/:tmdbId/up-next
+ */
+router.get('/show/:tmdbId/up-next', async (req: AuthenticatedRequest, res: Response) => {
+  const userId = getProfileId(req)
+
+  const tmdbId = parseInt(req.params.tmdbId, 10)
+  const upNext = await episodeTrackingService.getUpNext(userId, tmdbId)
+
+  res.json({ upNext })
+})
+
+/**
+ * Mark episodes of a show watched in bulk
+ * Body names one of: episodes [{ seasonNumber, episodeNumber }], seasonNumber,
+ * through { seasonNumber, episodeNumber } (up to and including it) or before (up to it);
+ * an empty body marks the whole show. Only explicit episodes include specials
+ * POST /api/progress/show/:tmdbId/watched
+ */
+router.post('/show/:tmdbId/watched', async (req: AuthenticatedRequest, res: Response) => {
+  const userId = getProfileId(req)
+
+  const tmdbId = parseInt(req.params.tmdbId, 10)
+  const selection = parseEpisodeSelection(req.body)
+  if (!selection) {
+    res.status(400).json({ error: 'Name one of episodes, seasonNumber, through or before' })
+    return
+  }
+
+  if (episodeTrackingService.needsEpisodeList(selection) && !tmdbService.isEnabled()) {
+    res.status(503).json({ error: 'TMDB is not configured' })
+    return
+  }
+
+  const changed = await episodeTrackingService.markWatched(userId, tmdbId, selection)
+  if (changed === null) {
+    res.status(500).json({ error: 'Failed to mark episodes as watched' })
+    return
+  }
+
+  res.json({ success: true, changed })
+})
+
+/**
+ * Mark episodes of a show unwatched in bulk, with the same body as marking them watched
+ * DELETE /api/progress/show/:tmdbId/watched
+ */
+router.delete('/show/:tmdbId/watched', async (req: AuthenticatedRequest, res: Response) => {
+  const userId = getProfileId(req)
+
+  const tmdbId = parseInt(req.params.tmdbId, 10)
+  const selection = parseEpisodeSelection(req.body)
+  if (!selection) {
+    res.status(400).json({ error: 'Name one of episodes, seasonNumber, through or before' })
+    return
+  }
+
+  const changed = episodeTrackingService.unwatch(userId, tmdbId, selection)
+  if (changed === null) {
+    res.status(500).json({ error: 'Failed to remove progress' })
+    return
+  }
+
+  res.json({ success: true, changed })
+})
+
 /**
  * Get continue watching list
  * GET /api/progress/continue-watching
  */
-router.get('/continue-watching', async (req: AuthRequest, res: Response) => {
-  const userId = DEFAULT_USER_ID
+router.get('/continue-watching', async (req: AuthenticatedRequest, res: Response) => {
+  const userId = getProfileId(req)
 
   const limit = parseInt(req.query.limit as string, 10) || 20
   const items = progressService.getContinueWatching(userId, limit)
@@ -105,12 +203,184 @@ router.get('/continue-watching', async (req: AuthRequest, res: Response) => {
   res.json({ items })
 })
 
+/**
+ * Remove an item from Continue Watching; it returns once watched again
+ * DELETE /api/progress/continue-watching/:id
+ */
+router.delete('/continue-watching/:id', async (req: AuthenticatedRequest, res: Response) => {
+  const userId = getProfileId(req)
+
+  const id = parseInt(req.params.id, 10)
+  if (!progressService.hideFromContinueWatching(userId, id)) {
+    res.status(404).json({ error: 'Progress not found' })
+    return
+  }
+
+  res.json({ success: true })
+})
+
+// Accepts anything Date can parse and returns it as a SQLite UTC timestamp
+const parseDateParam = (value: unknown): string | null | undefined => {
+  if (value === undefined || value === '') return undefined
+  const date = new Date(String(value))
+  if (isNaN(date.getTime())) return null
+  return date.toISOString().slice(0, 19).replace('T', ' ')
+}
+
+/**
+ * Get watch history, one entry per play, most recent first
+ * GET /api/progress/history?from=&to=&limit=&offset=
+ */
+router.get('/history', async (req: AuthenticatedRequest, res: Response) => {
+  const userId = getProfileId(req)
+
+  const from = parseDateParam(req.query.from)
+  const to = parseDateParam(req.query.to)
+  if (from === null || to === null) {
+    res.status(400).json({ error: 'Invalid date' })
+    return
+  }
+
+  const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 50, 1), 200)
+  const offset = Math.max(parseInt(req.query.offset as string, 10) || 0, 0)
+
+  res.json(progressService.getHistory(userId, { from, to, limit, offset }))
+})
+
+const parseFormat = (value: unknown): HistoryFormat | null => {
+  return HISTORY_FORMATS.includes(value as HistoryFormat) ? value as HistoryFormat : null
+}
+
+/**
+ * Import watch history from a Trakt JSON export or a Letterboxd CSV
+ * The file is the request body as text; matched titles are marked as watched
+ * With dryRun=true nothing is written and the result previews the import
+ * POST /api/progress/import?format=trakt|letterboxd&dryRun=true
+ */
+router.post('/import', express.text({ type: '*/*', limit: '20mb' }), async (req: AuthenticatedRequest, res: Response) => {
+  const format = parseFormat(req.query.format)
+  if (!format) {
+    res.status(400).json({ error: `Format must be one of: ${HISTORY_FORMATS.join(', ')}` })
+    return
+  }
+
+  // Small files sent as application/json arrive already parsed
+  const data = Array.isArray(req.body) ? JSON.stringify(req.body) : req.body
+  if (typeof data !== 'string' || !data.trim()) {
+    res.status(400).json({ error: 'File is empty' })
+    return
+  }
+
+  const result = await historyTransferService.importHistory(
+    getProfileId(req),
+    format,
+    data,
+    req.query.dryRun === 'true'
+  )
+  if (!result) {
+    res.status(400).json({ error: format === 'trakt' ? 'Not a Trakt JSON export' : 'Not a Letterboxd CSV export' })
+    return
+  }
+
+  res.json(result)
+})
+
+/**
+ * Export finished plays as a Trakt JSON history or a Letterboxd import CSV
+ * With dryRun=true the result previews the export, with plays the format can't hold
+ * GET /api/progress/export?format=trakt|letterboxd&dryRun=true
+ */
+router.get('/export', async (req: AuthenticatedRequest, res: Response) => {
+  const format = parseFormat(req.query.format)
+  if (!format) {
+    res.status(400).json({ error: `Format must be one of: ${HISTORY_FORMATS.join(', ')}` })
+    return
+  }
+
+  if (req.query.dryRun === 'true') {
+    res.json(historyTransferService.previewExport(getProfileId(req), format))
+    return
+  }
+
+  const file = historyTransferService.exportHistory(getProfileId(req), format)
+  res.setHeader('Content-Type', `${file.contentType}; charset=utf-8`)
+  res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`)
+  res.send(file.body)
+})
+
+/**
+ * Get the Jellyfin sync state of the profile, with conflicts from the latest sync
+ * GET /api/progress/jellyfin-sync
+ */
+router.get('/jellyfin-sync', async (req: AuthenticatedRequest, res: Response) => {
+  res.json(jellyfinSyncService.getStatus(getProfileId(req)))
+})
+
+/**
+ * Link the profile to a Jellyfin user, or unlink it with null (admin only)
+ * The link gives the profile that Jellyfin user's watch history
+ * PUT /api/progress/jellyfin-sync/user
+ */
+router.put('/jellyfin-sync/user', requireRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+  const { jellyfinUserId } = req.body
+
+  if (jellyfinUserId !== null) {
+    if (typeof jellyfinUserId !== 'string' || !jellyfinUserId) {
+      res.status(400).json({ error: 'Jellyfin user is required' })
+      return
+    }
+
+    const users = await jellyfinService.getUsers()
+    if (!users) {
+      res.status(502).json({ error: 'Could not reach Jellyfin' })
+      return
+    }
+    if (!users.some(user => user.id === jellyfinUserId)) {
+      res.status(400).json({ error: 'Jellyfin user not found' })
+      return
+    }
+  }
+
+  if (!profileService.setJellyfinUser(getProfileId(req), jellyfinUserId)) {
+    res.status(500).json({ error: 'Failed to link Jellyfin user' })
+    return
+  }
+
+  res.json(jellyfinSyncService.getStatus(getProfileId(req)))
+})
+
+/**
+ * Sync watched state with the linked Jellyfin user now
+ * POST /api/progress/jellyfin-sync
+ */
+router.post('/jellyfin-sync', async (req: AuthenticatedRequest, res: Response) => {
+  const profileId = getProfileId(req)
+  const status = jellyfinSyncService.getStatus(profileId)
+
+  if (!status.enabled) {
+    res.status(503).json({ error: 'Jellyfin not enabled' })
+    return
+  }
+  if (!status.jellyfinUserId) {
+    res.status(400).json({ error: 'This profile is not linked to a Jellyfin user' })
+    return
+  }
+
+  const run = await jellyfinSyncService.syncProfile(profileId)
+  if (!run) {
+    res.status(409).json({ error: 'A sync is already in progress' })
+    return
+  }
+
+  res.json({ run })
+})
+
 /**
  * Mark as watched
  * POST /api/progress/watched
  */
-router.post('/watched', async (req: AuthRequest, res: Response) => {
-  const userId = DEFAULT_USER_ID
+router.post('/watched', async (req: AuthenticatedRequest, res: Response) => {
+  const userId = getProfileId(req)
 
   const { mediaType, tmdbId, seasonNumber, episodeNumber } = req.body
 
@@ -138,8 +408,8 @@ router.post('/watched', async (req: AuthRequest, res: Response) => {
  * Remove progress (mark as unwatched)
  * DELETE /api/progress/:mediaType/:tmdbId
  */
-router.delete('/:mediaType/:tmdbId', async (req: AuthRequest, res: Response) => {
-  const userId = DEFAULT_USER_ID
+router.delete('/:mediaType/:tmdbId', async (req: AuthenticatedRequest, res: Response) => {
+  const userId = getProfileId(req)
 
   const mediaType = req.params.mediaType as 'movie' | 'episode'
   const tmdbId = parseInt(req.params.tmdbId, 10)
@@ -0,0 +1,28 @@
+import { Router, Response } from 'express'
+import { statsService } from '../services/statsService.js'
+import { getProfileId, type AuthenticatedRequest } from '../middleware/auth.js'
+
+const router = Router()
+
+// Earliest year a year in review can be asked for
+const MIN_YEAR = 1970
+
+/**
+ * Get viewing statistics, for all time or as a year in review
+ * GET /api/stats?year=2024
+ */
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+  let year: number | null = null
+
+  if (req.query.year !== undefined && req.query.year !== '') {
+    year = Number(req.query.year)
+    if (!Number.isInteger(year) || year < MIN_YEAR || year > new Date().getUTCFullYear()) {
+      res.status(400).json({ error: 'Invalid year' })
+      return
+    }
+  }
+
+  res.json(await statsService.getStats(getProfileId(req), year))
+})
+
+export default router
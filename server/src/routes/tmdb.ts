@@ -0,0 +1,42 @@
+import { Router, Request, Response } from 'express'
+import { tmdbService, type TmdbParams } from '../services/tmdbService.js'
+
+const router = Router()
+
+/**
+ * Proxy a TMDB API endpoint, adding the API key and caching the response
+ * The query parameters the endpoint takes are passed on; TMDB's status and body come back unchanged
+ * GET /api/tmdb/movie/550?language=en-US
+ */
+router.get('/*', async (req: Request, res: Response) => {
+  if (!tmdbService.isEnabled()) {
+    res.status(503).json({ error: 'TMDB is not configured' })
+    return
+  }
+
+  const path = `/${req.params[0]}`
+  if (!tmdbService.isValidPath(path)) {
+    res.status(400).json({ error: 'Invalid TMDB path' })
+    return
+  }
+
+  // Repeated parameters aren't used by any TMDB endpoint
+  const params: TmdbParams = {}
+  for (const [name, value] of Object.entries(req.query)) {
+    if (typeof value === 'string') params[name] = value
+  }
+
+  try {
+    const { status, data } = await tmdbService.proxy(path, params)
+    // Passed on as is, a 401 would look like our own session expiring
+    if (status === 401) {
+      res.status(502).json({ error: 'TMDB rejected the API key' })
+      return
+    }
+    res.status(status).json(data)
+  } catch {
+    res.status(502).json({ error: 'TMDB could not be reached' })
+  }
+})
+
+export default router
@@ -1,7 +1,11 @@
 import { Router, Request, Response } from 'express'
 import { searchTorrents, getProviders } from '../services/torrentSearch.js'
 import { downloadManager } from '../services/downloadManager.js'
-import type { SearchQuery, DownloadRequest } from '../types/index.js'
+import { prowlarrService } from '../services/prowlarrService.js'
+import { seedingPolicyService, type SeedingRule } from '../services/seedingPolicyService.js'
+import { storageService, InsufficientSpaceError } from '../services/storageService.js'
+import { DOWNLOAD_PRIORITIES, DOWNLOAD_STATUSES } from '../types/index.js'
+import type { SearchQuery, DownloadRequest, DownloadPriority, DownloadStatus, QueueMove } from '../types/index.js'
 
 const router = Router()
 
@@ -32,33 +36,184 @@ router.get('/search', async (req: Request, res: Response) => {
 // Start a download
 router.post('/download', async (req: Request, res: Response) => {
   try {
-    const { magnetLink, mediaId, mediaType, name } = req.body as DownloadRequest
+    const { magnetLink, mediaId, mediaType, name, priority, indexer, size } = req.body as DownloadRequest
 
     if (!magnetLink) {
       res.status(400).json({ error: 'Magnet link is required' })
       return
     }
+    if (priority !== undefined && !DOWNLOAD_PRIORITIES.includes(priority)) {
+      res.status(400).json({ error: `Priority must be one of: ${DOWNLOAD_PRIORITIES.join(', ')}` })
+      return
+    }
+    if (indexer !== undefined && typeof indexer !== 'string') {
+      res.status(400).json({ error: 'Indexer must be a string' })
+      return
+    }
+    if (size !== undefined && (typeof size !== 'number' || !Number.isFinite(size) || size < 0)) {
+      res.status(400).json({ error: 'Size must be a number of bytes' })
+      return
+    }
 
     const download = await downloadManager.startDownload({
       magnetLink,
       mediaId,
       mediaType,
-      name
+      name,
+      priority,
+      indexer,
+      size
     })
 
     res.json({ download })
   } catch (error) {
+    if (error instanceof InsufficientSpaceError) {
+      res.status(507).json({ error: error.message, required: error.required, free: error.free })
+      return
+    }
     console.error('Download error:', error)
     res.status(500).json({ error: 'Failed to start download' })
   }
 })
 
-// Get all downloads
+// Get all downloads, the queue in order first
 router.get('/downloads', (req: Request, res: Response) => {
   const downloads = downloadManager.getAllDownloads()
   res.json({ downloads })
 })
 
+// Accepts anything Date can parse and returns it in the ISO 8601 form downloads are stored with
+const parseDateParam = (value: unknown): string | null | undefined => {
+  if (value === undefined || value === '') return undefined
+  const date = new Date(String(value))
+  if (isNaN(date.getTime())) return null
+  return date.toISOString()
+}
+
+// Get downloads of any status, including finished and cancelled ones, most recent first
+// GET /api/torrents/history?status=&mediaType=&mediaId=&from=&to=&limit=&offset=
+router.get('/history', (req: Request, res: Response) => {
+  const { status, mediaType } = req.query
+
+  if (status !== undefined && !DOWNLOAD_STATUSES.includes(status as DownloadStatus)) {
+    res.status(400).json({ error: `Status must be one of: ${DOWNLOAD_STATUSES.join(', ')}` })
+    return
+  }
+  if (mediaType !== undefined && mediaType !== 'movie' && mediaType !== 'tv') {
+    res.status(400).json({ error: 'Media type must be movie or tv' })
+    return
+  }
+
+  let mediaId: number | undefined
+  if (req.query.mediaId !== undefined) {
+    mediaId = Number(req.query.mediaId)
+    if (!Number.isInteger(mediaId)) {
+      res.status(400).json({ error: 'Invalid media id' })
+      return
+    }
+  }
+
+  const from = parseDateParam(req.query.from)
+  const to = parseDateParam(req.query.to)
+  if (from === null || to === null) {
+    res.status(400).json({ error: 'Invalid date' })
+    return
+  }
+
+  const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 50, 1), 200)
+  const offset = Math.max(parseInt(req.query.offset as string, 10) || 0, 0)
+
+  res.json(downloadManager.getHistory({
+    status: status as DownloadStatus | undefined,
+    mediaType: mediaType as 'movie' | 'tv' | undefined,
+    mediaId,
+    from,
+    to,
+    limit,
+    offset
+  }))
+})
+
+// Reorder the queue; the listed downloads swap into the places they hold between them
+// PUT /api/torrents/downloads/order { ids: string[] }
+router.put('/downloads/order', async (req: Request, res: Response) => {
+  const { ids } = req.body as { ids?: unknown }
+
+  if (!Array.isArray(ids) || ids.some(id => typeof id !== 'string')) {
+    res.status(400).json({ error: 'ids must be an array of download ids' })
+    return
+  }
+
+  const success = await downloadManager.reorderQueue(ids)
+  if (!success) {
+    res.status(400).json({ error: 'Cannot reorder downloads that are not queued' })
+    return
+  }
+
+  res.json({ success: true })
+})
+
+// Free and used space of the download disk and the Radarr/Sonarr root folders
+router.get('/storage', async (req: Request, res: Response) => {
+  res.json(await storageService.getStatus())
+})
+
+// Indexers configured in Prowlarr, with whether they are private trackers
+router.get('/indexers', async (req: Request, res: Response) => {
+  const indexers = await prowlarrService.getIndexers()
+  res.json({
+    indexers: indexers
+      .filter(indexer => indexer.protocol === 'torrent')
+      .map(indexer => ({ name: indexer.name, privacy: indexer.privacy }))
+  })
+})
+
+const SEEDING_CATEGORIES = ['', 'radarr', 'sonarr']
+const MAX_SEEDING_RULES = 100
+
+const isOptionalNumber = (value: unknown): boolean =>
+  value === null || (typeof value === 'number' && Number.isFinite(value) && value >= 0)
+
+const isSeedingRule = (value: unknown): value is SeedingRule => {
+  const rule = value as SeedingRule
+  return typeof rule === 'object' && rule !== null &&
+    SEEDING_CATEGORIES.includes(rule.category) &&
+    typeof rule.indexer === 'string' &&
+    isOptionalNumber(rule.ratio) &&
+    isOptionalNumber(rule.seedTimeMinutes) &&
+    (rule.seedTimeMinutes === null || Number.isInteger(rule.seedTimeMinutes))
+}
+
+// Get the seeding rules
+router.get('/seeding-rules', (req: Request, res: Response) => {
+  res.json({ rules: seedingPolicyService.getRules() })
+})
+
+// Replace the seeding rules
+// PUT /api/torrents/seeding-rules { rules: [{ category, indexer, ratio, seedTimeMinutes }] }
+router.put('/seeding-rules', (req: Request, res: Response) => {
+  const { rules } = req.body as { rules?: unknown }
+
+  if (!Array.isArray(rules) || rules.length > MAX_SEEDING_RULES || !rules.every(isSeedingRule)) {
+    res.status(400).json({ error: `rules must be a list of at most ${MAX_SEEDING_RULES} seeding rules` })
+    return
+  }
+
+  const keys = new Set(rules.map(rule => `${rule.category}\n${rule.indexer.trim().toLowerCase()}`))
+  if (keys.size !== rules.length) {
+    res.status(400).json({ error: 'Only one rule per category and indexer is allowed' })
+    return
+  }
+
+  const success = seedingPolicyService.setRules(rules.map(rule => ({ ...rule, indexer: rule.indexer.trim() })))
+  if (!success) {
+    res.status(500).json({ error: 'Failed to save seeding rules' })
+    return
+  }
+
+  res.json({ rules: seedingPolicyService.getRules() })
+})
+
 // Get specific download
 router.get('/downloads/:id', (req: Request, res: Response) => {
   const download = downloadManager.getDownload(req.params.id)
@@ -95,15 +250,66 @@ router.put('/downloads/:id/resume', async (req: Request, res: Response) => {
   res.json({ success: true })
 })
 
+// Move a download in the queue
+// PUT /api/torrents/downloads/:id/move-up, /move-down, /move-top
+const QUEUE_MOVES: QueueMove[] = ['up', 'down', 'top']
+
+for (const move of QUEUE_MOVES) {
+  router.put(`/downloads/:id/move-${move}`, async (req: Request, res: Response) => {
+    const success = await downloadManager.moveDownload(req.params.id, move)
+
+    if (!success) {
+      res.status(400).json({ error: 'Cannot move download' })
+      return
+    }
+
+    res.json({ success: true })
+  })
+}
+
+// Change the priority of a queued download, which moves it behind the others of that priority
+router.put('/downloads/:id/priority', async (req: Request, res: Response) => {
+  const { priority } = req.body as { priority?: DownloadPriority }
+
+  if (!priority || !DOWNLOAD_PRIORITIES.includes(priority)) {
+    res.status(400).json({ error: `Priority must be one of: ${DOWNLOAD_PRIORITIES.join(', ')}` })
+    return
+  }
+
+  const success = await downloadManager.setPriority(req.params.id, priority)
+  if (!success) {
+    res.status(400).json({ error: 'Cannot change priority' })
+    return
+  }
+
+  res.json({ success: true })
+})
+
 // Cancel/remove download
+// DELETE /api/torrents/downloads/:id?deleteFiles=true|false&force=true
+// Files are kept for completed downloads unless deleteFiles is set. Private tracker torrents that
+// haven't met their seeding rule are refused with 409 unless force is set
 router.delete('/downloads/:id', async (req: Request, res: Response) => {
-  const success = await downloadManager.cancelDownload(req.params.id)
+  const download = downloadManager.getDownload(req.params.id)
 
-  if (!success) {
+  if (!download) {
     res.status(404).json({ error: 'Download not found' })
     return
   }
 
+  if (req.query.force !== 'true' && downloadManager.isSeedingRequired(download)) {
+    res.status(409).json({
+      error: 'This torrent is from a private tracker and has not finished seeding',
+      ratio: download.ratio ?? 0,
+      seedingTime: download.seedingTime ?? 0,
+      rule: downloadManager.getSeedingRule(download)
+    })
+    return
+  }
+
+  const deleteFiles = req.query.deleteFiles === undefined ? undefined : req.query.deleteFiles === 'true'
+  await downloadManager.cancelDownload(download.id, { deleteFiles })
+
   res.json({ success: true })
 })
 
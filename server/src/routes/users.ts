@@ -0,0 +1,259 @@
+import { Router, Response } from 'express'
+import { userService, USER_ROLES, type UserRole } from '../services/userService.js'
+import { sessionService } from '../services/sessionService.js'
+import { twoFactorService } from '../services/twoFactorService.js'
+import { getUserId, requireRole, requireSession, type AuthenticatedRequest } from '../middleware/auth.js'
+import { DEFAULT_KID_RATING, isValidRatingLimit } from '../utils/contentRating.js'
+import { disconnectSession } from '../websocket/progressSocket.js'
+
+const router = Router()
+
+const MIN_PASSWORD_LENGTH = 8
+
+const isValidRole = (role: unknown): role is UserRole => {
+  return typeof role === 'string' && USER_ROLES.includes(role as UserRole)
+}
+
+// List household accounts
+router.get('/', requireRole('admin'), (req: AuthenticatedRequest, res: Response) => {
+  res.json({ users: userService.listUsers() })
+})
+
+// Get the current user
+router.get('/me', (req: AuthenticatedRequest, res: Response) => {
+  const user = userService.getUserById(getUserId(req))
+
+  if (!user) {
+    res.status(404).json({ error: 'User not found' })
+    return
+  }
+
+  res.json({ user })
+})
+
+// Create a new account
+router.post('/', requireRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+  const { username, password, role = 'viewer', maxRating } = req.body
+
+  if (!username || typeof username !== 'string' || !password || typeof password !== 'string') {
+    res.status(400).json({ error: 'Username and password are required' })
+    return
+  }
+
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` })
+    return
+  }
+
+  if (!isValidRole(role)) {
+    res.status(400).json({ error: `Role must be one of: ${USER_ROLES.join(', ')}` })
+    return
+  }
+
+  if (maxRating !== undefined && !isValidRatingLimit(maxRating)) {
+    res.status(400).json({ error: 'Invalid content rating limit' })
+    return
+  }
+
+  if (userService.getUserByUsername(username)) {
+    res.status(409).json({ error: 'Username already exists' })
+    return
+  }
+
+  const user = await userService.createUser(username, password, role, maxRating ?? DEFAULT_KID_RATING)
+
+  if (user) {
+    res.json({ user })
+  } else {
+    res.status(500).json({ error: 'Failed to create user' })
+  }
+})
+
+// Change the current user's password
+router.put('/me/password', requireSession, async (req: AuthenticatedRequest, res: Response) => {
+  const { currentPassword, newPassword } = req.body
+  const user = userService.getUserById(getUserId(req))
+
+  if (!user) {
+    res.status(404).json({ error: 'User not found' })
+    return
+  }
+
+  if (!currentPassword || typeof currentPassword !== 'string' || !newPassword || typeof newPassword !== 'string') {
+    res.status(400).json({ error: 'Current and new password are required' })
+    return
+  }
+
+  if (newPassword.length < MIN_PASSWORD_LENGTH) {
+    res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` })
+    return
+  }
+
+  if (!await userService.verifyCredentials(user.username, currentPassword)) {
+    res.status(400).json({ error: 'Current password is incorrect' })
+    return
+  }
+
+  const success = await userService.updatePassword(user.id, newPassword)
+
+  // Sign out other devices, which may have been using the old password
+  if (success) {
+    sessionService.revokeAllSessions(user.id, req.user?.sessionId).forEach(id => disconnectSession(id))
+  }
+
+  res.json({ success })
+})
+
+// Get the current user's two-factor status
+router.get('/me/2fa', (req: AuthenticatedRequest, res: Response) => {
+  res.json(twoFactorService.getStatus(getUserId(req)))
+})
+
+// Start two-factor setup: returns the secret and a QR code for the authenticator app
+router.post('/me/2fa/setup', requireSession, async (req: AuthenticatedRequest, res: Response) => {
+  const user = userService.getUserById(getUserId(req))
+
+  if (!user) {
+    res.status(404).json({ error: 'User not found' })
+    return
+  }
+
+  if (user.twoFactorEnabled) {
+    res.status(400).json({ error: 'Two-factor authentication is already enabled' })
+    return
+  }
+
+  const setup = await twoFactorService.beginSetup(user.id, user.username)
+
+  if (setup) {
+    res.json(setup)
+  } else {
+    res.status(500).json({ error: 'Failed to start two-factor setup' })
+  }
+})
+
+// Confirm setup with a code from the authenticator app
+router.post('/me/2fa/enable', requireSession, (req: AuthenticatedRequest, res: Response) => {
+  const { code } = req.body
+
+  if (!code || typeof code !== 'string') {
+    res.status(400).json({ error: 'Verification code is required' })
+    return
+  }
+
+  const recoveryCodes = twoFactorService.enable(getUserId(req), code.trim())
+
+  if (!recoveryCodes) {
+    res.status(400).json({ error: 'Invalid verification code' })
+    return
+  }
+
+  res.json({ recoveryCodes })
+})
+
+// Turn two-factor off (requires the password)
+router.post('/me/2fa/disable', requireSession, async (req: AuthenticatedRequest, res: Response) => {
+  const user = userService.getUserById(getUserId(req))
+
+  if (!user) {
+    res.status(404).json({ error: 'User not found' })
+    return
+  }
+
+  const { password } = req.body
+
+  if (!password || typeof password !== 'string') {
+    res.status(400).json({ error: 'Password is required' })
+    return
+  }
+
+  if (!await userService.verifyCredentials(user.username, password)) {
+    res.status(400).json({ error: 'Password is incorrect' })
+    return
+  }
+
+  res.json({ success: twoFactorService.disable(user.id) })
+})
+
+// Replace the recovery codes (requires the password)
+router.post('/me/2fa/recovery-codes', requireSession, async (req: AuthenticatedRequest, res: Response) => {
+  const user = userService.getUserById(getUserId(req))
+
+  if (!user) {
+    res.status(404).json({ error: 'User not found' })
+    return
+  }
+
+  const { password } = req.body
+
+  if (!password || typeof password !== 'string') {
+    res.status(400).json({ error: 'Password is required' })
+    return
+  }
+
+  if (!await userService.verifyCredentials(user.username, password)) {
+    res.status(400).json({ error: 'Password is incorrect' })
+    return
+  }
+
+  const recoveryCodes = twoFactorService.regenerateRecoveryCodes(user.id)
+
+  if (!recoveryCodes) {
+    res.status(400).json({ error: 'Two-factor authentication is not enabled' })
+    return
+  }
+
+  res.json({ recoveryCodes })
+})
+
+// Change an account's role and content rating limit
+router.put('/:id/role', requireRole('admin'), (req: AuthenticatedRequest, res: Response) => {
+  const { role, maxRating } = req.body
+
+  if (!isValidRole(role)) {
+    res.status(400).json({ error: `Role must be one of: ${USER_ROLES.join(', ')}` })
+    return
+  }
+
+  if (maxRating !== undefined && !isValidRatingLimit(maxRating)) {
+    res.status(400).json({ error: 'Invalid content rating limit' })
+    return
+  }
+
+  // Keep at least one account able to manage the others
+  if (req.params.id === getUserId(req) && role !== 'admin') {
+    res.status(400).json({ error: 'You cannot remove your own admin role' })
+    return
+  }
+
+  const user = userService.updateRole(req.params.id, role, maxRating ?? DEFAULT_KID_RATING)
+
+  if (!user) {
+    res.status(404).json({ error: 'User not found' })
+    return
+  }
+
+  res.json({ user })
+})
+
+// Delete an account and its watch data
+router.delete('/:id', requireRole('admin'), (req: AuthenticatedRequest, res: Response) => {
+  if (req.params.id === getUserId(req)) {
+    res.status(400).json({ error: 'You cannot delete your own account' })
+    return
+  }
+
+  // Read before deleting, so the account's devices can be disconnected afterwards
+  const sessions = sessionService.listSessions(req.params.id)
+  const success = userService.deleteUser(req.params.id)
+
+  if (!success) {
+    res.status(404).json({ error: 'User not found' })
+    return
+  }
+
+  sessions.forEach(session => disconnectSession(session.id))
+  res.json({ success: true })
+})
+
+export default router
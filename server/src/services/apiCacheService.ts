@@ -0,0 +1,153 @@
+import db from '../db/index.js'
+
+export interface ApiResponse {
+  status: number
+  data: unknown
+}
+
+export interface CachePolicy {
+  // How long a response is served without asking again
+  ttlSeconds: number
+  // How long after that it is still served while being refreshed in the background
+  staleSeconds: number
+}
+
+// Only successful answers and "doesn't exist" are worth keeping
+const CACHEABLE_STATUSES = new Set([200, 404])
+
+// Most responses kept; the least recently fetched beyond this are dropped
+const MAX_ENTRIES = 20000
+// Writes between checks of the table size
+const WRITES_PER_SIZE_CHECK = 100
+
+interface CachedRow {
+  status: number
+  body: string
+  fresh: number
+  usable: number
+}
+
+/**
+ * Responses of external metadata APIs, cached in the database
+ * Stale responses are served while a fresh copy is fetched (stale-while-revalidate),
+ * and concurrent requests for the same key share one upstream call
+ */
+class ApiCacheService {
+  private inFlight = new Map<string, Promise<ApiResponse>>()
+  private writesSinceSizeCheck = 0
+
+  /**
+   * Get a response from the cache, or from fetcher when it's missing or too old
+   * Falls back to an expired copy when fetcher fails; throws when there is none
+   */
+  async get(key: string, policy: CachePolicy, fetcher: () => Promise<ApiResponse>): Promise<ApiResponse> {
+    const cached = this.read(key)
+
+    if (cached?.fresh) return this.toResponse(cached)
+
+    if (cached?.usable) {
+      this.refresh(key, policy, fetcher).catch(() => {
+        // Already logged; the stale copy stays until the next attempt
+      })
+      return this.toResponse(cached)
+    }
+
+    try {
+      return await this.refresh(key, policy, fetcher)
+    } catch (error) {
+      if (cached) return this.toResponse(cached)
+      throw error
+    }
+  }
+
+  /**
+   * Fetch a response and store it, joining a fetch of the same key already under way
+   */
+  private refresh(key: string, policy: CachePolicy, fetcher: () => Promise<ApiResponse>): Promise<ApiResponse> {
+    const pending = this.inFlight.get(key)
+    if (pending) return pending
+
+    const request = fetcher()
+      .then((response) => {
+        if (CACHEABLE_STATUSES.has(response.status)) this.write(key, policy, response)
+        return response
+      })
+      .catch((error) => {
+        console.error(`API cache: Error refreshing ${key}:`, error.message)
+        throw error
+      })
+      .finally(() => {
+        this.inFlight.delete(key)
+      })
+
+    this.inFlight.set(key, request)
+    return request
+  }
+
+  private read(key: string): CachedRow | null {
+    try {
+      const row = db.prepare(`
+        SELECT status, body,
+          expires_at > CURRENT_TIMESTAMP AS fresh,
+          stale_until > CURRENT_TIMESTAMP AS usable
+        FROM api_cache
+        WHERE cache_key = ?
+      `).get(key) as CachedRow | undefined
+      return row ?? null
+    } catch (error) {
+      console.error('Error reading API cache:', error)
+      return null
+    }
+  }
+
+  private write(key: string, policy: CachePolicy, response: ApiResponse): void {
+    try {
+      db.prepare(`
+        INSERT INTO api_cache (cache_key, status, body, fetched_at, expires_at, stale_until)
+        VALUES (?, ?, ?, CURRENT_TIMESTAMP, datetime('now', ?), datetime('now', ?))
+        ON CONFLICT(cache_key) DO UPDATE SET
+          status = excluded.status,
+          body = excluded.body,
+          fetched_at = excluded.fetched_at,
+          expires_at = excluded.expires_at,
+          stale_until = excluded.stale_until
+      `).run(
+        key,
+        response.status,
+        JSON.stringify(response.data),
+        `+${policy.ttlSeconds} seconds`,
+        `+${policy.ttlSeconds + policy.staleSeconds} seconds`
+      )
+
+      db.prepare('DELETE FROM api_cache WHERE stale_until < CURRENT_TIMESTAMP').run()
+
+      if (++this.writesSinceSizeCheck >= WRITES_PER_SIZE_CHECK) {
+        this.writesSinceSizeCheck = 0
+        this.evictOldest()
+      }
+    } catch (error) {
+      console.error('Error writing API cache:', error)
+    }
+  }
+
+  /**
+   * Keep the table within MAX_ENTRIES by dropping the least recently fetched responses
+   */
+  private evictOldest(): void {
+    const { changes } = db.prepare(`
+      DELETE FROM api_cache WHERE cache_key IN (
+        SELECT cache_key FROM api_cache ORDER BY fetched_at DESC LIMIT -1 OFFSET ?
+      )
+    `).run(MAX_ENTRIES)
+
+    if (changes > 0) {
+      console.log(`API cache: Dropped ${changes} oldest responses`)
+    }
+  }
+
+  private toResponse(row: CachedRow): ApiResponse {
+    return { status: row.status, data: JSON.parse(row.body) }
+  }
+}
+
+export const apiCacheService = new ApiCacheService()
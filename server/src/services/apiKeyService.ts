@@ -0,0 +1,162 @@
+import crypto from 'crypto'
+import { v4 as uuidv4 } from 'uuid'
+import db from '../db/index.js'
+import type { UserRole } from './userService.js'
+
+// Prefix that makes keys recognisable (e.g. by secret scanners)
+const KEY_PREFIX = 'mc_'
+
+// Characters of the key kept in plain text so users can tell their keys apart
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 8
+
+/**
+ * What a key may do, on top of the owner's role:
+ * - read: only GET requests
+ * - downloads: read, plus managing downloads and the library
+ * - admin: anything the owner can do
+ */
+export type ApiKeyScope = 'read' | 'downloads' | 'admin'
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['read', 'downloads', 'admin']
+
+// Routes the downloads scope may change
+const DOWNLOAD_ROUTES = ['/api/torrents', '/api/bandwidth', '/api/library']
+
+export interface ApiKey {
+  id: string
+  userId: string
+  profileId: string | null
+  name: string
+  // Start of the key, e.g. "mc_Ab12Cd34"
+  prefix: string
+  scope: ApiKeyScope
+  lastUsedAt: string | null
+  createdAt: string
+}
+
+export interface AuthenticatedApiKey extends ApiKey {
+  username: string
+  role: UserRole
+}
+
+/**
+ * Scopes a user may create keys with, based on their role
+ * Downloads are admin-only, so only admins get the downloads scope
+ */
+export const getAllowedScopes = (role: UserRole): ApiKeyScope[] => {
+  return role === 'admin' ? API_KEY_SCOPES : ['read']
+}
+
+/**
+ * Check whether a key's scope covers a request
+ * baseUrl is where the router is mounted, e.g. "/api/torrents"
+ */
+export const isAllowedByScope = (scope: ApiKeyScope, method: string, baseUrl: string): boolean => {
+  if (scope === 'admin') return true
+  if (method === 'GET' || method === 'HEAD') return true
+  return scope === 'downloads' && DOWNLOAD_ROUTES.includes(baseUrl)
+}
+
+class ApiKeyService {
+  /**
+   * Create a key; the plain key is only returned here, the database keeps a hash
+   */
+  createKey(
+    userId: string,
+    profileId: string,
+    name: string,
+    scope: ApiKeyScope
+  ): { apiKey: ApiKey, key: string } | null {
+    try {
+      const key = `${KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`
+      const result = db.prepare(`
+        INSERT INTO api_keys (id, user_id, profile_id, name, key_hash, key_prefix, scope)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+        RETURNING *
+      `).get(uuidv4(), userId, profileId, name.trim(), this.hashKey(key), key.slice(0, DISPLAY_PREFIX_LENGTH), scope)
+
+      return result ? { apiKey: this.mapRowToApiKey(result), key } : null
+    } catch (error) {
+      console.error('Error creating API key:', error)
+      return null
+    }
+  }
+
+  listKeys(userId: string): ApiKey[] {
+    try {
+      const results = db.prepare(`
+        SELECT * FROM api_keys
+        WHERE user_id = ?
+        ORDER BY created_at DESC
+      `).all(userId)
+      return results.map(row => this.mapRowToApiKey(row))
+    } catch (error) {
+      console.error('Error listing API keys:', error)
+      return []
+    }
+  }
+
+  /**
+   * Look up the key sent with a request, recording when it was last used
+   */
+  authenticate(key: string): AuthenticatedApiKey | null {
+    try {
+      const row = db.prepare(`
+        SELECT api_keys.*, users.username, users.role
+        FROM api_keys
+        JOIN users ON users.id = api_keys.user_id
+        WHERE api_keys.key_hash = ?
+      `).get(this.hashKey(key)) as any
+
+      if (!row) return null
+
+      // Scripts may poll every few seconds, so only write once a minute
+      db.prepare(`
+        UPDATE api_keys
+        SET last_used_at = CURRENT_TIMESTAMP
+        WHERE id = ? AND (last_used_at IS NULL OR last_used_at < datetime('now', '-1 minute'))
+      `).run(row.id)
+
+      return { ...this.mapRowToApiKey(row), username: row.username, role: row.role }
+    } catch (error) {
+      console.error('Error authenticating API key:', error)
+      return null
+    }
+  }
+
+  /**
+   * Revoke a key (only keys belonging to the given account)
+   */
+  revokeKey(id: string, userId: string): boolean {
+    try {
+      const result = db.prepare('DELETE FROM api_keys WHERE id = ? AND user_id = ?').run(id, userId)
+      return result.changes > 0
+    } catch (error) {
+      console.error('Error revoking API key:', error)
+      return false
+    }
+  }
+
+  // Keys are random and long, so a fast hash is enough
+  private hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex')
+  }
+
+  /**
+   * Map database row to ApiKey object (never exposes the key hash)
+   */
+  private mapRowToApiKey(row: any): ApiKey {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      profileId: row.profile_id,
+      name: row.name,
+      prefix: row.key_prefix,
+      scope: row.scope,
+      lastUsedAt: row.last_used_at,
+      createdAt: row.created_at
+    }
+  }
+}
+
+export const apiKeyService = new ApiKeyService()
@@ -0,0 +1,101 @@
+import db from '../db/index.js'
+import type { AuthLogEvent } from '../utils/authLogger.js'
+
+// Older login history is pruned
+const RETENTION_DAYS = 90
+
+export interface AuthEvent {
+  id: number
+  event: AuthLogEvent
+  username: string | null
+  ip: string
+  userAgent: string | null
+  reason: string | null
+  createdAt: string
+}
+
+export interface NewAuthEvent {
+  event: AuthLogEvent
+  username?: string
+  ip: string
+  userAgent?: string
+  reason?: string
+}
+
+export interface AuthEventFilter {
+  event?: AuthLogEvent
+  // Partial, case-insensitive match
+  username?: string
+  ip?: string
+  limit: number
+  offset: number
+}
+
+class AuthEventService {
+  record(entry: NewAuthEvent): void {
+    try {
+      db.prepare(`
+        INSERT INTO auth_events (event, username, ip, user_agent, reason)
+        VALUES (?, ?, ?, ?, ?)
+      `).run(entry.event, entry.username ?? null, entry.ip, entry.userAgent ?? null, entry.reason ?? null)
+
+      db.prepare(`
+        DELETE FROM auth_events WHERE created_at < datetime('now', ?)
+      `).run(`-${RETENTION_DAYS} days`)
+    } catch (error) {
+      console.error('Error recording auth event:', error)
+    }
+  }
+
+  /**
+   * Get login history, newest first, with the total number of matching events
+   */
+  list(filter: AuthEventFilter): { events: AuthEvent[], total: number } {
+    const conditions: string[] = []
+    const params: (string | number)[] = []
+
+    if (filter.event) {
+      conditions.push('event = ?')
+      params.push(filter.event)
+    }
+    if (filter.username) {
+      conditions.push('username LIKE ?')
+      params.push(`%${filter.username}%`)
+    }
+    if (filter.ip) {
+      conditions.push('ip = ?')
+      params.push(filter.ip)
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''
+
+    try {
+      const { total } = db.prepare(`SELECT COUNT(*) AS total FROM auth_events ${where}`).get(...params) as
+        { total: number }
+      const results = db.prepare(`
+        SELECT * FROM auth_events ${where}
+        ORDER BY created_at DESC, id DESC
+        LIMIT ? OFFSET ?
+      `).all(...params, filter.limit, filter.offset)
+
+      return { events: results.map(row => this.mapRowToEvent(row)), total }
+    } catch (error) {
+      console.error('Error listing auth events:', error)
+      return { events: [], total: 0 }
+    }
+  }
+
+  private mapRowToEvent(row: any): AuthEvent {
+    return {
+      id: row.id,
+      event: row.event,
+      username: row.username,
+      ip: row.ip,
+      userAgent: row.user_agent,
+      reason: row.reason,
+      createdAt: row.created_at
+    }
+  }
+}
+
+export const authEventService = new AuthEventService()
@@ -0,0 +1,232 @@
+import db from '../db/index.js'
+import { config } from '../config.js'
+import { qbittorrentService } from './qbittorrentService.js'
+
+// Limits are checked and sent to qBittorrent this often, which also restores them after qBittorrent restarts
+const APPLY_INTERVAL_MS = 60 * 1000
+
+// Speed limits in KiB/s, 0 = unlimited
+export interface BandwidthLimits {
+  downloadLimit: number
+  uploadLimit: number
+}
+
+export interface BandwidthRule extends BandwidthLimits {
+  // Weekdays the window starts on, 0 = Sunday
+  days: number[]
+  // HH:MM in the server's time zone; an end before the start runs past midnight,
+  // and an end equal to the start covers the whole day
+  start: string
+  end: string
+}
+
+export type BandwidthOverrideMode = 'turbo' | 'slow'
+
+export interface BandwidthOverride {
+  mode: BandwidthOverrideMode
+  // Null keeps the override until it is cleared
+  until: string | null
+}
+
+export interface BandwidthStatus {
+  rules: BandwidthRule[]
+  defaultLimits: BandwidthLimits
+  slowLimits: BandwidthLimits
+  override: BandwidthOverride | null
+  // What applies right now and why; rule is the index of the matching rule
+  active: BandwidthLimits & { source: 'default' | 'rule' | BandwidthOverrideMode, rule: number | null }
+}
+
+const UNLIMITED: BandwidthLimits = { downloadLimit: 0, uploadLimit: 0 }
+
+const parseTime = (value: string): number => {
+  const [hours, minutes] = value.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+// SQLite timestamps are UTC without a zone suffix
+const parseTimestamp = (value: string): number => Date.parse(`${value.replace(' ', 'T')}Z`)
+
+const toTimestamp = (time: number): string => new Date(time).toISOString().slice(0, 19).replace('T', ' ')
+
+/**
+ * Whether a rule covers a moment, given as weekday and minutes since midnight
+ */
+const ruleMatches = (rule: BandwidthRule, day: number, minute: number): boolean => {
+  const start = parseTime(rule.start)
+  const end = parseTime(rule.end)
+  const previousDay = (day + 6) % 7
+
+  if (start === end) return rule.days.includes(day)
+  if (start < end) return rule.days.includes(day) && minute >= start && minute < end
+  // Past midnight: the evening of a listed day, or the early hours after one
+  return (rule.days.includes(day) && minute >= start) || (rule.days.includes(previousDay) && minute < end)
+}
+
+/**
+ * Global qBittorrent speed limits following a weekly schedule, with a manual
+ * turbo (unlimited) or slow override on top
+ */
+class BandwidthService {
+  private timer: ReturnType<typeof setInterval> | null = null
+
+  start(): void {
+    if (this.timer || !config.qbittorrent.enabled) return
+
+    this.apply()
+    this.timer = setInterval(() => {
+      this.apply()
+    }, APPLY_INTERVAL_MS)
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  getStatus(now: Date = new Date()): BandwidthStatus {
+    const rules = this.getRules()
+    const { slowLimits, override } = this.getSettings(now)
+
+    return {
+      rules,
+      defaultLimits: { downloadLimit: config.torrent.downloadLimit, uploadLimit: config.torrent.uploadLimit },
+      slowLimits,
+      override,
+      active: this.resolveLimits(rules, slowLimits, override, now)
+    }
+  }
+
+  /**
+   * Replace the weekly schedule; rules earlier in the list win where they overlap
+   */
+  setRules(rules: BandwidthRule[]): boolean {
+    try {
+      const insert = db.prepare(`
+        INSERT INTO bandwidth_rules (position, days, start_time, end_time, download_limit, upload_limit)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `)
+
+      db.transaction(() => {
+        db.prepare('DELETE FROM bandwidth_rules').run()
+        rules.forEach((rule, index) => {
+          insert.run(index, rule.days.join(','), rule.start, rule.end, rule.downloadLimit, rule.uploadLimit)
+        })
+      })()
+    } catch (error) {
+      console.error('Error saving bandwidth rules:', error)
+      return false
+    }
+
+    this.apply()
+    return true
+  }
+
+  setSlowLimits(limits: BandwidthLimits): boolean {
+    try {
+      db.prepare(`
+        UPDATE bandwidth_settings SET slow_download_limit = ?, slow_upload_limit = ?
+        WHERE id = 1
+      `).run(limits.downloadLimit, limits.uploadLimit)
+    } catch (error) {
+      console.error('Error saving slow speed limits:', error)
+      return false
+    }
+
+    this.apply()
+    return true
+  }
+
+  /**
+   * Go unlimited or slow regardless of the schedule, for a number of minutes or until cleared
+   */
+  setOverride(mode: BandwidthOverrideMode | null, minutes: number | null = null): boolean {
+    const until = mode && minutes ? toTimestamp(Date.now() + minutes * 60 * 1000) : null
+
+    try {
+      db.prepare(`
+        UPDATE bandwidth_settings SET override_mode = ?, override_until = ?
+        WHERE id = 1
+      `).run(mode, until)
+    } catch (error) {
+      console.error('Error saving bandwidth override:', error)
+      return false
+    }
+
+    this.apply()
+    return true
+  }
+
+  /**
+   * Send the limits that apply now to qBittorrent
+   */
+  async apply(): Promise<void> {
+    if (!config.qbittorrent.enabled) return
+
+    const { active } = this.getStatus()
+    await qbittorrentService.setTransferLimits(active.downloadLimit * 1024, active.uploadLimit * 1024)
+  }
+
+  private resolveLimits(
+    rules: BandwidthRule[],
+    slowLimits: BandwidthLimits,
+    override: BandwidthOverride | null,
+    now: Date
+  ): BandwidthStatus['active'] {
+    if (override?.mode === 'turbo') return { ...UNLIMITED, source: 'turbo', rule: null }
+    if (override?.mode === 'slow') return { ...slowLimits, source: 'slow', rule: null }
+
+    const index = rules.findIndex(rule => ruleMatches(rule, now.getDay(), now.getHours() * 60 + now.getMinutes()))
+    if (index !== -1) {
+      const { downloadLimit, uploadLimit } = rules[index]
+      return { downloadLimit, uploadLimit, source: 'rule', rule: index }
+    }
+
+    return {
+      downloadLimit: config.torrent.downloadLimit,
+      uploadLimit: config.torrent.uploadLimit,
+      source: 'default',
+      rule: null
+    }
+  }
+
+  private getRules(): BandwidthRule[] {
+    try {
+      const rows = db.prepare('SELECT * FROM bandwidth_rules ORDER BY position').all() as any[]
+      return rows.map(row => ({
+        days: row.days ? row.days.split(',').map(Number) : [],
+        start: row.start_time,
+        end: row.end_time,
+        downloadLimit: row.download_limit,
+        uploadLimit: row.upload_limit
+      }))
+    } catch (error) {
+      console.error('Error getting bandwidth rules:', error)
+      return []
+    }
+  }
+
+  /**
+   * Slow mode limits and the override in effect; an expired override is treated as cleared
+   */
+  private getSettings(now: Date): { slowLimits: BandwidthLimits, override: BandwidthOverride | null } {
+    try {
+      const row = db.prepare('SELECT * FROM bandwidth_settings WHERE id = 1').get() as any
+      const expired = row.override_until && parseTimestamp(row.override_until) <= now.getTime()
+
+      return {
+        slowLimits: { downloadLimit: row.slow_download_limit, uploadLimit: row.slow_upload_limit },
+        override: row.override_mode && !expired
+          ? { mode: row.override_mode, until: row.override_until }
+          : null
+      }
+    } catch (error) {
+      console.error('Error getting bandwidth settings:', error)
+      return { slowLimits: UNLIMITED, override: null }
+    }
+  }
+}
+
+export const bandwidthService = new BandwidthService()
@@ -1,9 +1,22 @@
 import { v4 as uuidv4 } from 'uuid'
 import fs from 'fs'
 import path from 'path'
-import type { Download, DownloadRequest, ProgressUpdate } from '../types/index.js'
+import type {
+  Download,
+  DownloadHistoryFilter,
+  DownloadPriority,
+  DownloadRequest,
+  ProgressUpdate,
+  QueueMove
+} from '../types/index.js'
+import db from '../db/index.js'
 import { config } from '../config.js'
 import { qbittorrentService } from './qbittorrentService.js'
+import { prowlarrService } from './prowlarrService.js'
+import { radarrService } from './radarrService.js'
+import { sonarrService } from './sonarrService.js'
+import { seedingPolicyService, type SeedingRule } from './seedingPolicyService.js'
+import { storageService, InsufficientSpaceError } from './storageService.js'
 
 type ProgressCallback = (update: ProgressUpdate) => void
 
@@ -49,54 +62,154 @@ const CATEGORIES = {
   tv: 'sonarr'
 } as const
 
+// Completed torrents are checked against the seeding rules this often
+const SEEDING_CHECK_INTERVAL_MS = 5 * 60 * 1000
+
+const PRIORITY_RANKS: Record<DownloadPriority, number> = { high: 0, normal: 1, low: 2 }
+
+// Downloads in the queue: waiting, running or paused by the user
+const isInQueue = (download: Download): boolean =>
+  download.status === 'queued' || download.status === 'downloading' || download.status === 'paused'
+
+// Bytes a download still needs on disk; unknown sizes count as nothing
+const getRemainingBytes = (download: Download): number => Math.max(download.size - download.downloaded, 0)
+
 class DownloadManager {
   private downloads: Map<string, Download> = new Map()
   private hashToId: Map<string, string> = new Map() // Map qBittorrent hash to our internal ID
   private progressCallbacks: Set<ProgressCallback> = new Set()
   private pollingInterval: NodeJS.Timeout | null = null
-  private stateFilePath: string
+  private seedingInterval: NodeJS.Timeout | null = null
+  // Queue work runs one task at a time, so downloads aren't started twice
+  private queueTasks: Promise<void> = Promise.resolve()
 
   constructor() {
-    this.stateFilePath = path.join(config.downloadPath, '.downloads-state.json')
-
     // Ensure download directory exists
     if (!fs.existsSync(config.downloadPath)) {
       fs.mkdirSync(config.downloadPath, { recursive: true })
     }
 
     // Load persisted state
+    this.importStateFile()
     this.loadState()
 
     // Start polling for progress updates
     this.startPolling()
   }
 
-  private loadState(): void {
-    try {
-      if (fs.existsSync(this.stateFilePath)) {
-        const data = fs.readFileSync(this.stateFilePath, 'utf-8')
-        const state = JSON.parse(data) as Download[]
+  /**
+   * Move downloads from the JSON file older versions kept them in into the database
+   * The file is renamed afterwards so it is only imported once
+   */
+  private importStateFile(): void {
+    const stateFilePath = path.join(config.downloadPath, '.downloads-state.json')
+    if (!fs.existsSync(stateFilePath)) return
 
+    try {
+      const state = JSON.parse(fs.readFileSync(stateFilePath, 'utf-8')) as Download[]
+      db.transaction(() => {
         for (const download of state) {
-          this.downloads.set(download.id, download)
-          if (download.infoHash) {
-            this.hashToId.set(download.infoHash.toLowerCase(), download.id)
-          }
+          this.saveDownload(download)
         }
+      })()
 
-        console.log(`Loaded ${this.downloads.size} downloads from state`)
+      fs.renameSync(stateFilePath, `${stateFilePath}.imported`)
+      console.log(`Imported ${state.length} downloads from ${stateFilePath}`)
+    } catch (error) {
+      console.error('Error importing download state file:', error)
+    }
+  }
+
+  // Cancelled downloads are only kept as history
+  private loadState(): void {
+    try {
+      const rows = db.prepare(`
+        SELECT * FROM downloads
+        WHERE status != 'cancelled'
+        ORDER BY queue_position, created_at
+      `).all() as any[]
+
+      for (const row of rows) {
+        const download = this.mapRowToDownload(row)
+        this.downloads.set(download.id, download)
+        if (download.infoHash) {
+          this.hashToId.set(download.infoHash.toLowerCase(), download.id)
+        }
       }
+
+      // Close gaps left by downloads that finished while the server was down
+      this.getQueue().forEach((download, index) => {
+        download.queuePosition = index
+      })
+
+      console.log(`Loaded ${this.downloads.size} downloads from state`)
     } catch (error) {
       console.error('Error loading state:', error)
     }
   }
 
-  private saveState(): void {
+  private saveDownload(download: Download): void {
+    download.updatedAt = new Date().toISOString()
+
     try {
-      const state = Array.from(this.downloads.values())
-      fs.writeFileSync(this.stateFilePath, JSON.stringify(state, null, 2))
+      db.prepare(`
+        INSERT INTO downloads (
+          id, info_hash, media_id, media_type, name, status, priority, queue_position, progress,
+          download_speed, upload_speed, size, downloaded, eta, save_path, indexer, private_tracker,
+          ratio, seeding_time, error, created_at, updated_at, completed_at, failed_at, cancelled_at,
+          seeding_stopped_at
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET
+          info_hash = excluded.info_hash,
+          name = excluded.name,
+          status = excluded.status,
+          priority = excluded.priority,
+          queue_position = excluded.queue_position,
+          progress = excluded.progress,
+          download_speed = excluded.download_speed,
+          upload_speed = excluded.upload_speed,
+          size = excluded.size,
+          downloaded = excluded.downloaded,
+          eta = excluded.eta,
+          ratio = excluded.ratio,
+          seeding_time = excluded.seeding_time,
+          error = excluded.error,
+          updated_at = excluded.updated_at,
+          completed_at = excluded.completed_at,
+          failed_at = excluded.failed_at,
+          cancelled_at = excluded.cancelled_at,
+          seeding_stopped_at = excluded.seeding_stopped_at
+      `).run(
+        download.id,
+        download.infoHash,
+        download.mediaId ?? null,
+        download.mediaType ?? null,
+        download.name,
+        download.status,
+        download.priority ?? 'normal',
+        download.queuePosition ?? 0,
+        download.progress,
+        download.downloadSpeed,
+        download.uploadSpeed,
+        download.size,
+        download.downloaded,
+        download.eta ?? null,
+        download.savePath,
+        download.indexer ?? null,
+        download.privateTracker ? 1 : 0,
+        download.ratio ?? null,
+        download.seedingTime ?? null,
+        download.error ?? null,
+        download.createdAt,
+        download.updatedAt,
+        download.completedAt ?? null,
+        download.failedAt ?? null,
+        download.cancelledAt ?? null,
+        download.seedingStoppedAt ?? null
+      )
     } catch (error) {
-      console.error('Error saving state:', error)
+      console.error('Error saving download:', error)
     }
   }
 
@@ -117,7 +230,7 @@ class DownloadManager {
     const download = this.downloads.get(id)
     if (download) {
       Object.assign(download, updates)
-      this.saveState()
+      this.saveDownload(download)
     }
   }
 
@@ -128,6 +241,10 @@ class DownloadManager {
     this.pollingInterval = setInterval(async () => {
       await this.syncWithQBittorrent()
     }, 2000)
+
+    this.seedingInterval = setInterval(() => {
+      this.enforceSeedingRules()
+    }, SEEDING_CHECK_INTERVAL_MS)
   }
 
   private async syncWithQBittorrent(): Promise<void> {
@@ -149,7 +266,7 @@ class DownloadManager {
                   download.name.toLowerCase().includes(torrent.name.toLowerCase().slice(0, 20))) {
                 download.infoHash = hash
                 this.hashToId.set(hash, id)
-                this.saveState()
+                this.saveDownload(download)
                 downloadId = id
                 console.log(`Matched download "${download.name}" to torrent hash ${hash}`)
                 break
@@ -163,29 +280,46 @@ class DownloadManager {
         const download = this.downloads.get(downloadId)
         if (!download) continue
 
-        const newStatus = qbittorrentService.mapStateToStatus(torrent.state)
+        // Starting, pausing and queueing are managed here; qBittorrent only says when a download is done or failed
+        const reportedStatus = qbittorrentService.mapStateToStatus(torrent.state)
+        const newStatus = reportedStatus === 'completed' || reportedStatus === 'error' ? reportedStatus : download.status
         const progress = Math.round(torrent.progress * 100)
+        const ratio = Math.round(torrent.ratio * 100) / 100
 
-        // Check if anything changed
+        // Check if anything changed; seeding is reported once a minute
         const statusChanged = download.status !== newStatus
         const progressChanged = download.progress !== progress
+        const seedingChanged = newStatus === 'completed' && (
+          download.ratio !== ratio ||
+          Math.floor((download.seedingTime ?? 0) / 60) !== Math.floor(torrent.seeding_time / 60)
+        )
 
-        if (statusChanged || progressChanged) {
+        if (statusChanged || progressChanged || seedingChanged) {
           const updates: Partial<Download> = {
             status: newStatus,
             progress,
             downloadSpeed: torrent.dlspeed,
             uploadSpeed: torrent.upspeed,
             downloaded: torrent.downloaded,
-            size: torrent.size,
+            // Torrents added by magnet report no size until their metadata arrives
+            size: torrent.size || download.size,
             eta: torrent.eta > 0 && torrent.eta < 8640000 ? torrent.eta : undefined
           }
 
+          if (newStatus === 'completed') {
+            updates.ratio = ratio
+            updates.seedingTime = torrent.seeding_time
+          }
+
           if (newStatus === 'completed' && !download.completedAt) {
             updates.completedAt = new Date().toISOString()
           }
+          if (newStatus === 'error' && !download.failedAt) {
+            updates.failedAt = new Date().toISOString()
+          }
 
           this.updateDownload(downloadId, updates)
+          if (statusChanged) this.removeFromQueue(download)
 
           // Emit appropriate event
           if (newStatus === 'completed' && statusChanged) {
@@ -210,12 +344,206 @@ class DownloadManager {
           }
         }
       }
+
+      // Fill places freed by finished downloads, and start those whose hash was just found
+      await this.processQueue()
     } catch (error) {
       // Silently fail polling - connection might be temporarily unavailable
     }
   }
 
+  /**
+   * Queued, downloading and paused downloads in queue order
+   */
+  getQueue(): Download[] {
+    return Array.from(this.downloads.values())
+      .filter(isInQueue)
+      .sort((a, b) => a.queuePosition - b.queuePosition)
+  }
+
+  /**
+   * Run queue work after the work already scheduled
+   */
+  private runQueueTask(task: () => Promise<void>): Promise<void> {
+    this.queueTasks = this.queueTasks.then(task).catch((error) => {
+      console.error('Error processing download queue:', error)
+    })
+    return this.queueTasks
+  }
+
+  /**
+   * Bytes running downloads still need on disk
+   */
+  private getCommittedBytes(): number {
+    return this.getQueue()
+      .filter(download => download.status === 'downloading')
+      .reduce((total, download) => total + getRemainingBytes(download), 0)
+  }
+
+  /**
+   * Refuse a download that would leave less free space than the reserve, when set to refuse
+   * rather than queue such downloads
+   */
+  private checkDiskSpace(size: number | undefined): void {
+    if (config.qbittorrent.lowSpaceAction !== 'refuse' || !size) return
+
+    const required = this.getCommittedBytes() + size
+    if (!storageService.hasRoomFor(required)) {
+      throw new InsufficientSpaceError(required, storageService.getDownloadSpace()?.free ?? 0)
+    }
+  }
+
+  /**
+   * Hold a queued download back while it would eat into the disk reserve, or let it go again
+   */
+  private setWaitingForSpace(download: Download, waiting: boolean): void {
+    if (!!download.waitingForSpace === waiting) return
+
+    download.waitingForSpace = waiting
+    this.emitProgress({
+      type: 'status',
+      downloadId: download.id,
+      data: { waitingForSpace: waiting }
+    })
+    if (waiting) console.log(`Waiting for disk space: ${download.name}`)
+  }
+
+  /**
+   * Start queued downloads from the top of the queue while fewer than the maximum are running
+   * Downloads already running are never stopped to make room, and those that would leave less
+   * free space than the reserve wait; smaller ones behind them may start first
+   */
+  private processQueue(): Promise<void> {
+    return this.runQueueTask(async () => {
+      if (!config.qbittorrent.enabled) return
+
+      const queue = this.getQueue()
+      const maxActive = config.qbittorrent.maxActiveDownloads
+      let active = queue.filter(download => download.status === 'downloading').length
+      let committed = this.getCommittedBytes()
+
+      for (const download of queue) {
+        if (maxActive > 0 && active >= maxActive) break
+        // Downloads added by URL can only be started once their hash is known
+        if (download.status !== 'queued' || !download.infoHash) continue
+
+        const remaining = getRemainingBytes(download)
+        const hasRoom = storageService.hasRoomFor(committed + remaining)
+        this.setWaitingForSpace(download, !hasRoom)
+        if (!hasRoom) continue
+
+        if (!await qbittorrentService.resumeTorrent(download.infoHash)) break
+        active++
+        committed += remaining
+
+        this.updateDownload(download.id, { status: 'downloading' })
+        this.emitProgress({
+          type: 'status',
+          downloadId: download.id,
+          data: { status: 'downloading' }
+        })
+        console.log(`Started download: ${download.name}`)
+      }
+    })
+  }
+
+  /**
+   * Save the order of the queue, tell clients about it and order qBittorrent's queue the same way
+   */
+  private setQueue(queue: Download[]): void {
+    queue.forEach((download, index) => {
+      if (download.queuePosition === index) return
+      download.queuePosition = index
+      this.saveDownload(download)
+    })
+
+    this.emitProgress({ type: 'queue', queue: queue.map(download => download.id) })
+
+    if (!config.qbittorrent.enabled) return
+    const hashes = queue.filter(download => download.infoHash).map(download => download.infoHash)
+    this.runQueueTask(async () => {
+      await qbittorrentService.setQueueOrder(hashes)
+    })
+  }
+
+  /**
+   * Put a download in the queue after those of the same or higher priority
+   */
+  private addToQueue(download: Download): void {
+    const queue = this.getQueue().filter(item => item.id !== download.id)
+    let index = queue.length
+    while (index > 0 && PRIORITY_RANKS[queue[index - 1].priority] > PRIORITY_RANKS[download.priority]) index--
+    queue.splice(index, 0, download)
+    this.setQueue(queue)
+  }
+
+  // Close the gap a finished or removed download leaves in the queue
+  private removeFromQueue(download: Download): void {
+    if (isInQueue(download)) return
+    this.setQueue(this.getQueue())
+  }
+
+  /**
+   * Move a download up or down one place in the queue, or to the top
+   */
+  async moveDownload(id: string, move: QueueMove): Promise<boolean> {
+    const download = this.downloads.get(id)
+    if (!download || !isInQueue(download)) return false
+
+    const queue = this.getQueue()
+    const index = queue.indexOf(download)
+    const target = move === 'top' ? 0 : move === 'up' ? Math.max(index - 1, 0) : Math.min(index + 1, queue.length - 1)
+
+    queue.splice(index, 1)
+    queue.splice(target, 0, download)
+    this.setQueue(queue)
+    await this.processQueue()
+    return true
+  }
+
+  /**
+   * Reorder downloads in the queue
+   * The listed downloads take the places they held between them, in the order given; others stay put
+   */
+  async reorderQueue(ids: string[]): Promise<boolean> {
+    const queue = this.getQueue()
+    const listed = ids.map(id => queue.find(download => download.id === id))
+    if (listed.some(download => !download) || new Set(ids).size !== ids.length) return false
+
+    const places = listed.map(download => queue.indexOf(download!)).sort((a, b) => a - b)
+    places.forEach((place, index) => {
+      queue[place] = listed[index]!
+    })
+
+    this.setQueue(queue)
+    await this.processQueue()
+    return true
+  }
+
+  /**
+   * Change the priority of a download, moving it behind the others of its new priority
+   */
+  async setPriority(id: string, priority: DownloadPriority): Promise<boolean> {
+    const download = this.downloads.get(id)
+    if (!download || !isInQueue(download)) return false
+
+    this.updateDownload(id, { priority })
+    this.emitProgress({
+      type: 'status',
+      downloadId: id,
+      data: { priority }
+    })
+    this.addToQueue(download)
+    await this.processQueue()
+    return true
+  }
+
+  /**
+   * Add a torrent to qBittorrent, paused, and to the queue, which starts it when its turn comes
+   */
   async startDownload(request: DownloadRequest): Promise<Download> {
+    this.checkDiskSpace(request.size)
+
     const id = uuidv4()
 
     // Determine category based on media type
@@ -228,17 +556,21 @@ class DownloadManager {
       mediaType: request.mediaType,
       name: request.name || 'Unknown',
       status: 'queued',
+      priority: request.priority || 'normal',
+      queuePosition: 0,
       progress: 0,
       downloadSpeed: 0,
       uploadSpeed: 0,
-      size: 0,
+      size: request.size ?? 0,
       downloaded: 0,
       savePath: config.downloadPath,
+      indexer: request.indexer,
+      privateTracker: request.indexer ? await prowlarrService.isPrivateIndexer(request.indexer) : false,
       createdAt: new Date().toISOString()
     }
 
     this.downloads.set(id, download)
-    this.saveState()
+    this.saveDownload(download)
 
     try {
       // Check if qBittorrent is enabled
@@ -249,7 +581,8 @@ class DownloadManager {
       // Add torrent to qBittorrent
       const success = await qbittorrentService.addTorrent(request.magnetLink, {
         category,
-        savePath: config.downloadPath
+        savePath: config.downloadPath,
+        paused: true
       })
 
       if (!success) {
@@ -266,21 +599,22 @@ class DownloadManager {
         console.warn(`Could not extract info hash from magnet link`)
       }
 
-      download.status = 'downloading'
-      this.saveState()
-
+      this.saveDownload(download)
       this.emitProgress({
         type: 'status',
         downloadId: id,
-        data: { status: 'downloading', name: download.name }
+        data: { status: 'queued', name: download.name }
       })
 
-      console.log(`Started download: ${download.name} (category: ${category || 'none'})`)
+      console.log(`Queued download: ${download.name} (category: ${category || 'none'})`)
+      this.addToQueue(download)
+      await this.processQueue()
       return download
     } catch (error) {
       download.status = 'error'
       download.error = error instanceof Error ? error.message : 'Unknown error'
-      this.saveState()
+      download.failedAt = new Date().toISOString()
+      this.saveDownload(download)
 
       this.emitProgress({
         type: 'error',
@@ -293,6 +627,8 @@ class DownloadManager {
   }
 
   async startDownloadFromUrl(url: string, request: Omit<DownloadRequest, 'magnetLink'>): Promise<Download> {
+    this.checkDiskSpace(request.size)
+
     const id = uuidv4()
     const category = request.mediaType ? CATEGORIES[request.mediaType] : undefined
 
@@ -303,17 +639,21 @@ class DownloadManager {
       mediaType: request.mediaType,
       name: request.name || 'Unknown',
       status: 'queued',
+      priority: request.priority || 'normal',
+      queuePosition: 0,
       progress: 0,
       downloadSpeed: 0,
       uploadSpeed: 0,
-      size: 0,
+      size: request.size ?? 0,
       downloaded: 0,
       savePath: config.downloadPath,
+      indexer: request.indexer,
+      privateTracker: request.indexer ? await prowlarrService.isPrivateIndexer(request.indexer) : false,
       createdAt: new Date().toISOString()
     }
 
     this.downloads.set(id, download)
-    this.saveState()
+    this.saveDownload(download)
 
     try {
       if (!config.qbittorrent.enabled) {
@@ -323,28 +663,30 @@ class DownloadManager {
       // For private trackers, qBittorrent can download the .torrent file directly from URL
       const success = await qbittorrentService.addTorrent(url, {
         category,
-        savePath: config.downloadPath
+        savePath: config.downloadPath,
+        paused: true
       })
 
       if (!success) {
         throw new Error('Failed to add torrent to qBittorrent')
       }
 
-      download.status = 'downloading'
-      this.saveState()
-
       this.emitProgress({
         type: 'status',
         downloadId: id,
-        data: { status: 'downloading', name: download.name }
+        data: { status: 'queued', name: download.name }
       })
 
-      console.log(`Started download from URL: ${download.name} (category: ${category || 'none'})`)
+      // Started by the queue once its hash is matched by name
+      console.log(`Queued download from URL: ${download.name} (category: ${category || 'none'})`)
+      this.addToQueue(download)
+      await this.processQueue()
       return download
     } catch (error) {
       download.status = 'error'
       download.error = error instanceof Error ? error.message : 'Unknown error'
-      this.saveState()
+      download.failedAt = new Date().toISOString()
+      this.saveDownload(download)
       throw error
     }
   }
@@ -353,10 +695,14 @@ class DownloadManager {
     return this.downloads.get(id)
   }
 
+  /**
+   * The queue in order, followed by finished downloads, most recent first
+   */
   getAllDownloads(): Download[] {
-    return Array.from(this.downloads.values()).sort(
-      (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-    )
+    const finished = Array.from(this.downloads.values())
+      .filter(download => !isInQueue(download))
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+    return [...this.getQueue(), ...finished]
   }
 
   async pauseDownload(id: string): Promise<boolean> {
@@ -373,56 +719,217 @@ class DownloadManager {
         downloadId: id,
         data: { status: 'paused' }
       })
+      // Let the next download in the queue take its place
+      await this.processQueue()
     }
 
     return success
   }
 
+  /**
+   * Put a paused download back in the queue; it starts right away when there is room
+   */
   async resumeDownload(id: string): Promise<boolean> {
     const download = this.downloads.get(id)
-    if (!download || !download.infoHash) {
+    if (!download || !download.infoHash || download.status !== 'paused') {
       return false
     }
 
-    const success = await qbittorrentService.resumeTorrent(download.infoHash)
-    if (success) {
-      this.updateDownload(id, { status: 'downloading' })
+    this.updateDownload(id, { status: 'queued' })
+    this.emitProgress({
+      type: 'status',
+      downloadId: id,
+      data: { status: 'queued' }
+    })
+    await this.processQueue()
+
+    return true
+  }
+
+  /**
+   * The seeding rule for a download, by its category and indexer
+   */
+  getSeedingRule(download: Download): SeedingRule | null {
+    const category = download.mediaType ? CATEGORIES[download.mediaType] : ''
+    return seedingPolicyService.findRule(category, download.indexer)
+  }
+
+  /**
+   * Whether removing a download now would leave a private tracker before it has seeded enough
+   * Without a seeding rule any removal is early
+   */
+  isSeedingRequired(download: Download): boolean {
+    if (!download.privateTracker || download.status !== 'completed' || download.seedingStoppedAt) return false
+
+    const rule = this.getSeedingRule(download)
+    return !rule || !seedingPolicyService.isSatisfied(rule, download)
+  }
+
+  /**
+   * Remove torrents that have seeded as long as their rule asks
+   * Radarr/Sonarr downloads are only removed, with their files, once imported into the library;
+   * others are removed from qBittorrent but their files are kept, as they are the only copy
+   */
+  private async enforceSeedingRules(): Promise<void> {
+    if (!config.qbittorrent.enabled) return
+
+    for (const download of this.downloads.values()) {
+      if (download.status !== 'completed' || !download.infoHash || download.seedingStoppedAt) continue
+
+      const rule = this.getSeedingRule(download)
+      if (!rule || !seedingPolicyService.isSatisfied(rule, download)) continue
+
+      const service = download.mediaType === 'movie' ? radarrService : download.mediaType === 'tv' ? sonarrService : null
+      // Keep seeding until the files are in the library
+      if (service && !await service.hasImported(download.infoHash)) continue
+
+      if (!await qbittorrentService.deleteTorrent(download.infoHash, !!service)) continue
+
+      this.hashToId.delete(download.infoHash.toLowerCase())
+      this.updateDownload(download.id, {
+        downloadSpeed: 0,
+        uploadSpeed: 0,
+        seedingStoppedAt: new Date().toISOString()
+      })
       this.emitProgress({
         type: 'status',
-        downloadId: id,
-        data: { status: 'downloading' }
+        downloadId: download.id,
+        data: { seedingStoppedAt: download.seedingStoppedAt, uploadSpeed: 0 }
       })
+      console.log(`Finished seeding: ${download.name} (ratio ${download.ratio ?? 0})`)
     }
-
-    return success
   }
 
-  async cancelDownload(id: string): Promise<boolean> {
+  /**
+   * Remove a download from qBittorrent and the list, keeping it as history
+   * Files are deleted unless the download is complete, as they may be the only copy
+   */
+  async cancelDownload(id: string, options: { deleteFiles?: boolean } = {}): Promise<boolean> {
     const download = this.downloads.get(id)
     if (!download) {
       return false
     }
 
     if (download.infoHash) {
-      await qbittorrentService.deleteTorrent(download.infoHash, true)
+      if (!download.seedingStoppedAt) {
+        await qbittorrentService.deleteTorrent(download.infoHash, options.deleteFiles ?? download.status !== 'completed')
+      }
       this.hashToId.delete(download.infoHash.toLowerCase())
     }
 
+    const wasInQueue = isInQueue(download)
+    Object.assign(download, {
+      status: 'cancelled',
+      downloadSpeed: 0,
+      uploadSpeed: 0,
+      eta: undefined,
+      cancelledAt: new Date().toISOString()
+    })
+    this.saveDownload(download)
     this.downloads.delete(id)
-    this.saveState()
+
+    if (wasInQueue) {
+      this.setQueue(this.getQueue())
+      await this.processQueue()
+    }
 
     return true
   }
 
+  /**
+   * Get downloads of any status, including cancelled ones, most recent first
+   */
+  getHistory(filter: DownloadHistoryFilter): { downloads: Download[], total: number } {
+    const conditions: string[] = []
+    const params: (string | number)[] = []
+
+    if (filter.status) {
+      conditions.push('status = ?')
+      params.push(filter.status)
+    }
+    if (filter.mediaType) {
+      conditions.push('media_type = ?')
+      params.push(filter.mediaType)
+    }
+    if (filter.mediaId !== undefined) {
+      conditions.push('media_id = ?')
+      params.push(filter.mediaId)
+    }
+    if (filter.from) {
+      conditions.push('created_at >= ?')
+      params.push(filter.from)
+    }
+    if (filter.to) {
+      conditions.push('created_at < ?')
+      params.push(filter.to)
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''
+
+    try {
+      const rows = db.prepare(`
+        SELECT * FROM downloads
+        ${where}
+        ORDER BY created_at DESC, id
+        LIMIT ? OFFSET ?
+      `).all(...params, filter.limit, filter.offset) as any[]
+
+      const { total } = db.prepare(`
+        SELECT COUNT(*) AS total FROM downloads
+        ${where}
+      `).get(...params) as { total: number }
+
+      return { downloads: rows.map(row => this.mapRowToDownload(row)), total }
+    } catch (error) {
+      console.error('Error getting download history:', error)
+      return { downloads: [], total: 0 }
+    }
+  }
+
   async testQBittorrentConnection(): Promise<boolean> {
     return qbittorrentService.testConnection()
   }
 
+  private mapRowToDownload(row: any): Download {
+    return {
+      id: row.id,
+      infoHash: row.info_hash,
+      mediaId: row.media_id ?? undefined,
+      mediaType: row.media_type ?? undefined,
+      name: row.name,
+      status: row.status,
+      priority: row.priority,
+      queuePosition: row.queue_position,
+      progress: row.progress,
+      downloadSpeed: row.download_speed,
+      uploadSpeed: row.upload_speed,
+      size: row.size,
+      downloaded: row.downloaded,
+      eta: row.eta ?? undefined,
+      savePath: row.save_path,
+      indexer: row.indexer ?? undefined,
+      privateTracker: !!row.private_tracker,
+      ratio: row.ratio ?? undefined,
+      seedingTime: row.seeding_time ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      completedAt: row.completed_at ?? undefined,
+      failedAt: row.failed_at ?? undefined,
+      cancelledAt: row.cancelled_at ?? undefined,
+      seedingStoppedAt: row.seeding_stopped_at ?? undefined,
+      error: row.error ?? undefined
+    }
+  }
+
   async destroy(): Promise<void> {
     if (this.pollingInterval) {
       clearInterval(this.pollingInterval)
       this.pollingInterval = null
     }
+    if (this.seedingInterval) {
+      clearInterval(this.seedingInterval)
+      this.seedingInterval = null
+    }
   }
 }
 
@@ -0,0 +1,138 @@
+import { progressService, type EpisodeNumber, type WatchProgress } from './progressService.js'
+import { tmdbService } from './tmdbService.js'
+
+// Episodes stopped before this are not worth resuming (matches Continue Watching)
+const RESUME_MIN_POSITION_MS = 30000
+
+// Which episodes of a show a bulk change applies to
+export type EpisodeSelection =
+  | { type: 'episodes', episodes: EpisodeNumber[] }
+  | { type: 'season', seasonNumber: number }
+  // Every regular episode up to this one, with or without it
+  | { type: 'through', episode: EpisodeNumber }
+  | { type: 'before', episode: EpisodeNumber }
+  | { type: 'show' }
+
+export interface UpNextEpisode extends EpisodeNumber {
+  // Left partway through, so play resumes from positionMs
+  resume: boolean
+  positionMs: number
+  durationMs: number
+}
+
+const compareEpisodes = (a: EpisodeNumber, b: EpisodeNumber): number =>
+  a.seasonNumber - b.seasonNumber || a.episodeNumber - b.episodeNumber
+
+const getEpisodeKey = (episode: { seasonNumber: number | null, episodeNumber: number | null }): string =>
+  `${episode.seasonNumber}:${episode.episodeNumber}`
+
+const toEpisodeNumber = (progress: WatchProgress): EpisodeNumber => ({
+  seasonNumber: progress.seasonNumber!,
+  episodeNumber: progress.episodeNumber!
+})
+
+/**
+ * Narrow a list of episodes down to a selection
+ * Specials (season 0) are only part of a selection when named explicitly
+ */
+const selectEpisodes = (episodes: EpisodeNumber[], selection: EpisodeSelection): EpisodeNumber[] => {
+  switch (selection.type) {
+    case 'episodes': {
+      const keys = new Set(selection.episodes.map(getEpisodeKey))
+      return episodes.filter(episode => keys.has(getEpisodeKey(episode)))
+    }
+    case 'season':
+      return episodes.filter(episode => episode.seasonNumber === selection.seasonNumber)
+    case 'through':
+      return episodes.filter(episode => episode.seasonNumber > 0 && compareEpisodes(episode, selection.episode) <= 0)
+    case 'before':
+      return episodes.filter(episode => episode.seasonNumber > 0 && compareEpisodes(episode, selection.episode) < 0)
+    case 'show':
+      return episodes.filter(episode => episode.seasonNumber > 0)
+  }
+}
+
+class EpisodeTrackingService {
+  /**
+   * Whether resolving a selection needs the episode list from TMDB
+   */
+  needsEpisodeList(selection: EpisodeSelection): boolean {
+    return selection.type !== 'episodes'
+  }
+
+  /**
+   * Mark the selected episodes of a show watched
+   * Anything but explicit episodes is resolved against the aired episodes on TMDB;
+   * returns how many episodes changed, or null when TMDB couldn't be reached or saving failed
+   */
+  async markWatched(userId: string, tmdbId: number, selection: EpisodeSelection): Promise<number | null> {
+    let episodes: EpisodeNumber[]
+    if (selection.type === 'episodes') {
+      episodes = selection.episodes
+    } else {
+      const aired = await tmdbService.getAiredEpisodes(tmdbId)
+      if (!aired) return null
+      episodes = selectEpisodes(aired, selection)
+    }
+
+    return progressService.markEpisodesWatched(userId, tmdbId, episodes)
+  }
+
+  /**
+   * Mark the selected episodes of a show unwatched, resolved against the progress saved for it
+   * Returns how many episodes changed, or null on failure
+   */
+  unwatch(userId: string, tmdbId: number, selection: EpisodeSelection): number | null {
+    const saved = progressService.getShowProgress(userId, tmdbId).map(toEpisodeNumber)
+
+    return progressService.removeEpisodes(userId, tmdbId, selectEpisodes(saved, selection))
+  }
+
+  /**
+   * Work out the episode of a show to play next, skipping specials
+   * That is the episode left partway through, unless another one was finished since,
+   * otherwise the first unwatched aired episode after the furthest one watched.
+   * Null when caught up, or when nothing is in progress and TMDB can't list the episodes
+   */
+  async getUpNext(userId: string, tmdbId: number): Promise<UpNextEpisode | null> {
+    const progress = progressService.getShowProgress(userId, tmdbId)
+      .filter(item => item.seasonNumber !== null && item.episodeNumber !== null && item.seasonNumber > 0)
+
+    const completed = progress.filter(item => item.completed)
+    const lastCompletedAt = completed.reduce((latest, item) => item.updatedAt > latest ? item.updatedAt : latest, '')
+
+    const inProgress = progress
+      .filter(item => !item.completed && item.positionMs > RESUME_MIN_POSITION_MS && item.updatedAt >= lastCompletedAt)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0]
+
+    if (inProgress) {
+      return {
+        seasonNumber: inProgress.seasonNumber!,
+        episodeNumber: inProgress.episodeNumber!,
+        resume: true,
+        positionMs: inProgress.positionMs,
+        durationMs: inProgress.durationMs
+      }
+    }
+
+    if (!tmdbService.isEnabled()) return null
+    const aired = await tmdbService.getAiredEpisodes(tmdbId)
+    if (!aired) return null
+
+    const furthest = completed.map(toEpisodeNumber).sort(compareEpisodes).at(-1)
+    const next = aired.find(episode =>
+      episode.seasonNumber > 0 && (!furthest || compareEpisodes(episode, furthest) > 0)
+    )
+    if (!next) return null
+
+    const started = progress.find(item => getEpisodeKey(item) === getEpisodeKey(next))
+    return {
+      ...next,
+      resume: false,
+      positionMs: started?.positionMs ?? 0,
+      durationMs: started?.durationMs ?? 0
+    }
+  }
+}
+
+export const episodeTrackingService = new EpisodeTrackingService()
@@ -0,0 +1,481 @@
+import { config } from '../config.js'
+import { progressService, type CompletedPlay } from './progressService.js'
+import { radarrService } from './radarrService.js'
+import { tmdbService } from './tmdbService.js'
+
+export type HistoryFormat = 'trakt' | 'letterboxd'
+
+export const HISTORY_FORMATS: HistoryFormat[] = ['trakt', 'letterboxd']
+
+// Why an entry can't be imported or exported
+// invalid: the entry is missing its title or date
+// not_found: no TMDB title matches it
+// no_lookup: matching needs Radarr (films by title) or TMDB (shows by TVDB ID), which isn't configured
+// unsupported: the format has no place for it (Letterboxd only has films)
+export type UnmatchedReason = 'invalid' | 'not_found' | 'no_lookup' | 'unsupported'
+
+export interface UnmatchedRow {
+  // Position of the entry in the Trakt export, or line of the Letterboxd CSV
+  row: number
+  mediaType: 'movie' | 'episode'
+  title: string | null
+  year: number | null
+  seasonNumber: number | null
+  episodeNumber: number | null
+  reason: UnmatchedReason
+}
+
+export interface ImportResult {
+  format: HistoryFormat
+  dryRun: boolean
+  total: number
+  matched: number
+  // Plays written, and plays skipped because the title was already finished that day (0 on dry runs)
+  imported: number
+  duplicates: number
+  unmatched: UnmatchedRow[]
+}
+
+export interface UnexportedPlay extends CompletedPlay {
+  reason: UnmatchedReason
+}
+
+export interface ExportPreview {
+  format: HistoryFormat
+  count: number
+  unmatched: UnexportedPlay[]
+}
+
+export interface HistoryExport {
+  filename: string
+  contentType: string
+  body: string
+}
+
+interface ParsedEntry {
+  row: number
+  mediaType: 'movie' | 'episode'
+  title: string | null
+  year: number | null
+  tmdbId: number | null
+  imdbId: string | null
+  // Shows only, looked up when there's no TMDB ID
+  tvdbId: number | null
+  seasonNumber: number | null
+  episodeNumber: number | null
+  // SQLite UTC timestamp
+  watchedAt: string | null
+}
+
+// Device shown in watch history for imported plays
+const IMPORT_DEVICES: Record<HistoryFormat, string> = {
+  trakt: 'Trakt',
+  letterboxd: 'Letterboxd'
+}
+
+// Radarr lookups by search term, kept between dry runs and imports
+const MAX_CACHED_LOOKUPS = 5000
+const lookupCache = new Map<string, number>()
+
+// Entries resolved at once during an import
+const RESOLVE_CONCURRENCY = 4
+
+// Lookups made during one import, misses included, so repeated titles are only looked up once
+type RunLookups = Map<string, Promise<number | null>>
+
+const toTimestamp = (time: number): string => new Date(time).toISOString().slice(0, 19).replace('T', ' ')
+
+// ISO timestamps keep their time; plain dates ("2024-03-01") are placed at noon UTC,
+// which falls on the same day in nearly every time zone
+const parseDate = (value: unknown): string | null => {
+  if (typeof value !== 'string' || !value.trim()) return null
+  const date = value.trim()
+  const time = Date.parse(/^\d{4}-\d{2}-\d{2}$/.test(date) ? `${date}T12:00:00Z` : date)
+  return isNaN(time) ? null : toTimestamp(time)
+}
+
+const parseNumber = (value: unknown): number | null => {
+  const number = typeof value === 'number' ? value : parseInt(String(value ?? ''), 10)
+  return Number.isInteger(number) && number > 0 ? number : null
+}
+
+// Season 0 holds the specials
+const parseSeason = (value: unknown): number | null => {
+  return value === 0 || value === '0' ? 0 : parseNumber(value)
+}
+
+const parseText = (value: unknown): string | null => {
+  return typeof value === 'string' && value.trim() ? value.trim() : null
+}
+
+const normalizeTitle = (title: string): string => {
+  return title.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]/g, '')
+}
+
+/**
+ * Split CSV text into rows of fields (RFC 4180: quoted fields may hold commas,
+ * line breaks and doubled quotes)
+ */
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows
+}
+
+const toCsvField = (value: string | number): string => {
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Import and export of watch history in the formats of Trakt and Letterboxd
+ * Trakt: the JSON of a history export (or of watched movies/shows)
+ * Letterboxd: the CSV of a diary or watched export, or one made for its importer
+ */
+class HistoryTransferService {
+  /**
+   * Match the entries of an export to TMDB titles and, unless it's a dry run,
+   * mark them as watched
+   * Returns null when the file can't be read in the given format
+   */
+  async importHistory(profileId: string, format: HistoryFormat, data: string, dryRun: boolean): Promise<ImportResult | null> {
+    const entries = format === 'trakt' ? this.parseTrakt(data) : this.parseLetterboxd(data)
+    if (!entries) return null
+
+    const result: ImportResult = {
+      format,
+      dryRun,
+      total: entries.length,
+      matched: 0,
+      imported: 0,
+      duplicates: 0,
+      unmatched: []
+    }
+
+    const matches = await this.resolveAll(entries)
+
+    entries.forEach((entry, index) => {
+      const match = matches[index]
+      if (typeof match === 'string') {
+        result.unmatched.push({
+          row: entry.row,
+          mediaType: entry.mediaType,
+          title: entry.title,
+          year: entry.year,
+          seasonNumber: entry.seasonNumber,
+          episodeNumber: entry.episodeNumber,
+          reason: match
+        })
+        return
+      }
+
+      result.matched++
+      if (dryRun) return
+
+      const outcome = progressService.importPlay({
+        userId: profileId,
+        mediaType: entry.mediaType,
+        tmdbId: match,
+        seasonNumber: entry.seasonNumber,
+        episodeNumber: entry.episodeNumber,
+        watchedAt: entry.watchedAt!,
+        device: IMPORT_DEVICES[format]
+      })
+      if (outcome === 'imported') result.imported++
+      if (outcome === 'duplicate') result.duplicates++
+    })
+
+    if (result.imported > 0) {
+      progressService.notifyBulkChange(profileId)
+    }
+    if (!dryRun) {
+      console.log(`History import (profile ${profileId}, ${format}): ${result.imported} imported, ${result.duplicates} duplicates, ${result.unmatched.length} unmatched`)
+    }
+    return result
+  }
+
+  /**
+   * Count the finished plays an export would hold, with those the format can't hold
+   */
+  previewExport(profileId: string, format: HistoryFormat): ExportPreview {
+    const { plays, unmatched } = this.getExportablePlays(profileId, format)
+    return { format, count: plays.length, unmatched }
+  }
+
+  exportHistory(profileId: string, format: HistoryFormat): HistoryExport {
+    const { plays } = this.getExportablePlays(profileId, format)
+    const date = new Date().toISOString().slice(0, 10)
+
+    if (format === 'trakt') {
+      const history = plays.map(play => {
+        const watched_at = new Date(`${play.watchedAt.replace(' ', 'T')}Z`).toISOString()
+        return play.mediaType === 'movie'
+          ? { watched_at, action: 'watch', type: 'movie', movie: { ids: { tmdb: play.tmdbId } } }
+          : {
+              watched_at,
+              action: 'watch',
+              type: 'episode',
+              episode: { season: play.seasonNumber, number: play.episodeNumber },
+              show: { ids: { tmdb: play.tmdbId } }
+            }
+      })
+
+      return {
+        filename: `watched-history-${date}.json`,
+        contentType: 'application/json',
+        body: JSON.stringify(history, null, 2)
+      }
+    }
+
+    // Columns of the Letterboxd importer; plays after the first of a film are rewatches
+    const seen = new Set<number>()
+    const lines = [['tmdbID', 'WatchedDate', 'Rewatch'].join(',')]
+    for (const play of plays) {
+      lines.push([play.tmdbId, play.watchedAt.slice(0, 10), seen.has(play.tmdbId) ? 'Yes' : ''].map(toCsvField).join(','))
+      seen.add(play.tmdbId)
+    }
+
+    return {
+      filename: `letterboxd-diary-${date}.csv`,
+      contentType: 'text/csv',
+      body: `${lines.join('\n')}\n`
+    }
+  }
+
+  private getExportablePlays(profileId: string, format: HistoryFormat): { plays: CompletedPlay[], unmatched: UnexportedPlay[] } {
+    const plays: CompletedPlay[] = []
+    const unmatched: UnexportedPlay[] = []
+
+    for (const play of progressService.getCompletedPlays(profileId)) {
+      if (format === 'letterboxd' && play.mediaType !== 'movie') {
+        unmatched.push({ ...play, reason: 'unsupported' })
+      } else {
+        plays.push(play)
+      }
+    }
+    return { plays, unmatched }
+  }
+
+  /**
+   * Entries of a Trakt history export, or of its watched movies/shows lists
+   */
+  private parseTrakt(data: string): ParsedEntry[] | null {
+    let items: unknown
+    try {
+      items = JSON.parse(data)
+    } catch {
+      return null
+    }
+    if (!Array.isArray(items)) return null
+
+    const entries: ParsedEntry[] = []
+    items.forEach((item: any, index) => {
+      const row = index + 1
+      const movie = item?.movie
+      const show = item?.show
+
+      // Watched shows list: one entry per watched episode
+      if (show && Array.isArray(item.seasons)) {
+        for (const season of item.seasons) {
+          for (const episode of Array.isArray(season?.episodes) ? season.episodes : []) {
+            entries.push({
+              row,
+              mediaType: 'episode',
+              title: parseText(show.title),
+              year: parseNumber(show.year),
+              tmdbId: parseNumber(show.ids?.tmdb),
+              imdbId: null,
+              tvdbId: parseNumber(show.ids?.tvdb),
+              seasonNumber: parseSeason(season.number),
+              episodeNumber: parseNumber(episode?.number),
+              watchedAt: parseDate(episode?.last_watched_at ?? item.last_watched_at)
+            })
+          }
+        }
+        return
+      }
+
+      const isEpisode = item?.type === 'episode' || (!movie && item?.episode)
+      const source = isEpisode ? show : movie
+
+      entries.push({
+        row,
+        mediaType: isEpisode ? 'episode' : 'movie',
+        title: parseText(source?.title),
+        year: parseNumber(source?.year),
+        tmdbId: parseNumber(source?.ids?.tmdb),
+        imdbId: isEpisode ? null : parseText(source?.ids?.imdb),
+        tvdbId: isEpisode ? parseNumber(source?.ids?.tvdb) : null,
+        seasonNumber: isEpisode ? parseSeason(item?.episode?.season) : null,
+        episodeNumber: isEpisode ? parseNumber(item?.episode?.number) : null,
+        // History entries have watched_at; watched movies list their last play
+        watchedAt: parseDate(item?.watched_at ?? item?.last_watched_at)
+      })
+    })
+    return entries
+  }
+
+  /**
+   * Rows of a Letterboxd CSV: its diary (Watched Date) or watched list (Date),
+   * or the importer format with tmdbID/imdbID columns
+   */
+  private parseLetterboxd(data: string): ParsedEntry[] | null {
+    const [header, ...rows] = parseCsv(data.replace(/^\uFEFF/, ''))
+    if (!header) return null
+
+    const columns = header.map(name => name.toLowerCase().replace(/\s+/g, ''))
+    const column = (...names: string[]): number => {
+      const index = names.map(name => columns.indexOf(name)).find(i => i !== -1)
+      return index ?? -1
+    }
+
+    const titleColumn = column('name', 'title')
+    const yearColumn = column('year')
+    const tmdbColumn = column('tmdbid')
+    const imdbColumn = column('imdbid')
+    const dateColumn = column('watcheddate', 'date')
+
+    if ((titleColumn === -1 && tmdbColumn === -1 && imdbColumn === -1) || dateColumn === -1) return null
+
+    const entries: ParsedEntry[] = []
+    rows.forEach((fields, index) => {
+      if (fields.every(field => !field.trim())) return
+      const field = (i: number): string | null => (i === -1 ? null : parseText(fields[i]))
+
+      entries.push({
+        // Line in the file, counting the header
+        row: index + 2,
+        mediaType: 'movie',
+        title: field(titleColumn),
+        year: parseNumber(field(yearColumn)),
+        tmdbId: parseNumber(field(tmdbColumn)),
+        imdbId: field(imdbColumn),
+        tvdbId: null,
+        seasonNumber: null,
+        episodeNumber: null,
+        watchedAt: parseDate(field(dateColumn))
+      })
+    })
+    return entries
+  }
+
+  /**
+   * Resolve every entry, a few at a time, keeping their order
+   */
+  private async resolveAll(entries: ParsedEntry[]): Promise<(number | UnmatchedReason)[]> {
+    const lookups: RunLookups = new Map()
+    const matches: (number | UnmatchedReason)[] = new Array(entries.length)
+    let next = 0
+
+    const worker = async () => {
+      while (next < entries.length) {
+        const index = next++
+        matches[index] = await this.resolve(entries[index], lookups)
+      }
+    }
+    await Promise.all(Array.from({ length: RESOLVE_CONCURRENCY }, worker))
+    return matches
+  }
+
+  /**
+   * Find the TMDB ID of an entry, or why there is none
+   * Movies without one are looked up through Radarr by IMDb ID or title and year,
+   * shows through TMDB by their TVDB ID
+   */
+  private async resolve(entry: ParsedEntry, lookups: RunLookups): Promise<number | UnmatchedReason> {
+    if (!entry.watchedAt) return 'invalid'
+    if (entry.mediaType === 'episode') {
+      if (entry.seasonNumber === null || entry.episodeNumber === null) return 'invalid'
+      if (entry.tmdbId) return entry.tmdbId
+      if (!entry.tvdbId) return 'not_found'
+      if (!tmdbService.isEnabled()) return 'no_lookup'
+
+      const tvdbId = entry.tvdbId
+      const tmdbId = await this.lookupOnce(lookups, `tvdb:${tvdbId}`, () => tmdbService.findShowByTvdbId(tvdbId))
+      return tmdbId ?? 'not_found'
+    }
+    if (entry.tmdbId) return entry.tmdbId
+
+    if (!entry.imdbId && !entry.title) return 'invalid'
+    if (!config.radarr.enabled) return 'no_lookup'
+
+    if (entry.imdbId) {
+      const term = `imdb:${entry.imdbId}`
+      const tmdbId = await this.lookupOnce(lookups, term, () => this.lookup(term, () => true))
+      if (tmdbId) return tmdbId
+    }
+    if (!entry.title) return 'not_found'
+
+    const entryTitle = entry.title
+    const title = normalizeTitle(entryTitle)
+    const term = entry.year ? `${entryTitle} ${entry.year}` : entryTitle
+    const tmdbId = await this.lookupOnce(lookups, `title:${title}:${entry.year ?? ''}`, () => this.lookup(term, movie =>
+      (!entry.year || movie.year === entry.year) &&
+      (normalizeTitle(movie.title) === title || normalizeTitle(movie.originalTitle || '') === title)
+    ))
+    return tmdbId ?? 'not_found'
+  }
+
+  /**
+   * Run a lookup once per import; rows resolved at the same time share it
+   */
+  private lookupOnce(lookups: RunLookups, key: string, find: () => Promise<number | null>): Promise<number | null> {
+    let lookup = lookups.get(key)
+    if (!lookup) {
+      lookup = find()
+      lookups.set(key, lookup)
+    }
+    return lookup
+  }
+
+  private async lookup(
+    term: string,
+    isMatch: (movie: { title: string, originalTitle: string, year: number }) => boolean
+  ): Promise<number | null> {
+    const cached = lookupCache.get(term)
+    if (cached) return cached
+
+    const movie = (await radarrService.searchMovies(term)).find(result => result.tmdbId && isMatch(result))
+    if (!movie) return null
+
+    if (lookupCache.size >= MAX_CACHED_LOOKUPS) lookupCache.clear()
+    lookupCache.set(term, movie.tmdbId)
+    return movie.tmdbId
+  }
+}
+
+export const historyTransferService = new HistoryTransferService()
@@ -0,0 +1,242 @@
+import db from '../db/index.js'
+import { config } from '../config.js'
+import { jellyfinService, type JellyfinLibraryItem } from './jellyfinService.js'
+
+// Items listed per request while indexing
+const PAGE_SIZE = 500
+
+// The whole index is rebuilt this often, which also drops items removed from Jellyfin
+const FULL_REFRESH_INTERVAL_MS = 24 * 60 * 60 * 1000
+
+// Jellyfin scans in the background after a library refresh; give it time before updating
+const REFRESH_AFTER_SCAN_DELAY_MS = 60 * 1000
+
+// Look back a little further than the last update, in case the clocks disagree
+const CHANGED_SINCE_MARGIN_MS = 5 * 60 * 1000
+
+const getFileName = (filePath: string): string => filePath.split(/[\\/]/).pop() || filePath
+
+// SQLite timestamps are UTC without a zone suffix
+const toTimestamp = (time: number): string => new Date(time).toISOString().slice(0, 19).replace('T', ' ')
+
+/**
+ * Index of Jellyfin items by TMDB/TVDB id and file path, kept in the database
+ * Rebuilt daily and updated with the items changed since the last update in between
+ */
+class JellyfinIndexService {
+  private timer: ReturnType<typeof setInterval> | null = null
+  private scanTimer: ReturnType<typeof setTimeout> | null = null
+  private refreshing: Promise<void> | null = null
+  private lastFullRefreshAt = 0
+  private lastRefreshAt = 0
+
+  start(): void {
+    if (this.timer || !config.jellyfin.enabled) return
+
+    this.refresh()
+    if (config.jellyfin.indexIntervalMinutes <= 0) return
+
+    this.timer = setInterval(() => {
+      this.refresh()
+    }, config.jellyfin.indexIntervalMinutes * 60 * 1000)
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    if (this.scanTimer) {
+      clearTimeout(this.scanTimer)
+      this.scanTimer = null
+    }
+  }
+
+  /**
+   * Update the index once Jellyfin has had time to scan its library
+   */
+  refreshAfterScan(): void {
+    if (this.scanTimer) clearTimeout(this.scanTimer)
+    this.scanTimer = setTimeout(() => {
+      this.scanTimer = null
+      this.refresh()
+    }, REFRESH_AFTER_SCAN_DELAY_MS)
+  }
+
+  /**
+   * Update the index, rebuilding it when the last rebuild is a day old
+   * With full: false only changed items are fetched; joins an update already in progress
+   */
+  refresh(options: { full?: boolean } = {}): Promise<void> {
+    if (!this.refreshing) {
+      const full = options.full ?? Date.now() - this.lastFullRefreshAt >= FULL_REFRESH_INTERVAL_MS
+      this.refreshing = this.runRefresh(full).finally(() => {
+        this.refreshing = null
+      })
+    }
+    return this.refreshing
+  }
+
+  /**
+   * Find the Jellyfin item of a movie by TMDB id, or else by the path of its file
+   * Items not indexed yet are looked for again after updating the index
+   */
+  async findMovie(tmdbId: number, filePath: string): Promise<string | null> {
+    const lookup = () => this.findMovieByTmdbId(tmdbId) ?? this.findByPath('movie', filePath)
+
+    const itemId = lookup()
+    if (itemId) return itemId
+
+    await this.refresh({ full: false })
+    return lookup()
+  }
+
+  /**
+   * Find the Jellyfin item of an episode by its series' TMDB or TVDB id, or else by the path of its file
+   */
+  async findEpisode(
+    series: { tmdbId: number, tvdbId: number | null },
+    seasonNumber: number,
+    episodeNumber: number,
+    filePath: string
+  ): Promise<string | null> {
+    const lookup = () =>
+      this.findEpisodeByProviderId(series, seasonNumber, episodeNumber) ?? this.findByPath('episode', filePath)
+
+    const itemId = lookup()
+    if (itemId) return itemId
+
+    await this.refresh({ full: false })
+    return lookup()
+  }
+
+  private async runRefresh(full: boolean): Promise<void> {
+    const startedAt = Date.now()
+    const changedSince = full || !this.lastRefreshAt
+      ? undefined
+      : new Date(this.lastRefreshAt - CHANGED_SINCE_MARGIN_MS).toISOString()
+
+    let indexed = 0
+    for (let startIndex = 0; ; startIndex += PAGE_SIZE) {
+      const page = await jellyfinService.getLibraryItems({ startIndex, limit: PAGE_SIZE, changedSince })
+      // Keep what's indexed when Jellyfin can't be reached; the next update tries again
+      if (!page) return
+
+      this.save(page.items)
+      indexed += page.items.length
+      if (page.items.length < PAGE_SIZE || startIndex + PAGE_SIZE >= page.total) break
+    }
+
+    if (full) {
+      this.removeIndexedBefore(startedAt)
+      this.lastFullRefreshAt = startedAt
+    }
+    this.lastRefreshAt = startedAt
+    console.log(`Jellyfin: Indexed ${indexed} ${full ? 'items' : 'changed items'}`)
+  }
+
+  private findMovieByTmdbId(tmdbId: number): string | null {
+    try {
+      const row = db.prepare(`
+        SELECT item_id FROM jellyfin_items
+        WHERE item_type = 'movie' AND tmdb_id = ?
+        ORDER BY indexed_at DESC
+      `).get(tmdbId) as { item_id: string } | undefined
+      return row?.item_id ?? null
+    } catch (error) {
+      console.error('Error finding Jellyfin item:', error)
+      return null
+    }
+  }
+
+  private findEpisodeByProviderId(
+    series: { tmdbId: number, tvdbId: number | null },
+    seasonNumber: number,
+    episodeNumber: number
+  ): string | null {
+    try {
+      const row = db.prepare(`
+        SELECT episode.item_id FROM jellyfin_items episode
+        JOIN jellyfin_items series ON series.item_id = episode.series_id
+        WHERE episode.item_type = 'episode'
+          AND episode.season_number = ? AND episode.episode_number = ?
+          AND series.item_type = 'series'
+          AND (series.tmdb_id = ? OR series.tvdb_id = ?)
+        ORDER BY series.tmdb_id = ? DESC, episode.indexed_at DESC
+      `).get(seasonNumber, episodeNumber, series.tmdbId, series.tvdbId, series.tmdbId) as { item_id: string } | undefined
+      return row?.item_id ?? null
+    } catch (error) {
+      console.error('Error finding Jellyfin episode:', error)
+      return null
+    }
+  }
+
+  /**
+   * Match by full path, or by file name since Radarr/Sonarr and Jellyfin may mount the media elsewhere
+   */
+  private findByPath(type: 'movie' | 'episode', filePath: string): string | null {
+    try {
+      const row = db.prepare(`
+        SELECT item_id FROM jellyfin_items
+        WHERE item_type = ? AND (path = ? OR file_name = ?)
+        ORDER BY path = ? DESC
+      `).get(type, filePath, getFileName(filePath), filePath) as { item_id: string } | undefined
+      return row?.item_id ?? null
+    } catch (error) {
+      console.error('Error finding Jellyfin item by path:', error)
+      return null
+    }
+  }
+
+  private save(items: JellyfinLibraryItem[]): void {
+    try {
+      const upsert = db.prepare(`
+        INSERT INTO jellyfin_items (
+          item_id, item_type, tmdb_id, tvdb_id, series_id,
+          season_number, episode_number, path, file_name, indexed_at
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(item_id) DO UPDATE SET
+          item_type = excluded.item_type,
+          tmdb_id = excluded.tmdb_id,
+          tvdb_id = excluded.tvdb_id,
+          series_id = excluded.series_id,
+          season_number = excluded.season_number,
+          episode_number = excluded.episode_number,
+          path = excluded.path,
+          file_name = excluded.file_name,
+          indexed_at = excluded.indexed_at
+      `)
+      const indexedAt = toTimestamp(Date.now())
+
+      db.transaction(() => {
+        for (const item of items) {
+          upsert.run(
+            item.itemId,
+            item.type,
+            item.tmdbId,
+            item.tvdbId,
+            item.seriesId,
+            item.seasonNumber,
+            item.episodeNumber,
+            item.path,
+            item.path ? getFileName(item.path) : null,
+            indexedAt
+          )
+        }
+      })()
+    } catch (error) {
+      console.error('Error saving Jellyfin items:', error)
+    }
+  }
+
+  private removeIndexedBefore(time: number): void {
+    try {
+      db.prepare('DELETE FROM jellyfin_items WHERE indexed_at < ?').run(toTimestamp(time))
+    } catch (error) {
+      console.error('Error removing Jellyfin items:', error)
+    }
+  }
+}
+
+export const jellyfinIndexService = new JellyfinIndexService()
@@ -1,15 +1,8 @@
 import axios, { AxiosInstance } from 'axios'
 import { config } from '../config.js'
+import { createStreamToken, withStreamToken, STREAM_TOKEN_PARAM } from '../utils/streamTokens.js'
 
 // Jellyfin API response types
-interface JellyfinItem {
-  Id: string
-  Name: string
-  Type: string
-  Path?: string
-  MediaSources?: MediaSource[]
-}
-
 interface MediaSource {
   Id: string
   Path: string
@@ -24,6 +17,19 @@ interface MediaSource {
   DirectStreamUrl?: string
 }
 
+interface JellyfinChapter {
+  Name?: string
+  StartPositionTicks: number
+}
+
+interface JellyfinMediaSegment {
+  Type: string
+  StartTicks: number
+}
+
+// Chapter names that mark the end credits
+const CREDITS_CHAPTER_PATTERN = /credits|outro|end ?titles/i
+
 interface MediaStream {
   Type: 'Video' | 'Audio' | 'Subtitle'
   Index: number
@@ -51,6 +57,68 @@ interface MediaStream {
   DeliveryUrl?: string
 }
 
+// Item as listed for the library index
+interface JellyfinIndexedItem {
+  Id: string
+  Type: 'Movie' | 'Episode' | 'Series'
+  ProviderIds?: Record<string, string>
+  Path?: string
+  SeriesId?: string
+  ParentIndexNumber?: number
+  IndexNumber?: number
+}
+
+// Item as listed for a user, with that user's watched state
+interface JellyfinUserItem {
+  Id: string
+  Type: 'Movie' | 'Episode' | 'Series'
+  ProviderIds?: Record<string, string>
+  SeriesId?: string
+  ParentIndexNumber?: number
+  IndexNumber?: number
+  RunTimeTicks?: number
+  UserData?: {
+    Played: boolean
+    PlaybackPositionTicks: number
+    LastPlayedDate?: string
+  }
+}
+
+// Jellyfin durations and positions are in ticks of 100 nanoseconds
+const TICKS_PER_MS = 10000
+
+export interface JellyfinUser {
+  id: string
+  name: string
+}
+
+// A movie or episode, identified by TMDB ID, with one user's watched state
+export interface JellyfinWatchItem {
+  itemId: string
+  mediaType: 'movie' | 'episode'
+  tmdbId: number
+  seasonNumber: number | null
+  episodeNumber: number | null
+  played: boolean
+  positionMs: number
+  durationMs: number
+  // ISO timestamp, missing when the item was never played
+  lastPlayedAt: string | null
+}
+
+// A movie, episode or series with what it can be looked up by
+export interface JellyfinLibraryItem {
+  itemId: string
+  type: 'movie' | 'episode' | 'series'
+  // Episodes have none of their own; their series has
+  tmdbId: number | null
+  tvdbId: number | null
+  seriesId: string | null
+  seasonNumber: number | null
+  episodeNumber: number | null
+  path: string | null
+}
+
 interface PlaybackInfoResponse {
   MediaSources: MediaSource[]
   PlaySessionId: string
@@ -61,7 +129,6 @@ export interface JellyfinPlaybackInfo {
   mediaSourceId: string
   playSessionId: string
   hlsUrl: string
-  directUrl: string
   mediaSource: MediaSource
   audioTracks: {
     id: number
@@ -90,6 +157,8 @@ export interface JellyfinPlaybackInfo {
     container: string
   }
   duration: number
+  // Where the end credits start, when Jellyfin knows
+  creditsStartMs: number | null
 }
 
 class JellyfinService {
@@ -155,102 +224,6 @@ class JellyfinService {
     }
   }
 
-  /**
-   * Search for a movie by file path (from Radarr)
-   * Uses filename matching since paths may differ between Radarr and Jellyfin
-   */
-  async findMovieByPath(filePath: string): Promise<JellyfinItem | null> {
-    try {
-      // Extract filename for matching (more reliable than full path)
-      const filename = filePath.split('/').pop() || filePath
-
-      const response = await this.client.get('/Items', {
-        params: {
-          Recursive: true,
-          IncludeItemTypes: 'Movie',
-          Fields: 'Path,MediaSources,MediaStreams'
-        }
-      })
-
-      const items = response.data.Items as JellyfinItem[]
-
-      // Try exact path match first
-      let found = items.find(item => {
-        if (item.Path === filePath) return true
-        if (item.MediaSources?.[0]?.Path === filePath) return true
-        return false
-      })
-
-      // Fall back to filename matching
-      if (!found) {
-        found = items.find(item => {
-          const itemFilename = item.Path?.split('/').pop() || ''
-          const mediaSourceFilename = item.MediaSources?.[0]?.Path?.split('/').pop() || ''
-          return itemFilename === filename || mediaSourceFilename === filename
-        })
-      }
-
-      if (found) {
-        console.log(`Jellyfin: Found movie "${found.Name}" for path ${filePath}`)
-      } else {
-        console.log(`Jellyfin: Movie not found for path ${filePath} (filename: ${filename})`)
-        console.log(`Jellyfin: Searched ${items.length} movies`)
-      }
-      return found || null
-    } catch (error) {
-      console.error('Jellyfin findMovieByPath error:', error)
-      return null
-    }
-  }
-
-  /**
-   * Search for an episode by file path (from Sonarr)
-   * Uses filename matching since paths may differ between Sonarr and Jellyfin
-   */
-  async findEpisodeByPath(filePath: string): Promise<JellyfinItem | null> {
-    try {
-      // Extract filename for matching (more reliable than full path)
-      const filename = filePath.split('/').pop() || filePath
-
-      const response = await this.client.get('/Items', {
-        params: {
-          Recursive: true,
-          IncludeItemTypes: 'Episode',
-          Fields: 'Path,MediaSources,MediaStreams'
-        }
-      })
-
-      const items = response.data.Items as JellyfinItem[]
-
-      // Try exact path match first
-      let found = items.find(item => {
-        if (item.Path === filePath) return true
-        if (item.MediaSources?.[0]?.Path === filePath) return true
-        return false
-      })
-
-      // Fall back to filename matching
-      if (!found) {
-        found = items.find(item => {
-          const itemFilename = item.Path?.split('/').pop() || ''
-          const mediaSourceFilename = item.MediaSources?.[0]?.Path?.split('/').pop() || ''
-          return itemFilename === filename || mediaSourceFilename === filename
-        })
-      }
-
-      if (found) {
-        console.log(`Jellyfin: Found episode "${found.Name}" for path ${filePath}`)
-      } else {
-        console.log(`Jellyfin: Episode not found for path ${filePath} (filename: ${filename})`)
-        console.log(`Jellyfin: Searched ${items.length} episodes`)
-      }
-      return found || null
-    } catch (error) {
-      console.error('Jellyfin findEpisodeByPath error:', error)
-      return null
-    }
-  }
-
   /**
    * Get playback info with stream URLs
    */
@@ -290,8 +263,6 @@ class JellyfinService {
       }
 
       const playSessionId = response.data.PlaySessionId
-      // Use external URL for browser-accessible stream URLs
-      const baseUrl = config.jellyfin.externalUrl
 
       // Get video stream info to determine optimal transcoding settings
       const videoStream = mediaSource.MediaStreams.find(s => s.Type === 'Video')
@@ -320,8 +291,9 @@ class JellyfinService {
         ? 'ContainerNotSupported,VideoCodecNotSupported,AudioCodecNotSupported,VideoRangeTypeNotSupported'
         : 'ContainerNotSupported,VideoCodecNotSupported,AudioCodecNotSupported'
 
+      // The proxy adds the Jellyfin API key server-side; the browser only gets a signed token
+      const streamToken = createStreamToken(itemId, playSessionId)
       const hlsParams = new URLSearchParams({
-        api_key: config.jellyfin.apiKey,
         MediaSourceId: mediaSource.Id,
         PlaySessionId: playSessionId,
         AudioStreamIndex: String(options.audioStreamIndex ?? 0),
@@ -367,20 +339,14 @@ class JellyfinService {
         hlsParams.set('StartTimeTicks', String(options.startTimeTicks))
       }
 
+      hlsParams.set(STREAM_TOKEN_PARAM, streamToken)
+
       // Use proxy URL to bypass browser Private Network Access restrictions
       // The backend will proxy the HLS stream from Jellyfin
       // Use absolute URL so browser can reach the backend directly (not through frontend nginx)
       const backendUrl = config.externalUrl.replace(/\/$/, '')
       const hlsUrl = `${backendUrl}/api/proxy/hls/${itemId}/master.m3u8?${hlsParams.toString()}`
 
-      // Build direct stream URL (if compatible)
-      const directParams = new URLSearchParams({
-        api_key: config.jellyfin.apiKey,
-        Static: 'true',
-        MediaSourceId: mediaSource.Id
-      })
-      const directUrl = `${baseUrl}/Videos/${itemId}/stream?${directParams.toString()}`
-
       // Extract audio tracks
       const audioTracks = mediaSource.MediaStreams
         .filter(s => s.Type === 'Audio')
@@ -400,7 +366,10 @@ class JellyfinService {
         .filter(s => s.Type === 'Subtitle')
         .map((s, idx) => {
           // Build subtitle URL using proxy endpoint (absolute URL)
-          const subtitleUrl = `${backendUrl}/api/proxy/subtitles/${itemId}/${mediaSource.Id}/${s.Index}/Stream.vtt`
+          const subtitleUrl = withStreamToken(
+            `${backendUrl}/api/proxy/subtitles/${itemId}/${mediaSource.Id}/${s.Index}/Stream.vtt`,
+            streamToken
+          )
 
           return {
             id: idx,
@@ -416,12 +385,14 @@ class JellyfinService {
       // Get audio stream info (videoStream already defined above)
       const audioStream = mediaSource.MediaStreams.find(s => s.Type === 'Audio')
 
+      const duration = Math.floor(mediaSource.RunTimeTicks / 10000) // Convert to ms
+      const creditsStartMs = await this.getCreditsStart(itemId, userId, duration)
+
       return {
         jellyfinItemId: itemId,
         mediaSourceId: mediaSource.Id,
         playSessionId,
         hlsUrl,
-        directUrl,
         mediaSource,
         audioTracks,
         subtitles,
@@ -432,7 +403,8 @@ class JellyfinService {
           audioCodec: audioStream?.Codec || 'aac',
           container: mediaSource.Container
         },
-        duration: Math.floor(mediaSource.RunTimeTicks / 10000) // Convert to ms
+        duration,
+        creditsStartMs
       }
     } catch (error) {
       console.error('Jellyfin getPlaybackInfo error:', error)
@@ -440,12 +412,64 @@ class JellyfinService {
     }
   }
 
+  /**
+   * Find where the end credits of an item start, in ms
+   * Uses the outro media segment (Jellyfin 10.10+), falling back to a chapter named like credits;
+   * only the second half of the runtime counts, so opening credits are skipped
+   */
+  private async getCreditsStart(itemId: string, userId: string, durationMs: number): Promise<number | null> {
+    const isEndCredits = (startMs: number) => startMs > durationMs / 2 && startMs < durationMs
+
+    try {
+      const response = await this.client.get<{ Items: JellyfinMediaSegment[] }>(`/MediaSegments/${itemId}`, {
+        params: { includeSegmentTypes: 'Outro' }
+      })
+      const outro = response.data.Items
+        .map(segment => Math.floor(segment.StartTicks / 10000))
+        .find(isEndCredits)
+      if (outro !== undefined) return outro
+    } catch {
+      // Older servers have no media segments; try the chapters
+    }
+
+    try {
+      const response = await this.client.get<{ Chapters?: JellyfinChapter[] }>(`/Users/${userId}/Items/${itemId}`)
+      const chapter = (response.data.Chapters || [])
+        .filter(c => CREDITS_CHAPTER_PATTERN.test(c.Name || ''))
+        .map(c => Math.floor(c.StartPositionTicks / 10000))
+        .find(isEndCredits)
+      return chapter ?? null
+    } catch (error: any) {
+      console.error('Jellyfin: Error getting chapters:', error.message)
+      return null
+    }
+  }
+
+  /**
+   * Get an item's content rating; episodes without one use their series' rating
+   */
+  async getOfficialRating(itemId: string): Promise<string | null> {
+    const userId = await this.getUserId()
+    if (!userId) return null
+
+    try {
+      const response = await this.client.get<{ OfficialRating?: string, SeriesId?: string }>(`/Users/${userId}/Items/${itemId}`)
+      const { OfficialRating, SeriesId } = response.data
+      if (OfficialRating || !SeriesId) return OfficialRating || null
+
+      const series = await this.client.get<{ OfficialRating?: string }>(`/Users/${userId}/Items/${SeriesId}`)
+      return series.data.OfficialRating || null
+    } catch (error: any) {
+      console.error('Jellyfin: Error getting content rating:', error.message)
+      return null
+    }
+  }
+
   /**
    * Get a new HLS URL with different audio track
    */
   getHlsUrlWithAudioTrack(itemId: string, mediaSourceId: string, playSessionId: string, audioStreamIndex: number): string {
     const params = new URLSearchParams({
-      api_key: config.jellyfin.apiKey,
       MediaSourceId: mediaSourceId,
       PlaySessionId: playSessionId,
       AudioStreamIndex: String(audioStreamIndex),
@@ -481,7 +505,8 @@ class JellyfinService {
       'av1-rangetype': 'SDR,HDR10,HLG',
       'av1-level': '19',
       // VP9 profile settings
-      'vp9-rangetype': 'SDR,HDR10,HLG'
+      'vp9-rangetype': 'SDR,HDR10,HLG',
+      [STREAM_TOKEN_PARAM]: createStreamToken(itemId, playSessionId)
     })
     // Use proxy URL to bypass browser Private Network Access restrictions
     const backendUrl = config.externalUrl.replace(/\/$/, '')
@@ -547,6 +572,137 @@ class JellyfinService {
       console.error('Jellyfin refreshLibrary error:', error)
     }
   }
+
+  /**
+   * List a page of movies, episodes and series with their provider ids and paths
+   * With changedSince (ISO timestamp), only items saved since then
+   */
+  async getLibraryItems(options: { startIndex: number, limit: number, changedSince?: string }): Promise<{ items: JellyfinLibraryItem[], total: number } | null> {
+    try {
+      const response = await this.client.get('/Items', {
+        params: {
+          Recursive: true,
+          IncludeItemTypes: 'Movie,Episode,Series',
+          Fields: 'ProviderIds,Path',
+          StartIndex: options.startIndex,
+          Limit: options.limit,
+          MinDateLastSaved: options.changedSince
+        }
+      })
+
+      const toId = (value: string | undefined): number | null => parseInt(value || '', 10) || null
+
+      const items = (response.data.Items as JellyfinIndexedItem[]).map((item): JellyfinLibraryItem => ({
+        itemId: item.Id,
+        type: item.Type === 'Movie' ? 'movie' : item.Type === 'Episode' ? 'episode' : 'series',
+        tmdbId: toId(item.ProviderIds?.Tmdb),
+        tvdbId: toId(item.ProviderIds?.Tvdb),
+        seriesId: item.SeriesId || null,
+        seasonNumber: item.ParentIndexNumber ?? null,
+        episodeNumber: item.IndexNumber ?? null,
+        path: item.Path || null
+      }))
+
+      return { items, total: response.data.TotalRecordCount ?? items.length }
+    } catch (error) {
+      console.error('Jellyfin getLibraryItems error:', error)
+      return null
+    }
+  }
+
+  /**
+   * List the Jellyfin server's users
+   */
+  async getUsers(): Promise<JellyfinUser[] | null> {
+    try {
+      const response = await this.client.get('/Users')
+      const users = response.data as Array<{ Id: string; Name: string }>
+      return users.map(user => ({ id: user.Id, name: user.Name }))
+    } catch (error) {
+      console.error('Jellyfin getUsers error:', error)
+      return null
+    }
+  }
+
+  /**
+   * Get every movie and episode with a user's watched state
+   * Episodes are identified by their series' TMDB ID; items without one are counted as unmatched
+   */
+  async getWatchItems(userId: string): Promise<{ items: JellyfinWatchItem[], unmatched: number } | null> {
+    try {
+      const [videos, series] = await Promise.all([
+        this.client.get(`/Users/${userId}/Items`, {
+          params: {
+            Recursive: true,
+            IncludeItemTypes: 'Movie,Episode',
+            Fields: 'ProviderIds',
+            EnableUserData: true
+          }
+        }),
+        this.client.get(`/Users/${userId}/Items`, {
+          params: {
+            Recursive: true,
+            IncludeItemTypes: 'Series',
+            Fields: 'ProviderIds'
+          }
+        })
+      ])
+
+      const seriesTmdbIds = new Map<string, number>()
+      for (const show of series.data.Items as JellyfinUserItem[]) {
+        const tmdbId = parseInt(show.ProviderIds?.Tmdb || '', 10)
+        if (tmdbId) seriesTmdbIds.set(show.Id, tmdbId)
+      }
+
+      const items: JellyfinWatchItem[] = []
+      let unmatched = 0
+
+      for (const item of videos.data.Items as JellyfinUserItem[]) {
+        const isEpisode = item.Type === 'Episode'
+        const tmdbId = isEpisode
+          ? (item.SeriesId && seriesTmdbIds.get(item.SeriesId)) || 0
+          : parseInt(item.ProviderIds?.Tmdb || '', 10)
+
+        if (!tmdbId || (isEpisode && (item.ParentIndexNumber === undefined || item.IndexNumber === undefined))) {
+          unmatched++
+          continue
+        }
+
+        items.push({
+          itemId: item.Id,
+          mediaType: isEpisode ? 'episode' : 'movie',
+          tmdbId,
+          seasonNumber: isEpisode ? item.ParentIndexNumber! : null,
+          episodeNumber: isEpisode ? item.IndexNumber! : null,
+          played: !!item.UserData?.Played,
+          positionMs: Math.floor((item.UserData?.PlaybackPositionTicks || 0) / TICKS_PER_MS),
+          durationMs: Math.floor((item.RunTimeTicks || 0) / TICKS_PER_MS),
+          lastPlayedAt: item.UserData?.LastPlayedDate || null
+        })
+      }
+
+      return { items, unmatched }
+    } catch (error) {
+      console.error('Jellyfin getWatchItems error:', error)
+      return null
+    }
+  }
+
+  /**
+   * Mark an item as played for a user
+   */
+  async markPlayed(userId: string, itemId: string, datePlayed: Date): Promise<boolean> {
+    try {
+      await this.client.post(`/Users/${userId}/PlayedItems/${itemId}`, null, {
+        params: { DatePlayed: datePlayed.toISOString() }
+      })
+      return true
+    } catch (error) {
+      console.error('Jellyfin markPlayed error:', error)
+      return false
+    }
+  }
+
   /**
    * Device profile for browser playback
    * Matches Jellyfin web client profile for proper transcoding and HDR handling
@@ -0,0 +1,328 @@
+import db from '../db/index.js'
+import { config } from '../config.js'
+import { jellyfinService, type JellyfinWatchItem } from './jellyfinService.js'
+import { progressService, type WatchProgress } from './progressService.js'
+import { profileService } from './profileService.js'
+
+// Positions closer than this are treated as the same
+const POSITION_TOLERANCE_MS = 60 * 1000
+
+// Device shown in watch history for plays pulled from Jellyfin apps
+const JELLYFIN_DEVICE = 'Jellyfin'
+
+export interface SyncConflict {
+  mediaType: 'movie' | 'episode'
+  tmdbId: number
+  seasonNumber: number | null
+  episodeNumber: number | null
+  local: { positionMs: number, completed: boolean, updatedAt: string }
+  remote: { positionMs: number, played: boolean, updatedAt: string | null }
+  // Side whose position was kept: the most recent change wins
+  resolution: 'local' | 'remote'
+}
+
+export interface SyncRun {
+  syncedAt: string
+  // Items updated here from Jellyfin
+  pulled: number
+  // Items marked as played in Jellyfin
+  pushed: number
+  conflicts: number
+  // Jellyfin items without a TMDB ID, which can't be matched
+  unmatched: number
+  error: string | null
+}
+
+export interface SyncStatus {
+  enabled: boolean
+  jellyfinUserId: string | null
+  lastRun: SyncRun | null
+  conflicts: SyncConflict[]
+}
+
+// SQLite timestamps are UTC without a zone suffix
+const parseTimestamp = (value: string): number => Date.parse(`${value.replace(' ', 'T')}Z`)
+
+const toTimestamp = (time: number): string => new Date(time).toISOString().slice(0, 19).replace('T', ' ')
+
+const getItemKey = (item: Pick<WatchProgress, 'mediaType' | 'tmdbId' | 'seasonNumber' | 'episodeNumber'>): string => {
+  return [item.mediaType, item.tmdbId, item.seasonNumber ?? '', item.episodeNumber ?? ''].join(':')
+}
+
+/**
+ * Two-way sync of watched state between profiles and their linked Jellyfin users
+ * Positions follow the most recent change on either side; completions are never
+ * undone, the same way rewatching keeps a title marked as watched here
+ */
+class JellyfinSyncService {
+  private timer: ReturnType<typeof setInterval> | null = null
+  // Profiles with a sync in progress
+  private running = new Set<string>()
+
+  start(): void {
+    if (this.timer || !config.jellyfin.enabled || config.jellyfin.syncIntervalMinutes <= 0) return
+
+    this.timer = setInterval(() => {
+      this.syncAll()
+    }, config.jellyfin.syncIntervalMinutes * 60 * 1000)
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  async syncAll(): Promise<void> {
+    for (const profile of profileService.listJellyfinLinkedProfiles()) {
+      await this.syncProfile(profile.id)
+    }
+  }
+
+  /**
+   * Sync one profile now
+   * Returns null when the profile isn't linked or is already being synced
+   */
+  async syncProfile(profileId: string): Promise<SyncRun | null> {
+    const jellyfinUserId = profileService.getProfile(profileId)?.jellyfinUserId
+    if (!jellyfinUserId || this.running.has(profileId)) return null
+
+    this.running.add(profileId)
+    try {
+      return await this.runSync(profileId, jellyfinUserId)
+    } finally {
+      this.running.delete(profileId)
+    }
+  }
+
+  getStatus(profileId: string): SyncStatus {
+    return {
+      enabled: config.jellyfin.enabled,
+      jellyfinUserId: profileService.getProfile(profileId)?.jellyfinUserId ?? null,
+      lastRun: this.getLastRun(profileId),
+      conflicts: this.getConflicts(profileId)
+    }
+  }
+
+  private async runSync(profileId: string, jellyfinUserId: string): Promise<SyncRun> {
+    const syncedAt = toTimestamp(Date.now())
+    const lastRun = this.getLastRun(profileId)
+    const lastSyncTime = lastRun && !lastRun.error ? parseTimestamp(lastRun.syncedAt) : 0
+
+    const remote = await jellyfinService.getWatchItems(jellyfinUserId)
+    if (!remote) {
+      const run: SyncRun = { syncedAt, pulled: 0, pushed: 0, conflicts: 0, unmatched: 0, error: 'Could not reach Jellyfin' }
+      this.saveRun(profileId, run, null)
+      return run
+    }
+
+    const localItems = new Map(progressService.getAllProgress(profileId).map(item => [getItemKey(item), item]))
+    const conflicts: SyncConflict[] = []
+    let pulled = 0
+    let pushed = 0
+
+    for (const item of remote.items) {
+      const local = localItems.get(getItemKey(item))
+      const remoteTime = item.lastPlayedAt ? Date.parse(item.lastPlayedAt) : 0
+      const remoteActive = item.played || item.positionMs > 0
+
+      // Watched only in Jellyfin
+      if (!local) {
+        if (remoteActive && this.pull(profileId, item, {
+          positionMs: item.positionMs,
+          durationMs: item.durationMs,
+          completed: item.played,
+          updatedAt: toTimestamp(remoteTime || Date.now()),
+          device: JELLYFIN_DEVICE
+        })) {
+          pulled++
+        }
+        continue
+      }
+
+      const localTime = parseTimestamp(local.updatedAt)
+
+      // Watched only here
+      if (!remoteActive) {
+        if (local.completed && await jellyfinService.markPlayed(jellyfinUserId, item.itemId, new Date(localTime))) {
+          pushed++
+        }
+        continue
+      }
+
+      // Watched on both sides: compare positions only while neither has finished
+      const differs = local.completed !== item.played ||
+        (!local.completed && Math.abs(local.positionMs - item.positionMs) > POSITION_TOLERANCE_MS)
+      if (!differs) continue
+
+      const remoteWins = remoteTime > localTime
+
+      if (localTime > lastSyncTime && remoteTime > lastSyncTime) {
+        conflicts.push({
+          mediaType: item.mediaType,
+          tmdbId: item.tmdbId,
+          seasonNumber: item.seasonNumber,
+          episodeNumber: item.episodeNumber,
+          local: { positionMs: local.positionMs, completed: local.completed, updatedAt: local.updatedAt },
+          remote: { positionMs: item.positionMs, played: item.played, updatedAt: item.lastPlayedAt },
+          resolution: remoteWins ? 'remote' : 'local'
+        })
+      }
+
+      // The more recent side wins; a title in progress after being played is being rewatched
+      if (remoteWins) {
+        // Jellyfin resets the position of played items to 0, so keep ours then
+        if (this.pull(profileId, item, {
+          positionMs: item.positionMs || local.positionMs,
+          durationMs: item.durationMs || local.durationMs,
+          completed: item.played,
+          updatedAt: toTimestamp(remoteTime),
+          device: JELLYFIN_DEVICE
+        })) {
+          pulled++
+        }
+      }
+
+      if (local.completed && !item.played && await jellyfinService.markPlayed(jellyfinUserId, item.itemId, new Date(localTime))) {
+        pushed++
+      }
+    }
+
+    const run: SyncRun = {
+      syncedAt,
+      pulled,
+      pushed,
+      conflicts: conflicts.length,
+      unmatched: remote.unmatched,
+      error: null
+    }
+    this.saveRun(profileId, run, conflicts)
+
+    if (pulled) {
+      progressService.notifyBulkChange(profileId)
+    }
+    if (pulled || pushed) {
+      console.log(`Jellyfin sync (profile ${profileId}): ${pulled} pulled, ${pushed} pushed, ${conflicts.length} conflicts`)
+    }
+    return run
+  }
+
+  private pull(
+    profileId: string,
+    item: JellyfinWatchItem,
+    state: { positionMs: number, durationMs: number, completed: boolean, updatedAt: string, device?: string }
+  ): boolean {
+    return progressService.applySyncedProgress({
+      userId: profileId,
+      mediaType: item.mediaType,
+      tmdbId: item.tmdbId,
+      seasonNumber: item.seasonNumber,
+      episodeNumber: item.episodeNumber,
+      ...state
+    })
+  }
+
+  /**
+   * Store the outcome of a sync; conflicts replace those of the previous sync
+   * unless the sync failed (null)
+   */
+  private saveRun(profileId: string, run: SyncRun, conflicts: SyncConflict[] | null): void {
+    try {
+      const save = db.transaction(() => {
+        db.prepare(`
+          INSERT INTO jellyfin_sync_runs (profile_id, synced_at, pulled, pushed, conflicts, unmatched, error)
+          VALUES (?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT(profile_id) DO UPDATE SET
+            synced_at = excluded.synced_at,
+            pulled = excluded.pulled,
+            pushed = excluded.pushed,
+            conflicts = excluded.conflicts,
+            unmatched = excluded.unmatched,
+            error = excluded.error
+        `).run(profileId, run.syncedAt, run.pulled, run.pushed, run.conflicts, run.unmatched, run.error)
+
+        if (!conflicts) return
+
+        db.prepare('DELETE FROM jellyfin_sync_conflicts WHERE profile_id = ?').run(profileId)
+        const insert = db.prepare(`
+          INSERT INTO jellyfin_sync_conflicts (
+            profile_id, media_type, tmdb_id, season_number, episode_number,
+            local_position_ms, local_completed, local_updated_at,
+            remote_position_ms, remote_played, remote_updated_at, resolution
+          )
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `)
+        for (const conflict of conflicts) {
+          insert.run(
+            profileId,
+            conflict.mediaType,
+            conflict.tmdbId,
+            conflict.seasonNumber,
+            conflict.episodeNumber,
+            conflict.local.positionMs,
+            conflict.local.completed ? 1 : 0,
+            conflict.local.updatedAt,
+            conflict.remote.positionMs,
+            conflict.remote.played ? 1 : 0,
+            conflict.remote.updatedAt && toTimestamp(Date.parse(conflict.remote.updatedAt)),
+            conflict.resolution
+          )
+        }
+      })
+      save()
+    } catch (error) {
+      console.error('Error saving Jellyfin sync run:', error)
+    }
+  }
+
+  private getLastRun(profileId: string): SyncRun | null {
+    try {
+      const row = db.prepare('SELECT * FROM jellyfin_sync_runs WHERE profile_id = ?').get(profileId) as any
+      return row ? {
+        syncedAt: row.synced_at,
+        pulled: row.pulled,
+        pushed: row.pushed,
+        conflicts: row.conflicts,
+        unmatched: row.unmatched,
+        error: row.error
+      } : null
+    } catch (error) {
+      console.error('Error getting last Jellyfin sync:', error)
+      return null
+    }
+  }
+
+  private getConflicts(profileId: string): SyncConflict[] {
+    try {
+      const rows = db.prepare(`
+        SELECT * FROM jellyfin_sync_conflicts
+        WHERE profile_id = ?
+        ORDER BY id
+      `).all(profileId) as any[]
+
+      return rows.map(row => ({
+        mediaType: row.media_type,
+        tmdbId: row.tmdb_id,
+        seasonNumber: row.season_number,
+        episodeNumber: row.episode_number,
+        local: {
+          positionMs: row.local_position_ms,
+          completed: !!row.local_completed,
+          updatedAt: row.local_updated_at
+        },
+        remote: {
+          positionMs: row.remote_position_ms,
+          played: !!row.remote_played,
+          updatedAt: row.remote_updated_at
+        },
+        resolution: row.resolution
+      }))
+    } catch (error) {
+      console.error('Error getting Jellyfin sync conflicts:', error)
+      return []
+    }
+  }
+}
+
+export const jellyfinSyncService = new JellyfinSyncService()
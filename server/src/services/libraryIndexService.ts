@@ -0,0 +1,160 @@
+import { config } from '../config.js'
+import { mediaMetadataService, getMediaKey, type MediaKey, type MediaMetadata } from './mediaMetadataService.js'
+import type { TmdbGenre } from './tmdbService.js'
+import { radarrService } from './radarrService.js'
+import { sonarrService } from './sonarrService.js'
+
+// TMDB details returned inline with Radarr movies and Sonarr series
+export interface LibraryMetadata {
+  tmdbId: number
+  posterPath: string | null
+  backdropPath: string | null
+  genres: TmdbGenre[]
+}
+
+export type WithMetadata<T> = T & { metadata: LibraryMetadata | null }
+
+interface LibraryShow {
+  tvdbId: number
+  // Only sent by Sonarr v4 and later
+  tmdbId?: number
+}
+
+const toMovieKey = (tmdbId: number): MediaKey => ({ mediaType: 'movie', tmdbId })
+const toShowKey = (tmdbId: number): MediaKey => ({ mediaType: 'tv', tmdbId })
+
+const toLibraryMetadata = (metadata: MediaMetadata | undefined): LibraryMetadata | null => {
+  if (!metadata) return null
+  return {
+    tmdbId: metadata.tmdbId,
+    posterPath: metadata.posterPath,
+    backdropPath: metadata.backdropPath,
+    genres: metadata.genres
+  }
+}
+
+/**
+ * Keeps TMDB details of every Radarr movie and Sonarr series in the metadata cache,
+ * so library lists come with artwork and TMDB ids without a lookup per item
+ * Filled when titles are added and refreshed on a timer
+ */
+class LibraryIndexService {
+  private timer: ReturnType<typeof setInterval> | null = null
+  private indexing: Promise<void> | null = null
+
+  start(): void {
+    if (this.timer || !config.tmdb.enabled) return
+
+    this.indexAll()
+    if (config.tmdb.libraryIndexIntervalHours <= 0) return
+
+    this.timer = setInterval(() => {
+      this.indexAll()
+    }, config.tmdb.libraryIndexIntervalHours * 60 * 60 * 1000)
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  /**
+   * Fetch details of library titles that are missing or outdated
+   * Joins a run already in progress
+   */
+  indexAll(): Promise<void> {
+    if (!this.indexing) {
+      this.indexing = this.runIndex().finally(() => {
+        this.indexing = null
+      })
+    }
+    return this.indexing
+  }
+
+  /**
+   * Fetch the details of a title just added to the library
+   */
+  indexMovie(tmdbId: number): void {
+    this.withMovieMetadata([{ tmdbId }]).catch((error) => {
+      console.error(`Error indexing movie ${tmdbId}:`, error)
+    })
+  }
+
+  indexSeries(series: LibraryShow): void {
+    this.withSeriesMetadata([series]).catch((error) => {
+      console.error(`Error indexing series with TVDB id ${series.tvdbId}:`, error)
+    })
+  }
+
+  /**
+   * Add TMDB details to Radarr movies
+   * Titles never seen before are fetched now; outdated ones are refreshed in the background
+   */
+  async withMovieMetadata<T extends { tmdbId: number }>(movies: T[]): Promise<WithMetadata<T>[]> {
+    const metadata = await mediaMetadataService.getMetadata(
+      movies.map(movie => toMovieKey(movie.tmdbId)),
+      { refreshInBackground: true }
+    )
+
+    return movies.map(movie => ({
+      ...movie,
+      metadata: toLibraryMetadata(metadata.get(getMediaKey(toMovieKey(movie.tmdbId))))
+    }))
+  }
+
+  /**
+   * Add TMDB details to Sonarr series, matching those without a TMDB id by their TVDB id
+   */
+  async withSeriesMetadata<T extends LibraryShow>(series: T[]): Promise<WithMetadata<T>[]> {
+    const showIds = await this.getShowIds(series)
+    const metadata = await mediaMetadataService.getMetadata(
+      [...showIds.values()].map(toShowKey),
+      { refreshInBackground: true }
+    )
+
+    return series.map((show) => {
+      const tmdbId = showIds.get(show.tvdbId)
+      return {
+        ...show,
+        metadata: tmdbId ? toLibraryMetadata(metadata.get(getMediaKey(toShowKey(tmdbId)))) : null
+      }
+    })
+  }
+
+  /**
+   * TMDB ids of shows keyed by TVDB id, looked up for those Sonarr didn't send one with
+   */
+  private async getShowIds(series: LibraryShow[]): Promise<Map<number, number>> {
+    const found = await mediaMetadataService.getShowIdsByTvdbId(
+      series.filter(show => !show.tmdbId).map(show => show.tvdbId)
+    )
+
+    const showIds = new Map<number, number>()
+    for (const show of series) {
+      const tmdbId = show.tmdbId || found.get(show.tvdbId)
+      if (tmdbId) showIds.set(show.tvdbId, tmdbId)
+    }
+    return showIds
+  }
+
+  private async runIndex(): Promise<void> {
+    try {
+      const [movies, series] = await Promise.all([
+        radarrService.isEnabled() ? radarrService.getMovies() : Promise.resolve([]),
+        sonarrService.isEnabled() ? sonarrService.getSeries() : Promise.resolve([])
+      ])
+      const showIds = await this.getShowIds(series)
+
+      await mediaMetadataService.getMetadata([
+        ...movies.map(movie => toMovieKey(movie.tmdbId)),
+        ...[...showIds.values()].map(toShowKey)
+      ])
+    } catch (error) {
+      console.error('Error indexing library metadata:', error)
+    }
+  }
+}
+
+export const libraryIndexService = new LibraryIndexService()
@@ -0,0 +1,159 @@
+import db from '../db/index.js'
+import { config } from '../config.js'
+
+// First lockout length; it doubles with every failure past the threshold
+const BASE_LOCKOUT_SECONDS = 60
+const MAX_LOCKOUT_SECONDS = 60 * 60
+
+// Failure counts are forgotten after a day without failures
+const FAILURE_RESET_HOURS = 24
+
+export interface Lockout {
+  key: string
+  failures: number
+  lockedUntil: string
+  // Seconds until the lockout ends
+  retryAfter: number
+  // Set for profile PIN lockouts in listLockouts()
+  profileName?: string
+}
+
+const ipKey = (ip: string) => `ip:${ip}`
+const userKey = (username: string) => `user:${username.trim().toLowerCase()}`
+const profileKey = (profileId: string) => `profile:${profileId}`
+
+class LoginLockoutService {
+  /**
+   * Get the active lockout for an IP or account, whichever ends last
+   */
+  getLockout(ip: string, username?: string): Lockout | null {
+    return this.findLockout(username ? [ipKey(ip), userKey(username)] : [ipKey(ip)])
+  }
+
+  /**
+   * Count a failed login against the IP and the account, locking them once over the threshold
+   */
+  recordFailure(ip: string, username?: string): void {
+    this.countFailure(username ? [ipKey(ip), userKey(username)] : [ipKey(ip)])
+  }
+
+  /**
+   * Forget past failures after a successful login
+   */
+  recordSuccess(ip: string, username: string): void {
+    try {
+      db.prepare('DELETE FROM login_lockouts WHERE key IN (?, ?)').run(ipKey(ip), userKey(username))
+    } catch (error) {
+      console.error('Error clearing login failures:', error)
+    }
+  }
+
+  /**
+   * Get the active lockout for a profile's PIN
+   * PINs are short, so wrong ones are counted per profile rather than per IP
+   */
+  getProfileLockout(profileId: string): Lockout | null {
+    return this.findLockout([profileKey(profileId)])
+  }
+
+  recordProfileFailure(profileId: string): void {
+    this.countFailure([profileKey(profileId)])
+  }
+
+  recordProfileSuccess(profileId: string): void {
+    this.clearLockout(profileKey(profileId))
+  }
+
+  /**
+   * Get every IP, account and profile currently locked out
+   */
+  listLockouts(): Lockout[] {
+    try {
+      const results = db.prepare(`
+        SELECT l.*, p.name AS profile_name,
+          CAST(ROUND((julianday(l.locked_until) - julianday('now')) * 86400) AS INTEGER) AS retry_after
+        FROM login_lockouts l
+        LEFT JOIN profiles p ON l.key = 'profile:' || p.id
+        WHERE l.locked_until > CURRENT_TIMESTAMP
+        ORDER BY l.locked_until DESC
+      `).all()
+      return results.map(row => this.mapRowToLockout(row))
+    } catch (error) {
+      console.error('Error listing login lockouts:', error)
+      return []
+    }
+  }
+
+  /**
+   * Lift a lockout early (e.g. when a family member locked themselves out)
+   */
+  clearLockout(key: string): boolean {
+    try {
+      const result = db.prepare('DELETE FROM login_lockouts WHERE key = ?').run(key)
+      return result.changes > 0
+    } catch (error) {
+      console.error('Error clearing login lockout:', error)
+      return false
+    }
+  }
+
+  private findLockout(keys: string[]): Lockout | null {
+    try {
+      const result = db.prepare(`
+        SELECT *, CAST(ROUND((julianday(locked_until) - julianday('now')) * 86400) AS INTEGER) AS retry_after
+        FROM login_lockouts
+        WHERE key IN (${keys.map(() => '?').join(', ')}) AND locked_until > CURRENT_TIMESTAMP
+        ORDER BY locked_until DESC
+        LIMIT 1
+      `).get(...keys)
+      return result ? this.mapRowToLockout(result) : null
+    } catch (error) {
+      console.error('Error checking login lockout:', error)
+      return null
+    }
+  }
+
+  // Count a failure against each key, locking those over the threshold
+  private countFailure(keys: string[]): void {
+    try {
+      const record = db.transaction(() => {
+        for (const key of keys) {
+          const row = db.prepare(`
+            INSERT INTO login_lockouts (key, failures, last_failure_at)
+            VALUES (?, 1, CURRENT_TIMESTAMP)
+            ON CONFLICT(key) DO UPDATE SET
+              failures = CASE
+                WHEN last_failure_at < datetime('now', ?) THEN 1
+                ELSE failures + 1
+              END,
+              last_failure_at = CURRENT_TIMESTAMP
+            RETURNING failures
+          `).get(key, `-${FAILURE_RESET_HOURS} hours`) as { failures: number }
+
+          const excess = row.failures - config.auth.lockoutThreshold
+          if (excess >= 0) {
+            const seconds = Math.min(BASE_LOCKOUT_SECONDS * 2 ** excess, MAX_LOCKOUT_SECONDS)
+            db.prepare(`
+              UPDATE login_lockouts SET locked_until = datetime('now', ?) WHERE key = ?
+            `).run(`+${seconds} seconds`, key)
+          }
+        }
+      })
+      record()
+    } catch (error) {
+      console.error('Error recording failed login:', error)
+    }
+  }
+
+  private mapRowToLockout(row: any): Lockout {
+    return {
+      key: row.key,
+      failures: row.failures,
+      lockedUntil: row.locked_until,
+      retryAfter: Math.max(1, row.retry_after),
+      ...(row.profile_name ? { profileName: row.profile_name } : {})
+    }
+  }
+}
+
+export const loginLockoutService = new LoginLockoutService()
@@ -0,0 +1,200 @@
+import db from '../db/index.js'
+import { config } from '../config.js'
+import { tmdbService, type TmdbGenre } from './tmdbService.js'
+
+export interface MediaMetadata {
+  mediaType: 'movie' | 'tv'
+  tmdbId: number
+  title: string | null
+  genres: TmdbGenre[]
+  // Movie runtime, or the usual episode runtime of a show
+  runtimeMinutes: number | null
+  posterPath: string | null
+  backdropPath: string | null
+  tvdbId: number | null
+  imdbId: string | null
+  fetchedAt: string
+}
+
+export interface MediaKey {
+  mediaType: 'movie' | 'tv'
+  tmdbId: number
+}
+
+// Cached details older than this are fetched again
+const MAX_AGE_DAYS = 30
+
+// TMDB requests in flight at once when filling the cache
+const FETCH_CONCURRENCY = 4
+
+export const getMediaKey = (key: MediaKey): string => `${key.mediaType}:${key.tmdbId}`
+
+/**
+ * Run a task for every item, a few at a time
+ */
+const forEachConcurrently = async <T>(items: T[], task: (item: T) => Promise<void>): Promise<void> => {
+  const queue = [...items]
+  const worker = async () => {
+    for (let item = queue.shift(); item !== undefined; item = queue.shift()) {
+      await task(item)
+    }
+  }
+  await Promise.all(Array.from({ length: FETCH_CONCURRENCY }, worker))
+}
+
+/**
+ * TMDB details of watched and library titles, cached in the database
+ */
+class MediaMetadataService {
+  /**
+   * Get the details of titles, fetching those missing or outdated from TMDB
+   * With refreshInBackground, outdated details are returned at once and refreshed afterwards;
+   * keyed by getMediaKey, and titles TMDB can't be asked about are left out
+   */
+  async getMetadata(keys: MediaKey[], options: { refreshInBackground?: boolean } = {}): Promise<Map<string, MediaMetadata>> {
+    const result = new Map<string, MediaMetadata>()
+    const missing: MediaKey[] = []
+    const outdated: MediaKey[] = []
+    const staleBefore = Date.now() - MAX_AGE_DAYS * 24 * 60 * 60 * 1000
+
+    for (const key of new Map(keys.map(key => [getMediaKey(key), key])).values()) {
+      const cached = this.getCached(key)
+      if (!cached) {
+        missing.push(key)
+      } else {
+        result.set(getMediaKey(key), cached)
+        if (Date.parse(`${cached.fetchedAt.replace(' ', 'T')}Z`) < staleBefore) outdated.push(key)
+      }
+    }
+
+    if (!config.tmdb.enabled) return result
+
+    if (options.refreshInBackground) {
+      this.fetch(outdated, new Map()).catch((error) => {
+        console.error('Error refreshing media metadata:', error)
+      })
+      await this.fetch(missing, result)
+    } else {
+      await this.fetch([...missing, ...outdated], result)
+    }
+
+    return result
+  }
+
+  /**
+   * Find the TMDB ids of shows by their TVDB ids, from the cache or else TMDB
+   * Keyed by TVDB id; shows TMDB doesn't know are left out
+   */
+  async getShowIdsByTvdbId(tvdbIds: number[]): Promise<Map<number, number>> {
+    const result = new Map<number, number>()
+    const missing: number[] = []
+
+    for (const tvdbId of new Set(tvdbIds)) {
+      const tmdbId = this.getCachedShowId(tvdbId)
+      if (tmdbId) {
+        result.set(tvdbId, tmdbId)
+      } else {
+        missing.push(tvdbId)
+      }
+    }
+
+    if (!config.tmdb.enabled) return result
+
+    await forEachConcurrently(missing, async (tvdbId) => {
+      const tmdbId = await tmdbService.findShowByTvdbId(tvdbId)
+      if (tmdbId) result.set(tvdbId, tmdbId)
+    })
+
+    return result
+  }
+
+  private async fetch(keys: MediaKey[], result: Map<string, MediaMetadata>): Promise<void> {
+    await forEachConcurrently(keys, async (key) => {
+      const title = await tmdbService.getTitle(key.mediaType, key.tmdbId)
+      // Keep outdated details when TMDB can't be reached
+      if (!title) return
+
+      const metadata = this.save({ ...key, ...title })
+      if (metadata) result.set(getMediaKey(key), metadata)
+    })
+  }
+
+  private getCachedShowId(tvdbId: number): number | null {
+    try {
+      const row = db.prepare(`
+        SELECT tmdb_id FROM media_metadata
+        WHERE media_type = 'tv' AND tvdb_id = ?
+      `).get(tvdbId) as { tmdb_id: number } | undefined
+      return row?.tmdb_id ?? null
+    } catch (error) {
+      console.error('Error getting media metadata by TVDB id:', error)
+      return null
+    }
+  }
+
+  private getCached(key: MediaKey): MediaMetadata | null {
+    try {
+      const row = db.prepare(`
+        SELECT * FROM media_metadata
+        WHERE media_type = ? AND tmdb_id = ?
+      `).get(key.mediaType, key.tmdbId)
+      return row ? this.mapRowToMetadata(row) : null
+    } catch (error) {
+      console.error('Error getting media metadata:', error)
+      return null
+    }
+  }
+
+  private save(metadata: Omit<MediaMetadata, 'fetchedAt'>): MediaMetadata | null {
+    try {
+      const row = db.prepare(`
+        INSERT INTO media_metadata (
+          media_type, tmdb_id, title, genres, runtime_minutes,
+          poster_path, backdrop_path, tvdb_id, imdb_id, fetched_at
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+        ON CONFLICT(media_type, tmdb_id) DO UPDATE SET
+          title = excluded.title,
+          genres = excluded.genres,
+          runtime_minutes = excluded.runtime_minutes,
+          poster_path = excluded.poster_path,
+          backdrop_path = excluded.backdrop_path,
+          tvdb_id = excluded.tvdb_id,
+          imdb_id = excluded.imdb_id,
+          fetched_at = excluded.fetched_at
+        RETURNING *
+      `).get(
+        metadata.mediaType,
+        metadata.tmdbId,
+        metadata.title,
+        JSON.stringify(metadata.genres),
+        metadata.runtimeMinutes,
+        metadata.posterPath,
+        metadata.backdropPath,
+        metadata.tvdbId,
+        metadata.imdbId
+      )
+      return this.mapRowToMetadata(row)
+    } catch (error) {
+      console.error('Error saving media metadata:', error)
+      return null
+    }
+  }
+
+  private mapRowToMetadata(row: any): MediaMetadata {
+    return {
+      mediaType: row.media_type,
+      tmdbId: row.tmdb_id,
+      title: row.title,
+      genres: JSON.parse(row.genres),
+      runtimeMinutes: row.runtime_minutes,
+      posterPath: row.poster_path,
+      backdropPath: row.backdrop_path,
+      tvdbId: row.tvdb_id,
+      imdbId: row.imdb_id,
+      fetchedAt: row.fetched_at
+    }
+  }
+}
+
+export const mediaMetadataService = new MediaMetadataService()
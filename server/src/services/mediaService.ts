@@ -1,6 +1,7 @@
 import { radarrService } from './radarrService.js'
 import { sonarrService } from './sonarrService.js'
 import { jellyfinService } from './jellyfinService.js'
+import { jellyfinIndexService } from './jellyfinIndexService.js'
 import { config } from '../config.js'
 
 export interface SubtitleTrack {
@@ -27,9 +28,13 @@ export interface PlaybackInfo {
   found: boolean
   title: string
   type: 'movie' | 'episode'
+  // US content rating from Radarr/Sonarr (the series rating for episodes)
+  certification: string | null
   filePath: string
   fileSize: number
   duration: number // in milliseconds
+  // Where the end credits start, which counts as finished
+  creditsStartMs: number | null
   mediaInfo: {
     width: number
     height: number
@@ -71,14 +76,14 @@ class MediaService {
     }
 
     // Find movie in Jellyfin
-    const jellyfinItem = await jellyfinService.findMovieByPath(filePath)
-    if (!jellyfinItem) {
+    const jellyfinItemId = await jellyfinIndexService.findMovie(tmdbId, filePath)
+    if (!jellyfinItemId) {
       console.log(`MediaService: Movie "${movie.title}" not found in Jellyfin library`)
       return null
     }
 
     // Get playback info from Jellyfin
-    const playbackInfo = await jellyfinService.getPlaybackInfo(jellyfinItem.Id)
+    const playbackInfo = await jellyfinService.getPlaybackInfo(jellyfinItemId)
     if (!playbackInfo) {
       console.log(`MediaService: Could not get playback info from Jellyfin for "${movie.title}"`)
       return null
@@ -94,9 +99,11 @@ class MediaService {
       found: true,
       title: movie.title,
       type: 'movie',
+      certification: movie.certification || null,
       filePath,
       fileSize,
       duration: playbackInfo.duration,
+      creditsStartMs: playbackInfo.creditsStartMs,
       mediaInfo: playbackInfo.mediaInfo,
       streamUrl: playbackInfo.hlsUrl,
       subtitles: playbackInfo.subtitles,
@@ -157,14 +164,19 @@ class MediaService {
     }
 
     // Find episode in Jellyfin
-    const jellyfinItem = await jellyfinService.findEpisodeByPath(filePath)
-    if (!jellyfinItem) {
+    const jellyfinItemId = await jellyfinIndexService.findEpisode(
+      { tmdbId, tvdbId: series.tvdbId },
+      season,
+      episode,
+      filePath
+    )
+    if (!jellyfinItemId) {
       console.log(`MediaService: Episode "${title}" not found in Jellyfin library`)
       return null
     }
 
     // Get playback info from Jellyfin
-    const playbackInfo = await jellyfinService.getPlaybackInfo(jellyfinItem.Id)
+    const playbackInfo = await jellyfinService.getPlaybackInfo(jellyfinItemId)
     if (!playbackInfo) {
       console.log(`MediaService: Could not get playback info from Jellyfin for "${title}"`)
       return null
@@ -180,9 +192,11 @@ class MediaService {
       found: true,
       title,
       type: 'episode',
+      certification: series.certification || null,
       filePath,
       fileSize,
       duration: playbackInfo.duration,
+      creditsStartMs: playbackInfo.creditsStartMs,
       mediaInfo: playbackInfo.mediaInfo,
       streamUrl: playbackInfo.hlsUrl,
       subtitles: playbackInfo.subtitles,
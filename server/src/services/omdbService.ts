@@ -0,0 +1,47 @@
+import axios, { AxiosInstance } from 'axios'
+import { config } from '../config.js'
+import { apiCacheService, type ApiResponse, type CachePolicy } from './apiCacheService.js'
+
+const OMDB_API_URL = 'https://www.omdbapi.com'
+
+// Ratings move slowly, and the free tier only allows 1,000 requests a day
+const CACHE_POLICY: CachePolicy = {
+  ttlSeconds: 24 * 60 * 60,
+  staleSeconds: 7 * 24 * 60 * 60
+}
+
+class OmdbService {
+  private client: AxiosInstance
+
+  constructor() {
+    this.client = axios.create({
+      baseURL: OMDB_API_URL,
+      timeout: 15000,
+      params: {
+        apikey: config.omdb.apiKey
+      }
+    })
+  }
+
+  /**
+   * Get OMDb's entry for an IMDb id through the cache, as OMDb returns it
+   * Unknown ids come back as 200 with Response "False", like OMDb answers them;
+   * throws when OMDb can't be reached and nothing is cached
+   */
+  async getTitle(imdbId: string): Promise<ApiResponse> {
+    return apiCacheService.get(`omdb:${imdbId}`, CACHE_POLICY, async () => {
+      const response = await this.client.get('/', {
+        params: { i: imdbId },
+        validateStatus: () => true
+      })
+      if (response.status >= 500) throw new Error(`OMDb responded with ${response.status}`)
+      return { status: response.status, data: response.data }
+    })
+  }
+
+  isEnabled(): boolean {
+    return config.omdb.enabled
+  }
+}
+
+export const omdbService = new OmdbService()
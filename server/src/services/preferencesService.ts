@@ -0,0 +1,116 @@
+import db from '../db/index.js'
+
+export interface SubtitleStyle {
+  fontSize: 'small' | 'medium' | 'large' | 'xlarge'
+  fontColor: string
+  backgroundColor: string
+  backgroundOpacity: number
+}
+
+// Unset values are null, so clients can tell "never chosen" from a choice
+export interface UserPreferences {
+  subtitleStyle: SubtitleStyle | null
+  locale: string | null
+  // Language codes as reported by Jellyfin (e.g. "eng"); null subtitles means off
+  defaultAudioLanguage: string | null
+  defaultSubtitleLanguage: string | null
+  playbackSpeed: number
+  // Percentage of a title watched that counts as finished (unless its end credits start earlier)
+  completionThreshold: number
+  // Days without progress after which a title is abandoned and leaves Continue Watching; null never
+  abandonAfterDays: number | null
+}
+
+export type PreferencesUpdate = Partial<UserPreferences>
+
+const DEFAULT_PREFERENCES: UserPreferences = {
+  subtitleStyle: null,
+  locale: null,
+  defaultAudioLanguage: null,
+  defaultSubtitleLanguage: null,
+  playbackSpeed: 1,
+  completionThreshold: 95,
+  abandonAfterDays: 30
+}
+
+class PreferencesService {
+  /**
+   * Get a profile's preferences (user_id holds the profile ID)
+   */
+  getPreferences(profileId: string): UserPreferences {
+    try {
+      const result = db.prepare('SELECT * FROM user_preferences WHERE user_id = ?').get(profileId)
+      return result ? this.mapRowToPreferences(result) : { ...DEFAULT_PREFERENCES }
+    } catch (error) {
+      console.error('Error getting preferences:', error)
+      return { ...DEFAULT_PREFERENCES }
+    }
+  }
+
+  /**
+   * Change some preferences, keeping the others
+   */
+  updatePreferences(profileId: string, update: PreferencesUpdate): UserPreferences | null {
+    const preferences = { ...this.getPreferences(profileId), ...update }
+
+    try {
+      const result = db.prepare(`
+        INSERT INTO user_preferences (
+          user_id, subtitle_settings, ui_locale, default_audio_language, default_subtitle_language, playback_speed,
+          completion_threshold, abandon_after_days
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(user_id) DO UPDATE SET
+          subtitle_settings = excluded.subtitle_settings,
+          ui_locale = excluded.ui_locale,
+          default_audio_language = excluded.default_audio_language,
+          default_subtitle_language = excluded.default_subtitle_language,
+          playback_speed = excluded.playback_speed,
+          completion_threshold = excluded.completion_threshold,
+          abandon_after_days = excluded.abandon_after_days,
+          updated_at = CURRENT_TIMESTAMP
+        RETURNING *
+      `).get(
+        profileId,
+        preferences.subtitleStyle ? JSON.stringify(preferences.subtitleStyle) : null,
+        preferences.locale,
+        preferences.defaultAudioLanguage,
+        preferences.defaultSubtitleLanguage,
+        preferences.playbackSpeed,
+        preferences.completionThreshold,
+        preferences.abandonAfterDays
+      )
+
+      return result ? this.mapRowToPreferences(result) : null
+    } catch (error) {
+      console.error('Error updating preferences:', error)
+      return null
+    }
+  }
+
+  private parseSubtitleStyle(value: string | null): SubtitleStyle | null {
+    if (!value) return null
+    try {
+      return JSON.parse(value)
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Map database row to UserPreferences object
+   */
+  private mapRowToPreferences(row: any): UserPreferences {
+    return {
+      subtitleStyle: this.parseSubtitleStyle(row.subtitle_settings),
+      locale: row.ui_locale,
+      defaultAudioLanguage: row.default_audio_language,
+      defaultSubtitleLanguage: row.default_subtitle_language,
+      playbackSpeed: row.playback_speed ?? DEFAULT_PREFERENCES.playbackSpeed,
+      completionThreshold: row.completion_threshold ?? DEFAULT_PREFERENCES.completionThreshold,
+      abandonAfterDays: row.abandon_after_days
+    }
+  }
+}
+
+export const preferencesService = new PreferencesService()
@@ -0,0 +1,202 @@
+import bcrypt from 'bcryptjs'
+import { v4 as uuidv4 } from 'uuid'
+import db from '../db/index.js'
+
+const BCRYPT_ROUNDS = 10
+
+export const PIN_PATTERN = /^\d{4}$/
+
+export const PROFILE_COLORS = ['#e50914', '#2563eb', '#16a34a', '#f59e0b', '#9333ea', '#db2777']
+
+export interface Profile {
+  id: string
+  userId: string
+  name: string
+  avatarColor: string
+  hasPin: boolean
+  // Jellyfin user whose watched state is synced with this profile
+  jellyfinUserId: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ProfileInput {
+  name?: string
+  avatarColor?: string
+  // A 4-digit PIN, or null to remove the PIN
+  pin?: string | null
+}
+
+class ProfileService {
+  /**
+   * Get all profiles of an account, creating the default one on first use
+   */
+  listProfiles(userId: string, defaultName: string): Profile[] {
+    try {
+      db.prepare(`
+        INSERT OR IGNORE INTO profiles (id, user_id, name)
+        VALUES (?, ?, ?)
+      `).run(userId, userId, defaultName)
+
+      const results = db.prepare(`
+        SELECT * FROM profiles
+        WHERE user_id = ?
+        ORDER BY created_at, name
+      `).all(userId)
+      return results.map(row => this.mapRowToProfile(row))
+    } catch (error) {
+      console.error('Error listing profiles:', error)
+      return []
+    }
+  }
+
+  getProfile(id: string): Profile | null {
+    try {
+      const result = db.prepare('SELECT * FROM profiles WHERE id = ?').get(id)
+      return result ? this.mapRowToProfile(result) : null
+    } catch (error) {
+      console.error('Error getting profile:', error)
+      return null
+    }
+  }
+
+  async createProfile(userId: string, input: ProfileInput): Promise<Profile | null> {
+    try {
+      const pinHash = input.pin ? await bcrypt.hash(input.pin, BCRYPT_ROUNDS) : null
+      const count = (db.prepare('SELECT COUNT(*) AS count FROM profiles WHERE user_id = ?')
+        .get(userId) as { count: number }).count
+
+      const result = db.prepare(`
+        INSERT INTO profiles (id, user_id, name, avatar_color, pin_hash)
+        VALUES (?, ?, ?, ?, ?)
+        RETURNING *
+      `).get(
+        uuidv4(),
+        userId,
+        input.name!.trim(),
+        input.avatarColor || PROFILE_COLORS[count % PROFILE_COLORS.length],
+        pinHash
+      )
+
+      return result ? this.mapRowToProfile(result) : null
+    } catch (error) {
+      console.error('Error creating profile:', error)
+      return null
+    }
+  }
+
+  async updateProfile(id: string, input: ProfileInput): Promise<Profile | null> {
+    try {
+      const existing = db.prepare('SELECT * FROM profiles WHERE id = ?').get(id) as any
+      if (!existing) return null
+
+      let pinHash: string | null = existing.pin_hash
+      if (input.pin === null) {
+        pinHash = null
+      } else if (input.pin) {
+        pinHash = await bcrypt.hash(input.pin, BCRYPT_ROUNDS)
+      }
+
+      const result = db.prepare(`
+        UPDATE profiles
+        SET name = ?, avatar_color = ?, pin_hash = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+        RETURNING *
+      `).get(
+        input.name?.trim() || existing.name,
+        input.avatarColor || existing.avatar_color,
+        pinHash,
+        id
+      )
+
+      return result ? this.mapRowToProfile(result) : null
+    } catch (error) {
+      console.error('Error updating profile:', error)
+      return null
+    }
+  }
+
+  /**
+   * Link a profile to a Jellyfin user, or unlink it with null
+   */
+  setJellyfinUser(id: string, jellyfinUserId: string | null): Profile | null {
+    try {
+      const result = db.prepare(`
+        UPDATE profiles
+        SET jellyfin_user_id = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+        RETURNING *
+      `).get(jellyfinUserId, id)
+
+      return result ? this.mapRowToProfile(result) : null
+    } catch (error) {
+      console.error('Error linking profile to Jellyfin user:', error)
+      return null
+    }
+  }
+
+  /**
+   * Get every profile linked to a Jellyfin user
+   */
+  listJellyfinLinkedProfiles(): Profile[] {
+    try {
+      const rows = db.prepare('SELECT * FROM profiles WHERE jellyfin_user_id IS NOT NULL').all() as any[]
+      return rows.map(row => this.mapRowToProfile(row))
+    } catch (error) {
+      console.error('Error listing linked profiles:', error)
+      return []
+    }
+  }
+
+  /**
+   * Delete a profile together with its watch data
+   */
+  deleteProfile(id: string): boolean {
+    try {
+      const remove = db.transaction((profileId: string) => {
+        db.prepare('DELETE FROM watch_progress WHERE user_id = ?').run(profileId)
+        db.prepare('DELETE FROM watch_sessions WHERE user_id = ?').run(profileId)
+        db.prepare('DELETE FROM user_preferences WHERE user_id = ?').run(profileId)
+        db.prepare('DELETE FROM jellyfin_sync_runs WHERE profile_id = ?').run(profileId)
+        db.prepare('DELETE FROM jellyfin_sync_conflicts WHERE profile_id = ?').run(profileId)
+        return db.prepare('DELETE FROM profiles WHERE id = ?').run(profileId)
+      })
+      return remove(id).changes > 0
+    } catch (error) {
+      console.error('Error deleting profile:', error)
+      return false
+    }
+  }
+
+  /**
+   * Check a profile's PIN (profiles without a PIN always pass)
+   */
+  async verifyPin(id: string, pin: unknown): Promise<boolean> {
+    const row = db.prepare('SELECT pin_hash FROM profiles WHERE id = ?').get(id) as
+      { pin_hash: string | null } | undefined
+
+    if (!row) return false
+    if (!row.pin_hash) return true
+    if (typeof pin !== 'string' || !PIN_PATTERN.test(pin)) return false
+
+    return bcrypt.compare(pin, row.pin_hash)
+  }
+
+  /**
+   * Map database row to Profile object (never exposes the PIN hash)
+   */
+  private mapRowToProfile(row: any): Profile {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      name: row.name,
+      avatarColor: row.avatar_color,
+      hasPin: !!row.pin_hash,
+      jellyfinUserId: row.jellyfin_user_id ?? null,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    }
+  }
+}
+
+export const profileService = new ProfileService()
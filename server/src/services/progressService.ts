@@ -1,4 +1,5 @@
 import db from '../db/index.js'
+import { preferencesService } from './preferencesService.js'
 
 export interface WatchProgress {
   id: number
@@ -22,13 +23,117 @@ export interface SaveProgressInput {
   episodeNumber?: number
   positionMs: number
   durationMs: number
+  // Readable device name, e.g. "Chrome on Android"
+  device?: string
+  // Where the end credits start, when the media server knows
+  creditsStartMs?: number
 }
 
+export interface EpisodeNumber {
+  seasonNumber: number
+  episodeNumber: number
+}
+
+// Watched state taken over from another system, e.g. Jellyfin
+export interface SyncedProgressInput {
+  userId: string
+  mediaType: 'movie' | 'episode'
+  tmdbId: number
+  seasonNumber: number | null
+  episodeNumber: number | null
+  positionMs: number
+  durationMs: number
+  completed: boolean
+  // SQLite UTC timestamp of the change on the other side
+  updatedAt: string
+  // When set, the change is also recorded as a play from this device
+  device?: string
+}
+
+// One play of a title, from when it started to the last progress update
+export interface WatchSession {
+  id: number
+  mediaType: 'movie' | 'episode'
+  tmdbId: number
+  seasonNumber: number | null
+  episodeNumber: number | null
+  startPositionMs: number
+  endPositionMs: number
+  durationMs: number
+  completed: boolean
+  device: string | null
+  startedAt: string
+  endedAt: string
+}
+
+// A finished play brought in from a watch history export, e.g. Trakt
+export interface ImportedPlayInput {
+  userId: string
+  mediaType: 'movie' | 'episode'
+  tmdbId: number
+  seasonNumber: number | null
+  episodeNumber: number | null
+  // SQLite UTC timestamp of when the title was watched
+  watchedAt: string
+  device: string
+}
+
+// A finished play, as written to watch history exports
+export interface CompletedPlay {
+  mediaType: 'movie' | 'episode'
+  tmdbId: number
+  seasonNumber: number | null
+  episodeNumber: number | null
+  watchedAt: string
+}
+
+export interface HistoryFilter {
+  // SQLite UTC timestamps ("YYYY-MM-DD HH:MM:SS"), matched against when the play started
+  from?: string
+  to?: string
+  limit: number
+  offset: number
+}
+
+// Progress updates further apart than this belong to separate plays
+const SESSION_GAP_MINUTES = 30
+
 export interface ContinueWatchingItem extends WatchProgress {
   percentComplete: number
 }
 
+// A change to the watch progress of a profile, sent to its other devices
+// 'reset' stands for many changes at once (imports, Jellyfin syncs)
+export type ProgressEvent =
+  | { type: 'saved', progress: WatchProgress }
+  | { type: 'removed', mediaType: 'movie' | 'episode', tmdbId: number, seasonNumber: number | null, episodeNumber: number | null }
+  | { type: 'reset' }
+
+type ProgressListener = (userId: string, event: ProgressEvent) => void
+
 class ProgressService {
+  private listeners: Set<ProgressListener> = new Set()
+
+  onChange(listener: ProgressListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Tell listeners that many titles of a profile changed, after bulk updates
+   */
+  notifyBulkChange(userId: string): void {
+    this.emitChange(userId, { type: 'reset' })
+  }
+
+  private emitChange(userId: string, event: ProgressEvent): void {
+    for (const listener of this.listeners) {
+      listener(userId, event)
+    }
+  }
+
   /**
    * Save or update watch progress
    */
@@ -40,11 +145,14 @@ class ProgressService {
       seasonNumber = null,
       episodeNumber = null,
       positionMs,
-      durationMs
+      durationMs,
+      creditsStartMs
     } = input
 
-    // Determine if completed (>= 95% watched)
-    const completed = durationMs > 0 && positionMs / durationMs >= 0.95
+    // Finished once the end credits start, or past the profile's completion threshold
+    const { completionThreshold } = preferencesService.getPreferences(userId)
+    const reachedCredits = creditsStartMs !== undefined && creditsStartMs > 0 && positionMs >= creditsStartMs
+    const completed = durationMs > 0 && (reachedCredits || positionMs / durationMs * 100 >= completionThreshold)
 
     try {
       // SQLite UNIQUE constraint doesn't work with NULL values (NULL != NULL)
@@ -74,10 +182,13 @@ class ProgressService {
 
       let result: any
       if (existingId) {
-        // Update existing record
+        // Update existing record; starting a finished title again makes it unfinished until
+        // this play completes (earlier plays stay in watch_sessions),
+        // and a title removed from Continue Watching comes back
         const updateStmt = db.prepare(`
           UPDATE watch_progress
-          SET position_ms = ?, duration_ms = ?, completed = ?, updated_at = CURRENT_TIMESTAMP
+          SET position_ms = ?, duration_ms = ?, completed = ?, updated_at = CURRENT_TIMESTAMP,
+            hidden_at = NULL
           WHERE id = ?
           RETURNING *
         `)
@@ -104,8 +215,12 @@ class ProgressService {
         )
       }
 
+      this.recordSession(input, completed)
+
       if (result) {
-        return this.mapRowToProgress(result)
+        const progress = this.mapRowToProgress(result)
+        this.emitChange(userId, { type: 'saved', progress })
+        return progress
       }
       return null
     } catch (error) {
@@ -114,6 +229,268 @@ class ProgressService {
     }
   }
 
+  /**
+   * Extend the current play of a title, or start a new one
+   * A new play starts after a long pause, on another device, or when a finished
+   * title is started again, so earlier plays and completions are kept
+   */
+  private recordSession(input: SaveProgressInput, completed: boolean): void {
+    const {
+      userId,
+      mediaType,
+      tmdbId,
+      seasonNumber = null,
+      episodeNumber = null,
+      positionMs,
+      durationMs,
+      device = null
+    } = input
+
+    const current = db.prepare(`
+      SELECT id, completed FROM watch_sessions
+      WHERE user_id = ? AND media_type = ? AND tmdb_id = ?
+        AND season_number IS ? AND episode_number IS ?
+        AND device IS ?
+        AND ended_at >= datetime('now', ?)
+      ORDER BY started_at DESC, id DESC
+      LIMIT 1
+    `).get(
+      userId,
+      mediaType,
+      tmdbId,
+      seasonNumber,
+      episodeNumber,
+      device,
+      `-${SESSION_GAP_MINUTES} minutes`
+    ) as { id: number, completed: number } | undefined
+
+    // Credits still playing after completion belong to the same play
+    if (current && (!current.completed || completed)) {
+      db.prepare(`
+        UPDATE watch_sessions
+        SET end_position_ms = ?, duration_ms = ?, completed = ?, ended_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `).run(positionMs, durationMs, completed ? 1 : 0, current.id)
+      return
+    }
+
+    db.prepare(`
+      INSERT INTO watch_sessions (
+        user_id, media_type, tmdb_id, season_number, episode_number,
+        start_position_ms, end_position_ms, duration_ms, completed, device
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      userId,
+      mediaType,
+      tmdbId,
+      seasonNumber,
+      episodeNumber,
+      positionMs,
+      positionMs,
+      durationMs,
+      completed ? 1 : 0,
+      device
+    )
+  }
+
+  /**
+   * Store watched state from another system, keeping its timestamp
+   */
+  applySyncedProgress(input: SyncedProgressInput): boolean {
+    const {
+      userId,
+      mediaType,
+      tmdbId,
+      seasonNumber,
+      episodeNumber,
+      positionMs,
+      durationMs,
+      completed,
+      updatedAt,
+      device
+    } = input
+
+    try {
+      const apply = db.transaction(() => {
+        const updated = db.prepare(`
+          UPDATE watch_progress
+          SET position_ms = ?, duration_ms = ?, completed = ?, updated_at = ?
+          WHERE user_id = ? AND media_type = ? AND tmdb_id = ?
+            AND season_number IS ? AND episode_number IS ?
+        `).run(positionMs, durationMs, completed ? 1 : 0, updatedAt, userId, mediaType, tmdbId, seasonNumber, episodeNumber)
+
+        if (updated.changes === 0) {
+          db.prepare(`
+            INSERT INTO watch_progress (
+              user_id, media_type, tmdb_id, season_number, episode_number,
+              position_ms, duration_ms, completed, created_at, updated_at
+            )
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          `).run(userId, mediaType, tmdbId, seasonNumber, episodeNumber, positionMs, durationMs, completed ? 1 : 0, updatedAt, updatedAt)
+        }
+
+        if (device) {
+          db.prepare(`
+            INSERT INTO watch_sessions (
+              user_id, media_type, tmdb_id, season_number, episode_number,
+              start_position_ms, end_position_ms, duration_ms, completed, device, started_at, ended_at
+            )
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          `).run(
+            userId, mediaType, tmdbId, seasonNumber, episodeNumber,
+            positionMs, positionMs, durationMs, completed ? 1 : 0, device, updatedAt, updatedAt
+          )
+        }
+      })
+      apply()
+      return true
+    } catch (error) {
+      console.error('Error applying synced progress:', error)
+      return false
+    }
+  }
+
+  /**
+   * Get every progress entry of a profile
+   */
+  getAllProgress(userId: string): WatchProgress[] {
+    try {
+      const rows = db.prepare('SELECT * FROM watch_progress WHERE user_id = ?').all(userId) as any[]
+      return rows.map(row => this.mapRowToProgress(row))
+    } catch (error) {
+      console.error('Error getting all progress:', error)
+      return []
+    }
+  }
+
+  /**
+   * Mark a title as watched from an imported play and add the play to the history
+   * Returns 'duplicate' when the title was already finished that day, since
+   * exports like Letterboxd's only keep the date
+   */
+  importPlay(input: ImportedPlayInput): 'imported' | 'duplicate' | null {
+    const { userId, mediaType, tmdbId, seasonNumber, episodeNumber, watchedAt, device } = input
+
+    try {
+      const apply = db.transaction((): 'imported' | 'duplicate' => {
+        const existing = db.prepare(`
+          SELECT id FROM watch_sessions
+          WHERE user_id = ? AND media_type = ? AND tmdb_id = ?
+            AND season_number IS ? AND episode_number IS ?
+            AND completed = 1 AND date(ended_at) = date(?)
+        `).get(userId, mediaType, tmdbId, seasonNumber, episodeNumber, watchedAt)
+        if (existing) return 'duplicate'
+
+        // The position of a title in progress here is kept
+        const updated = db.prepare(`
+          UPDATE watch_progress
+          SET completed = 1, updated_at = MAX(updated_at, ?)
+          WHERE user_id = ? AND media_type = ? AND tmdb_id = ?
+            AND season_number IS ? AND episode_number IS ?
+        `).run(watchedAt, userId, mediaType, tmdbId, seasonNumber, episodeNumber)
+
+        if (updated.changes === 0) {
+          db.prepare(`
+            INSERT INTO watch_progress (
+              user_id, media_type, tmdb_id, season_number, episode_number,
+              position_ms, duration_ms, completed, created_at, updated_at
+            )
+            VALUES (?, ?, ?, ?, ?, 0, 0, 1, ?, ?)
+          `).run(userId, mediaType, tmdbId, seasonNumber, episodeNumber, watchedAt, watchedAt)
+        }
+
+        db.prepare(`
+          INSERT INTO watch_sessions (
+            user_id, media_type, tmdb_id, season_number, episode_number,
+            completed, device, started_at, ended_at
+          )
+          VALUES (?, ?, ?, ?, ?, 1, ?, ?, ?)
+        `).run(userId, mediaType, tmdbId, seasonNumber, episodeNumber, device, watchedAt, watchedAt)
+
+        return 'imported'
+      })
+      return apply()
+    } catch (error) {
+      console.error('Error importing play:', error)
+      return null
+    }
+  }
+
+  /**
+   * Get every finished play of a profile, oldest first
+   * Titles marked as watched without a recorded play count once, at their last update
+   */
+  getCompletedPlays(userId: string): CompletedPlay[] {
+    try {
+      const rows = db.prepare(`
+        SELECT media_type, tmdb_id, season_number, episode_number, ended_at AS watched_at
+        FROM watch_sessions
+        WHERE user_id = ? AND completed = 1
+        UNION ALL
+        SELECT media_type, tmdb_id, season_number, episode_number, updated_at AS watched_at
+        FROM watch_progress p
+        WHERE user_id = ? AND completed = 1
+          AND NOT EXISTS (
+            SELECT 1 FROM watch_sessions s
+            WHERE s.user_id = p.user_id AND s.media_type = p.media_type AND s.tmdb_id = p.tmdb_id
+              AND s.season_number IS p.season_number AND s.episode_number IS p.episode_number
+              AND s.completed = 1
+          )
+        ORDER BY watched_at
+      `).all(userId, userId) as any[]
+
+      return rows.map(row => ({
+        mediaType: row.media_type,
+        tmdbId: row.tmdb_id,
+        seasonNumber: row.season_number,
+        episodeNumber: row.episode_number,
+        watchedAt: row.watched_at
+      }))
+    } catch (error) {
+      console.error('Error getting completed plays:', error)
+      return []
+    }
+  }
+
+  /**
+   * Get a page of plays, most recent first
+   */
+  getHistory(userId: string, filter: HistoryFilter): { sessions: WatchSession[], total: number } {
+    const conditions = ['user_id = ?']
+    const params: (string | number)[] = [userId]
+
+    if (filter.from) {
+      conditions.push('started_at >= ?')
+      params.push(filter.from)
+    }
+    if (filter.to) {
+      conditions.push('started_at < ?')
+      params.push(filter.to)
+    }
+
+    const where = conditions.join(' AND ')
+
+    try {
+      const rows = db.prepare(`
+        SELECT * FROM watch_sessions
+        WHERE ${where}
+        ORDER BY started_at DESC, id DESC
+        LIMIT ? OFFSET ?
+      `).all(...params, filter.limit, filter.offset) as any[]
+
+      const { total } = db.prepare(`
+        SELECT COUNT(*) AS total FROM watch_sessions
+        WHERE ${where}
+      `).get(...params) as { total: number }
+
+      return { sessions: rows.map(row => this.mapRowToSession(row)), total }
+    } catch (error) {
+      console.error('Error getting watch history:', error)
+      return { sessions: [], total: 0 }
+    }
+  }
+
   /**
    * Get progress for a specific movie
    */
@@ -170,6 +547,9 @@ class ProgressService {
    * Returns items that are not completed and have progress
    */
   getContinueWatching(userId: string, limit: number = 20): ContinueWatchingItem[] {
+    // Titles without progress for this long are abandoned
+    const { abandonAfterDays } = preferencesService.getPreferences(userId)
+
     try {
       const stmt = db.prepare(`
         SELECT * FROM watch_progress
@@ -177,11 +557,18 @@ class ProgressService {
           AND completed = 0
           AND position_ms > 30000
           AND duration_ms > 0
+          AND hidden_at IS NULL
+          AND (? IS NULL OR updated_at >= datetime('now', ?))
         ORDER BY updated_at DESC
         LIMIT ?
       `)
 
-      const results = stmt.all(userId, limit) as any[]
+      const results = stmt.all(
+        userId,
+        abandonAfterDays,
+        abandonAfterDays === null ? null : `-${abandonAfterDays} days`,
+        limit
+      ) as any[]
       return results.map(row => {
         const progress = this.mapRowToProgress(row)
         return {
@@ -195,6 +582,28 @@ class ProgressService {
     }
   }
 
+  /**
+   * Remove an item from Continue Watching, keeping its progress
+   * It comes back once progress is saved for it again; false when not found
+   */
+  hideFromContinueWatching(userId: string, id: number): boolean {
+    try {
+      const result = db.prepare(`
+        UPDATE watch_progress
+        SET hidden_at = CURRENT_TIMESTAMP
+        WHERE id = ? AND user_id = ?
+        RETURNING *
+      `).get(id, userId)
+
+      if (!result) return false
+      this.emitChange(userId, { type: 'saved', progress: this.mapRowToProgress(result) })
+      return true
+    } catch (error) {
+      console.error('Error hiding from continue watching:', error)
+      return false
+    }
+  }
+
   /**
    * Mark an item as watched (completed)
    */
@@ -226,6 +635,11 @@ class ProgressService {
         `)
         stmt.run(userId, tmdbId, seasonNumber, episodeNumber)
       }
+
+      const progress = mediaType === 'movie'
+        ? this.getMovieProgress(userId, tmdbId)
+        : this.getEpisodeProgress(userId, tmdbId, seasonNumber!, episodeNumber!)
+      if (progress) this.emitChange(userId, { type: 'saved', progress })
       return true
     } catch (error) {
       console.error('Error marking as watched:', error)
@@ -262,6 +676,14 @@ class ProgressService {
         `)
         stmt.run(userId, tmdbId, seasonNumber, episodeNumber)
       }
+
+      this.emitChange(userId, {
+        type: 'removed',
+        mediaType,
+        tmdbId,
+        seasonNumber: mediaType === 'movie' ? null : seasonNumber ?? null,
+        episodeNumber: mediaType === 'movie' ? null : episodeNumber ?? null
+      })
       return true
     } catch (error) {
       console.error('Error removing progress:', error)
@@ -269,6 +691,74 @@ class ProgressService {
     }
   }
 
+  /**
+   * Mark episodes of a show watched, adding progress for those never started
+   * Returns how many episodes changed, or null on failure
+   */
+  markEpisodesWatched(userId: string, tmdbId: number, episodes: EpisodeNumber[]): number | null {
+    try {
+      const update = db.prepare(`
+        UPDATE watch_progress
+        SET completed = 1, updated_at = CURRENT_TIMESTAMP
+        WHERE user_id = ? AND media_type = 'episode' AND tmdb_id = ?
+          AND season_number = ? AND episode_number = ?
+          AND completed = 0
+      `)
+      const insert = db.prepare(`
+        INSERT OR IGNORE INTO watch_progress (
+          user_id, media_type, tmdb_id, season_number, episode_number,
+          position_ms, duration_ms, completed
+        )
+        VALUES (?, 'episode', ?, ?, ?, 0, 0, 1)
+      `)
+
+      const apply = db.transaction(() => {
+        let changed = 0
+        for (const { seasonNumber, episodeNumber } of episodes) {
+          const updated = update.run(userId, tmdbId, seasonNumber, episodeNumber)
+          changed += updated.changes || insert.run(userId, tmdbId, seasonNumber, episodeNumber).changes
+        }
+        return changed
+      })
+
+      const changed = apply()
+      if (changed > 0) this.notifyBulkChange(userId)
+      return changed
+    } catch (error) {
+      console.error('Error marking episodes as watched:', error)
+      return null
+    }
+  }
+
+  /**
+   * Remove the progress of episodes of a show (mark them unwatched)
+   * Returns how many episodes changed, or null on failure
+   */
+  removeEpisodes(userId: string, tmdbId: number, episodes: EpisodeNumber[]): number | null {
+    try {
+      const remove = db.prepare(`
+        DELETE FROM watch_progress
+        WHERE user_id = ? AND media_type = 'episode' AND tmdb_id = ?
+          AND season_number = ? AND episode_number = ?
+      `)
+
+      const apply = db.transaction(() => {
+        let changed = 0
+        for (const { seasonNumber, episodeNumber } of episodes) {
+          changed += remove.run(userId, tmdbId, seasonNumber, episodeNumber).changes
+        }
+        return changed
+      })
+
+      const changed = apply()
+      if (changed > 0) this.notifyBulkChange(userId)
+      return changed
+    } catch (error) {
+      console.error('Error removing episode progress:', error)
+      return null
+    }
+  }
+
   /**
    * Get all progress for a TV show (all episodes)
    */
@@ -308,6 +798,26 @@ class ProgressService {
       updatedAt: row.updated_at
     }
   }
+
+  /**
+   * Map database row to WatchSession object
+   */
+  private mapRowToSession(row: any): WatchSession {
+    return {
+      id: row.id,
+      mediaType: row.media_type,
+      tmdbId: row.tmdb_id,
+      seasonNumber: row.season_number,
+      episodeNumber: row.episode_number,
+      startPositionMs: row.start_position_ms,
+      endPositionMs: row.end_position_ms,
+      durationMs: row.duration_ms,
+      completed: !!row.completed,
+      device: row.device,
+      startedAt: row.started_at,
+      endedAt: row.ended_at
+    }
+  }
 }
 
 export const progressService = new ProgressService()
@@ -119,6 +119,7 @@ export const prowlarrProvider: TorrentProvider = {
           peers: release.leechers || 0,
           quality: extractQuality(release.title),
           source: 'prowlarr',
+          indexer: release.indexer,
           uploadDate: release.publishDate
         })
       }
@@ -147,6 +147,7 @@ export const radarrProvider: TorrentProvider = {
           peers: release.leechers || 0,
           quality: extractQuality(release.quality.quality.name, release.quality.quality.resolution),
           source: 'radarr',
+          indexer: release.indexer,
           uploadDate: release.publishDate
         })
       }
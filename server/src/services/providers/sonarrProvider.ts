@@ -156,6 +156,7 @@ export const sonarrProvider: TorrentProvider = {
           peers: release.leechers || 0,
           quality: extractQuality(release.quality.quality.name, release.quality.quality.resolution),
           source: 'sonarr',
+          indexer: release.indexer,
           uploadDate: release.publishDate
         })
       }
@@ -0,0 +1,66 @@
+import axios, { AxiosInstance } from 'axios'
+import { config } from '../config.js'
+
+export interface ProwlarrIndexer {
+  id: number
+  name: string
+  privacy: 'public' | 'semiPrivate' | 'private'
+  protocol: string
+  enable: boolean
+}
+
+// Indexers rarely change, so the list is fetched again only this often
+const INDEXERS_TTL_MS = 60 * 60 * 1000
+
+// Radarr/Sonarr name the indexers Prowlarr syncs to them "<name> (Prowlarr)"
+export const toIndexerName = (name: string): string => name.replace(/\s*\(Prowlarr\)$/i, '').trim().toLowerCase()
+
+class ProwlarrService {
+  private client: AxiosInstance
+  private indexers: ProwlarrIndexer[] | null = null
+  private indexersFetchedAt = 0
+
+  constructor() {
+    this.client = axios.create({
+      baseURL: config.prowlarr.url,
+      timeout: 30000,
+      headers: {
+        'X-Api-Key': config.prowlarr.apiKey
+      }
+    })
+  }
+
+  /**
+   * Indexers configured in Prowlarr, cached for an hour
+   * Falls back to the last list fetched when Prowlarr can't be reached
+   */
+  async getIndexers(): Promise<ProwlarrIndexer[]> {
+    if (!this.isEnabled()) return []
+    if (this.indexers && Date.now() - this.indexersFetchedAt < INDEXERS_TTL_MS) return this.indexers
+
+    try {
+      const response = await this.client.get('/api/v1/indexer')
+      this.indexers = response.data as ProwlarrIndexer[]
+      this.indexersFetchedAt = Date.now()
+    } catch (error) {
+      console.error('Prowlarr: Error getting indexers:', error instanceof Error ? error.message : error)
+    }
+    return this.indexers ?? []
+  }
+
+  /**
+   * Whether Prowlarr lists an indexer by this name as a private tracker
+   * Names as reported by Radarr/Sonarr are matched too
+   */
+  async isPrivateIndexer(name: string): Promise<boolean> {
+    const indexers = await this.getIndexers()
+    const indexer = indexers.find(item => toIndexerName(item.name) === toIndexerName(name))
+    return indexer?.privacy === 'private'
+  }
+
+  isEnabled(): boolean {
+    return config.prowlarr.enabled
+  }
+}
+
+export const prowlarrService = new ProwlarrService()
@@ -19,6 +19,9 @@ interface QBitTorrent {
   tags: string
   downloaded: number
   uploaded: number
+  ratio: number
+  // Seconds spent seeding
+  seeding_time: number
 }
 
 interface QBitTorrentProperties {
@@ -42,6 +45,7 @@ type TorrentState =
   | 'missingFiles'
   | 'uploading'
   | 'pausedUP'
+  | 'stoppedUP'
   | 'queuedUP'
   | 'stalledUP'
   | 'checkingUP'
@@ -50,6 +54,7 @@ type TorrentState =
   | 'downloading'
   | 'metaDL'
   | 'pausedDL'
+  | 'stoppedDL'
   | 'queuedDL'
   | 'stalledDL'
   | 'checkingDL'
@@ -63,6 +68,8 @@ class QBittorrentService {
   private cookie: string | null = null
   private lastLogin: number = 0
   private readonly sessionTimeout = 30 * 60 * 1000 // 30 minutes
+  // qBittorrent 5 renamed pause/resume to stop/start; set once we know which names the server takes
+  private usesLegacyPauseNames: boolean | null = null
 
   constructor() {
     this.client = axios.create({
@@ -153,7 +160,9 @@ class QBittorrentService {
         formData.append('tags', options.tags)
       }
       if (options?.paused) {
+        // Renamed to stopped in qBittorrent 5
         formData.append('paused', 'true')
+        formData.append('stopped', 'true')
       }
 
       const response = await this.client.post(
@@ -202,7 +211,9 @@ class QBittorrentService {
         form.append('tags', options.tags)
       }
       if (options?.paused) {
+        // Renamed to stopped in qBittorrent 5
         form.append('paused', 'true')
+        form.append('stopped', 'true')
       }
 
       const response = await this.client.post(
@@ -277,20 +288,45 @@ class QBittorrentService {
     }
   }
 
+  /**
+   * Stop or start a torrent, under the endpoint names of whichever qBittorrent version this is
+   * qBittorrent 5 answers 404 to pause/resume and older versions to stop/start
+   */
+  private async postPauseAction(action: 'stop' | 'start', hash: string): Promise<void> {
+    const legacyAction = action === 'stop' ? 'pause' : 'resume'
+    const post = (name: string) => this.client.post(
+      `/api/v2/torrents/${name}`,
+      new URLSearchParams({ hashes: hash }),
+      {
+        headers: {
+          ...this.getHeaders(),
+          'Content-Type': 'application/x-www-form-urlencoded'
+        }
+      }
+    )
+
+    if (this.usesLegacyPauseNames) {
+      await post(legacyAction)
+      return
+    }
+
+    try {
+      await post(action)
+      this.usesLegacyPauseNames = false
+    } catch (error) {
+      if (this.usesLegacyPauseNames !== null || !axios.isAxiosError(error) || error.response?.status !== 404) {
+        throw error
+      }
+      await post(legacyAction)
+      this.usesLegacyPauseNames = true
+    }
+  }
+
   async pauseTorrent(hash: string): Promise<boolean> {
     await this.ensureAuthenticated()
 
     try {
-      await this.client.post(
-        '/api/v2/torrents/pause',
-        new URLSearchParams({ hashes: hash }),
-        {
-          headers: {
-            ...this.getHeaders(),
-            'Content-Type': 'application/x-www-form-urlencoded'
-          }
-        }
-      )
+      await this.postPauseAction('stop', hash)
       return true
     } catch (error) {
       console.error('qBittorrent: Error pausing torrent:', error)
@@ -302,16 +338,7 @@ class QBittorrentService {
     await this.ensureAuthenticated()
 
     try {
-      await this.client.post(
-        '/api/v2/torrents/resume',
-        new URLSearchParams({ hashes: hash }),
-        {
-          headers: {
-            ...this.getHeaders(),
-            'Content-Type': 'application/x-www-form-urlencoded'
-          }
-        }
-      )
+      await this.postPauseAction('start', hash)
       return true
     } catch (error) {
       console.error('qBittorrent: Error resuming torrent:', error)
@@ -343,6 +370,53 @@ class QBittorrentService {
     }
   }
 
+  /**
+   * Put torrents at the bottom of qBittorrent's queue one by one, so they end up in the given order
+   * Fails when torrent queueing is disabled in qBittorrent
+   */
+  async setQueueOrder(hashes: string[]): Promise<boolean> {
+    await this.ensureAuthenticated()
+
+    try {
+      for (const hash of hashes) {
+        await this.client.post(
+          '/api/v2/torrents/bottomPrio',
+          new URLSearchParams({ hashes: hash }),
+          {
+            headers: {
+              ...this.getHeaders(),
+              'Content-Type': 'application/x-www-form-urlencoded'
+            }
+          }
+        )
+      }
+      return true
+    } catch (error) {
+      console.error('qBittorrent: Error ordering queue:', error instanceof Error ? error.message : error)
+      return false
+    }
+  }
+
+  /**
+   * Set the global speed limits, in bytes per second (0 = unlimited)
+   */
+  async setTransferLimits(downloadLimit: number, uploadLimit: number): Promise<boolean> {
+    await this.ensureAuthenticated()
+
+    try {
+      const headers = {
+        ...this.getHeaders(),
+        'Content-Type': 'application/x-www-form-urlencoded'
+      }
+      await this.client.post('/api/v2/transfer/setDownloadLimit', new URLSearchParams({ limit: String(downloadLimit) }), { headers })
+      await this.client.post('/api/v2/transfer/setUploadLimit', new URLSearchParams({ limit: String(uploadLimit) }), { headers })
+      return true
+    } catch (error) {
+      console.error('qBittorrent: Error setting speed limits:', error instanceof Error ? error.message : error)
+      return false
+    }
+  }
+
   async getVersion(): Promise<string | null> {
     try {
       const response = await this.client.get('/api/v2/app/version', {
@@ -378,12 +452,14 @@ class QBittorrentService {
         return 'error'
       case 'uploading':
       case 'pausedUP':
+      case 'stoppedUP': // qBittorrent 5 name for pausedUP
       case 'queuedUP':
       case 'stalledUP':
       case 'checkingUP':
       case 'forcedUP':
         return 'completed'
       case 'pausedDL':
+      case 'stoppedDL': // qBittorrent 5 name for pausedDL
         return 'paused'
       case 'queuedDL':
       case 'checkingResumeData':
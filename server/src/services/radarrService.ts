@@ -33,6 +33,7 @@ interface RadarrMovie {
   tags: number[]
   added: string
   ratings: { votes: number; value: number }
+  certification?: string
   movieFile?: {
     id: number
     relativePath: string
@@ -64,6 +65,8 @@ interface RadarrRootFolder {
   path: string
   accessible: boolean
   freeSpace: number
+  // Not reported by older versions
+  totalSpace?: number
 }
 
 interface RadarrQualityProfile {
@@ -171,6 +174,19 @@ class RadarrService {
     }
   }
 
+  // Search TMDB through Radarr, by title ("Heat 1995") or "imdb:tt0113277"
+  async searchMovies(term: string): Promise<RadarrMovie[]> {
+    try {
+      const response = await this.client.get('/api/v3/movie/lookup', {
+        params: { term }
+      })
+      return response.data
+    } catch (error) {
+      console.error('Radarr: Error searching movies:', error)
+      return []
+    }
+  }
+
   async addMovie(options: RadarrAddMovieOptions): Promise<RadarrMovie | null> {
     try {
       // First lookup the movie to get full details
@@ -268,6 +284,23 @@ class RadarrService {
     }
   }
 
+  /**
+   * Whether Radarr has imported the files of a download, by its torrent hash
+   * Null when Radarr can't be asked
+   */
+  async hasImported(infoHash: string): Promise<boolean | null> {
+    try {
+      const response = await this.client.get('/api/v3/history', {
+        params: { downloadId: infoHash.toUpperCase(), pageSize: 50 }
+      })
+      const records = (response.data.records || []) as { eventType: string }[]
+      return records.some(record => record.eventType === 'downloadFolderImported')
+    } catch (error) {
+      console.error('Radarr: Error getting download history:', error instanceof Error ? error.message : error)
+      return null
+    }
+  }
+
   async triggerRescan(movieId: number): Promise<boolean> {
     try {
       await this.client.post('/api/v3/command', {
@@ -0,0 +1,87 @@
+import db from '../db/index.js'
+import type { Download } from '../types/index.js'
+import { toIndexerName } from './prowlarrService.js'
+
+export interface SeedingRule {
+  // qBittorrent category (radarr or sonarr) and indexer name; empty matches any
+  category: string
+  indexer: string
+  // Ratio to reach and minutes to seed before the torrent is removed; null asks for nothing
+  // A rule asking for neither keeps its torrents seeding
+  ratio: number | null
+  seedTimeMinutes: number | null
+}
+
+// How well a rule matches; a rule naming the indexer beats one naming the category
+const getSpecificity = (rule: SeedingRule): number => (rule.indexer ? 2 : 0) + (rule.category ? 1 : 0)
+
+/**
+ * Rules for how long completed torrents seed, by qBittorrent category and indexer
+ * Removing the torrents is left to the download manager
+ */
+class SeedingPolicyService {
+  getRules(): SeedingRule[] {
+    try {
+      const rows = db.prepare('SELECT * FROM seeding_rules ORDER BY category, indexer').all() as any[]
+      return rows.map(row => ({
+        category: row.category,
+        indexer: row.indexer,
+        ratio: row.ratio,
+        seedTimeMinutes: row.seed_time_minutes
+      }))
+    } catch (error) {
+      console.error('Error getting seeding rules:', error)
+      return []
+    }
+  }
+
+  /**
+   * Replace the seeding rules; there can only be one rule per category and indexer
+   */
+  setRules(rules: SeedingRule[]): boolean {
+    try {
+      const insert = db.prepare(`
+        INSERT INTO seeding_rules (category, indexer, ratio, seed_time_minutes)
+        VALUES (?, ?, ?, ?)
+      `)
+
+      db.transaction(() => {
+        db.prepare('DELETE FROM seeding_rules').run()
+        for (const rule of rules) {
+          insert.run(rule.category, rule.indexer, rule.ratio, rule.seedTimeMinutes)
+        }
+      })()
+      return true
+    } catch (error) {
+      console.error('Error saving seeding rules:', error)
+      return false
+    }
+  }
+
+  /**
+   * The most specific rule for a category and indexer, if any
+   */
+  findRule(category: string, indexer: string | undefined): SeedingRule | null {
+    const name = indexer ? toIndexerName(indexer) : ''
+    const matching = this.getRules().filter(rule =>
+      (!rule.category || rule.category === category) &&
+      (!rule.indexer || toIndexerName(rule.indexer) === name)
+    )
+
+    matching.sort((a, b) => getSpecificity(b) - getSpecificity(a))
+    return matching[0] ?? null
+  }
+
+  /**
+   * Whether a download has seeded as long as a rule asks
+   */
+  isSatisfied(rule: SeedingRule, download: Download): boolean {
+    if (rule.ratio === null && rule.seedTimeMinutes === null) return false
+
+    const ratioMet = rule.ratio === null || (download.ratio ?? 0) >= rule.ratio
+    const seedTimeMet = rule.seedTimeMinutes === null || (download.seedingTime ?? 0) >= rule.seedTimeMinutes * 60
+    return ratioMet && seedTimeMet
+  }
+}
+
+export const seedingPolicyService = new SeedingPolicyService()
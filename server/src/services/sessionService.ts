@@ -0,0 +1,185 @@
+import crypto from 'crypto'
+import { v4 as uuidv4 } from 'uuid'
+import db from '../db/index.js'
+import { config } from '../config.js'
+import { describeDevice } from '../utils/device.js'
+
+export interface Session {
+  id: string
+  userId: string
+  profileId: string | null
+  // Readable device description derived from the user agent
+  device: string
+  userAgent: string | null
+  ip: string | null
+  createdAt: string
+  lastUsedAt: string
+  expiresAt: string
+}
+
+export interface IssuedSession {
+  session: Session
+  refreshToken: string
+}
+
+class SessionService {
+  /**
+   * Start a session for a newly signed-in device
+   */
+  createSession(userId: string, userAgent: string | undefined, ip: string): IssuedSession | null {
+    try {
+      this.deleteExpiredSessions()
+
+      const refreshToken = this.generateRefreshToken()
+      const result = db.prepare(`
+        INSERT INTO sessions (id, user_id, refresh_token_hash, user_agent, ip, expires_at)
+        VALUES (?, ?, ?, ?, ?, datetime('now', ?))
+        RETURNING *
+      `).get(uuidv4(), userId, this.hashToken(refreshToken), userAgent || null, ip, this.getExpiryModifier())
+
+      return result ? { session: this.mapRowToSession(result), refreshToken } : null
+    } catch (error) {
+      console.error('Error creating session:', error)
+      return null
+    }
+  }
+
+  /**
+   * Exchange a refresh token for a new one, extending the session
+   * The old token stops working, so a copied token is only good until the next refresh
+   */
+  rotateRefreshToken(refreshToken: string, userAgent: string | undefined, ip: string): IssuedSession | null {
+    try {
+      const newToken = this.generateRefreshToken()
+      const result = db.prepare(`
+        UPDATE sessions
+        SET refresh_token_hash = ?,
+            user_agent = COALESCE(?, user_agent),
+            ip = ?,
+            last_used_at = CURRENT_TIMESTAMP,
+            expires_at = datetime('now', ?)
+        WHERE refresh_token_hash = ? AND expires_at > CURRENT_TIMESTAMP
+        RETURNING *
+      `).get(
+        this.hashToken(newToken),
+        userAgent || null,
+        ip,
+        this.getExpiryModifier(),
+        this.hashToken(refreshToken)
+      )
+
+      return result ? { session: this.mapRowToSession(result), refreshToken: newToken } : null
+    } catch (error) {
+      console.error('Error rotating refresh token:', error)
+      return null
+    }
+  }
+
+  isSessionActive(id: string): boolean {
+    try {
+      const row = db.prepare(`
+        SELECT 1 FROM sessions
+        WHERE id = ? AND expires_at > CURRENT_TIMESTAMP
+      `).get(id)
+      return !!row
+    } catch (error) {
+      console.error('Error checking session:', error)
+      return false
+    }
+  }
+
+  /**
+   * Remember the selected profile so refreshed tokens stay scoped to it
+   */
+  setProfile(id: string, profileId: string | null): void {
+    try {
+      db.prepare('UPDATE sessions SET profile_id = ? WHERE id = ?').run(profileId, id)
+    } catch (error) {
+      console.error('Error setting session profile:', error)
+    }
+  }
+
+  /**
+   * Get the signed-in devices of an account, most recently used first
+   */
+  listSessions(userId: string): Session[] {
+    try {
+      const results = db.prepare(`
+        SELECT * FROM sessions
+        WHERE user_id = ? AND expires_at > CURRENT_TIMESTAMP
+        ORDER BY last_used_at DESC
+      `).all(userId)
+      return results.map(row => this.mapRowToSession(row))
+    } catch (error) {
+      console.error('Error listing sessions:', error)
+      return []
+    }
+  }
+
+  /**
+   * Sign a device out (only sessions belonging to the given account)
+   */
+  revokeSession(id: string, userId: string): boolean {
+    try {
+      const result = db.prepare('DELETE FROM sessions WHERE id = ? AND user_id = ?').run(id, userId)
+      return result.changes > 0
+    } catch (error) {
+      console.error('Error revoking session:', error)
+      return false
+    }
+  }
+
+  /**
+   * Sign out every device of an account, optionally keeping the current one
+   * Returns the IDs of the revoked sessions
+   */
+  revokeAllSessions(userId: string, exceptId?: string): string[] {
+    try {
+      const rows = db.prepare(`
+        DELETE FROM sessions
+        WHERE user_id = ? AND id != ?
+        RETURNING id
+      `).all(userId, exceptId ?? '') as { id: string }[]
+      return rows.map(row => row.id)
+    } catch (error) {
+      console.error('Error revoking sessions:', error)
+      return []
+    }
+  }
+
+  private deleteExpiredSessions(): void {
+    db.prepare('DELETE FROM sessions WHERE expires_at <= CURRENT_TIMESTAMP').run()
+  }
+
+  private generateRefreshToken(): string {
+    return crypto.randomBytes(32).toString('base64url')
+  }
+
+  // Only hashes are stored, so a leaked database can't be used to sign in
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex')
+  }
+
+  private getExpiryModifier(): string {
+    return `+${config.auth.refreshTokenExpiryDays} days`
+  }
+
+  /**
+   * Map database row to Session object (never exposes the token hash)
+   */
+  private mapRowToSession(row: any): Session {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      profileId: row.profile_id,
+      device: describeDevice(row.user_agent),
+      userAgent: row.user_agent,
+      ip: row.ip,
+      createdAt: row.created_at,
+      lastUsedAt: row.last_used_at,
+      expiresAt: row.expires_at
+    }
+  }
+}
+
+export const sessionService = new SessionService()
@@ -20,6 +20,7 @@ interface SonarrSeries {
   useSceneNumbering: boolean
   runtime: number
   tvdbId: number
+  tmdbId?: number
   tvRageId?: number
   tvMazeId?: number
   firstAired?: string
@@ -31,6 +32,7 @@ interface SonarrSeries {
   tags: number[]
   added: string
   ratings: { votes: number; value: number }
+  certification?: string
   statistics?: {
     seasonCount: number
     episodeFileCount: number
@@ -77,6 +79,8 @@ interface SonarrRootFolder {
   path: string
   accessible: boolean
   freeSpace: number
+  // Not reported by older versions
+  totalSpace?: number
 }
 
 interface SonarrQualityProfile {
@@ -316,6 +320,23 @@ class SonarrService {
     }
   }
 
+  /**
+   * Whether Sonarr has imported the files of a download, by its torrent hash
+   * Null when Sonarr can't be asked
+   */
+  async hasImported(infoHash: string): Promise<boolean | null> {
+    try {
+      const response = await this.client.get('/api/v3/history', {
+        params: { downloadId: infoHash.toUpperCase(), pageSize: 50 }
+      })
+      const records = (response.data.records || []) as { eventType: string }[]
+      return records.some(record => record.eventType === 'downloadFolderImported')
+    } catch (error) {
+      console.error('Sonarr: Error getting download history:', error instanceof Error ? error.message : error)
+      return null
+    }
+  }
+
   async triggerRescan(seriesId: number): Promise<boolean> {
     try {
       await this.client.post('/api/v3/command', {
@@ -0,0 +1,367 @@
+import db from '../db/index.js'
+import { config } from '../config.js'
+import { mediaMetadataService, getMediaKey, type MediaMetadata } from './mediaMetadataService.js'
+
+export interface StatsPeriodHours {
+  // First day of the week (Monday) or month, "YYYY-MM-DD"
+  start: string
+  hours: number
+}
+
+export interface GenreStats {
+  id: number
+  name: string
+  hours: number
+  plays: number
+}
+
+export interface ShowStats {
+  tmdbId: number
+  title: string | null
+  // Distinct episodes finished
+  episodes: number
+  hours: number
+}
+
+export interface BingeStats {
+  startedAt: string
+  endedAt: string
+  plays: number
+  hours: number
+  // Show watched, when the whole binge was one show
+  tmdbId: number | null
+}
+
+export interface ViewingStats {
+  // Calendar year of a year in review, null for all time
+  year: number | null
+  // Years with any plays, most recent first
+  years: number[]
+  totals: {
+    hours: number
+    plays: number
+    // Distinct movies and episodes finished
+    movies: number
+    episodes: number
+    // Share of started titles that were finished, null when nothing was started
+    completionRate: number | null
+  }
+  split: {
+    movies: { plays: number, hours: number }
+    episodes: { plays: number, hours: number }
+  }
+  byWeek: StatsPeriodHours[]
+  byMonth: StatsPeriodHours[]
+  topGenres: GenreStats[]
+  topShows: ShowStats[]
+  longestBinge: BingeStats | null
+  // False when genres and runtimes can't be looked up (no TMDB key)
+  metadataAvailable: boolean
+}
+
+interface SessionRow {
+  media_type: 'movie' | 'episode'
+  tmdb_id: number
+  season_number: number | null
+  episode_number: number | null
+  start_position_ms: number
+  end_position_ms: number
+  duration_ms: number
+  completed: number
+  started_at: string
+  ended_at: string
+}
+
+// Plays starting within this long of the previous one's end continue a binge
+const BINGE_GAP_MINUTES = 30
+
+// Charts of all-time stats cover this many recent weeks and months
+const RECENT_WEEKS = 12
+const RECENT_MONTHS = 12
+
+const TOP_GENRES = 8
+const TOP_SHOWS = 5
+
+const MS_PER_HOUR = 60 * 60 * 1000
+const MS_PER_DAY = 24 * MS_PER_HOUR
+
+// SQLite timestamps are UTC without a zone suffix
+const parseTimestamp = (value: string): number => Date.parse(`${value.replace(' ', 'T')}Z`)
+
+const toTimestamp = (time: number): string => new Date(time).toISOString().slice(0, 19).replace('T', ' ')
+
+const toHours = (ms: number): number => Math.round(ms / MS_PER_HOUR * 10) / 10
+
+const toDate = (time: number): string => new Date(time).toISOString().slice(0, 10)
+
+// Monday of the UTC week a time falls in
+const getWeekStart = (time: number): number => {
+  const date = new Date(time)
+  date.setUTCHours(0, 0, 0, 0)
+  date.setUTCDate(date.getUTCDate() - (date.getUTCDay() + 6) % 7)
+  return date.getTime()
+}
+
+const getMonthStart = (time: number): number => {
+  const date = new Date(time)
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)
+}
+
+const addMonths = (time: number, months: number): number => {
+  const date = new Date(time)
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1)
+}
+
+const getMetadataFor = (metadata: Map<string, MediaMetadata>, session: SessionRow): MediaMetadata | undefined => {
+  return metadata.get(getMediaKey({ mediaType: session.media_type === 'movie' ? 'movie' : 'tv', tmdbId: session.tmdb_id }))
+}
+
+/**
+ * Viewing statistics of a profile, built from its plays and watch progress
+ */
+class StatsService {
+  async getStats(userId: string, year: number | null): Promise<ViewingStats> {
+    const now = Date.now()
+    // All time, or the calendar year
+    const from = year === null ? null : Date.UTC(year, 0, 1)
+    const until = year === null ? null : Date.UTC(year + 1, 0, 1)
+    // Charts end now, also in the current year
+    const to = Math.min(until ?? now, now)
+
+    const sessions = this.getSessions(userId, from, until)
+    const metadata = await mediaMetadataService.getMetadata(sessions.map(session => ({
+      mediaType: session.media_type === 'movie' ? 'movie' : 'tv',
+      tmdbId: session.tmdb_id
+    })))
+
+    // Time actually played; plays recorded without tracking (imports, other apps)
+    // count as the full runtime when finished
+    const getWatchedMs = (session: SessionRow): number => {
+      if (session.started_at === session.ended_at) {
+        if (!session.completed) return 0
+        const runtimeMinutes = getMetadataFor(metadata, session)?.runtimeMinutes
+        return session.duration_ms || (runtimeMinutes ?? 0) * 60 * 1000
+      }
+      return Math.max(session.end_position_ms - session.start_position_ms, 0)
+    }
+
+    const watched = sessions.map(session => ({ session, ms: getWatchedMs(session) }))
+
+    // Totals and movies vs. episodes
+    const split = {
+      movies: { plays: 0, hours: 0 },
+      episodes: { plays: 0, hours: 0 }
+    }
+    const splitMs = { movies: 0, episodes: 0 }
+    const finishedMovies = new Set<number>()
+    const finishedEpisodes = new Set<string>()
+
+    for (const { session, ms } of watched) {
+      const side = session.media_type === 'movie' ? 'movies' : 'episodes'
+      split[side].plays++
+      splitMs[side] += ms
+
+      if (session.completed) {
+        if (session.media_type === 'movie') {
+          finishedMovies.add(session.tmdb_id)
+        } else {
+          finishedEpisodes.add(`${session.tmdb_id}:${session.season_number}:${session.episode_number}`)
+        }
+      }
+    }
+    split.movies.hours = toHours(splitMs.movies)
+    split.episodes.hours = toHours(splitMs.episodes)
+
+    // Hours per week and month
+    const weekStarts: number[] = []
+    for (let week = getWeekStart(from ?? now - (RECENT_WEEKS - 1) * 7 * MS_PER_DAY); week < to; week += 7 * MS_PER_DAY) {
+      weekStarts.push(week)
+    }
+    const monthStarts: number[] = []
+    for (let month = from ?? addMonths(getMonthStart(now), -(RECENT_MONTHS - 1)); month < to; month = addMonths(month, 1)) {
+      monthStarts.push(month)
+    }
+
+    const weekMs = new Map<number, number>(weekStarts.map(week => [week, 0]))
+    const monthMs = new Map<number, number>(monthStarts.map(month => [month, 0]))
+    for (const { session, ms } of watched) {
+      const startedAt = parseTimestamp(session.started_at)
+      const week = getWeekStart(startedAt)
+      const month = getMonthStart(startedAt)
+      if (weekMs.has(week)) weekMs.set(week, weekMs.get(week)! + ms)
+      if (monthMs.has(month)) monthMs.set(month, monthMs.get(month)! + ms)
+    }
+
+    // Genres by time watched
+    const genres = new Map<number, { name: string, ms: number, plays: number }>()
+    for (const { session, ms } of watched) {
+      for (const genre of getMetadataFor(metadata, session)?.genres ?? []) {
+        const entry = genres.get(genre.id) ?? { name: genre.name, ms: 0, plays: 0 }
+        entry.ms += ms
+        entry.plays++
+        genres.set(genre.id, entry)
+      }
+    }
+
+    // Shows by time watched
+    const shows = new Map<number, { episodes: Set<string>, ms: number }>()
+    for (const { session, ms } of watched) {
+      if (session.media_type !== 'episode') continue
+      const entry = shows.get(session.tmdb_id) ?? { episodes: new Set<string>(), ms: 0 }
+      entry.ms += ms
+      if (session.completed) entry.episodes.add(`${session.season_number}:${session.episode_number}`)
+      shows.set(session.tmdb_id, entry)
+    }
+
+    return {
+      year,
+      years: this.getYears(userId),
+      totals: {
+        hours: toHours(splitMs.movies + splitMs.episodes),
+        plays: sessions.length,
+        movies: finishedMovies.size,
+        episodes: finishedEpisodes.size,
+        completionRate: this.getCompletionRate(userId, from, until)
+      },
+      split,
+      byWeek: weekStarts.map(week => ({ start: toDate(week), hours: toHours(weekMs.get(week)!) })),
+      byMonth: monthStarts.map(month => ({ start: toDate(month), hours: toHours(monthMs.get(month)!) })),
+      topGenres: [...genres.entries()]
+        .sort((a, b) => b[1].ms - a[1].ms)
+        .slice(0, TOP_GENRES)
+        .map(([id, entry]) => ({ id, name: entry.name, hours: toHours(entry.ms), plays: entry.plays })),
+      topShows: [...shows.entries()]
+        .sort((a, b) => b[1].ms - a[1].ms || b[1].episodes.size - a[1].episodes.size)
+        .slice(0, TOP_SHOWS)
+        .map(([tmdbId, entry]) => ({
+          tmdbId,
+          title: metadata.get(getMediaKey({ mediaType: 'tv', tmdbId }))?.title ?? null,
+          episodes: entry.episodes.size,
+          hours: toHours(entry.ms)
+        })),
+      longestBinge: this.findLongestBinge(watched),
+      metadataAvailable: config.tmdb.enabled
+    }
+  }
+
+  /**
+   * Longest stretch of plays with short breaks, by time watched
+   * Plays recorded without tracking have no real start and end, so they're left out
+   */
+  private findLongestBinge(watched: { session: SessionRow, ms: number }[]): BingeStats | null {
+    const binges: { plays: SessionRow[], ms: number, endedAt: number }[] = []
+
+    for (const { session, ms } of watched) {
+      if (session.started_at === session.ended_at) continue
+
+      const current = binges[binges.length - 1]
+      const startedAt = parseTimestamp(session.started_at)
+      const endedAt = parseTimestamp(session.ended_at)
+
+      if (current && startedAt - current.endedAt <= BINGE_GAP_MINUTES * 60 * 1000) {
+        current.plays.push(session)
+        current.ms += ms
+        current.endedAt = Math.max(current.endedAt, endedAt)
+      } else {
+        binges.push({ plays: [session], ms, endedAt })
+      }
+    }
+
+    const longest = binges
+      .filter(binge => binge.plays.length >= 2)
+      .reduce<typeof binges[number] | null>((best, binge) => (!best || binge.ms > best.ms ? binge : best), null)
+    if (!longest) return null
+
+    const shows = new Set(longest.plays.map(session => session.media_type === 'episode' ? session.tmdb_id : null))
+    const [show] = shows
+
+    return {
+      startedAt: longest.plays[0].started_at,
+      endedAt: toTimestamp(longest.endedAt),
+      plays: longest.plays.length,
+      hours: toHours(longest.ms),
+      tmdbId: shows.size === 1 ? show : null
+    }
+  }
+
+  /**
+   * Plays that started in [from, to), oldest first
+   */
+  private getSessions(userId: string, from: number | null, to: number | null): SessionRow[] {
+    const conditions = ['user_id = ?']
+    const params: (string | number)[] = [userId]
+
+    if (from !== null) {
+      conditions.push('started_at >= ?')
+      params.push(toTimestamp(from))
+    }
+    if (to !== null) {
+      conditions.push('started_at < ?')
+      params.push(toTimestamp(to))
+    }
+
+    try {
+      return db.prepare(`
+        SELECT * FROM watch_sessions
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY started_at, id
+      `).all(...params) as SessionRow[]
+    } catch (error) {
+      console.error('Error getting plays for stats:', error)
+      return []
+    }
+  }
+
+  /**
+   * Share of titles started in [from, to) that have been finished
+   * A title being rewatched counts as finished when an earlier play was
+   */
+  private getCompletionRate(userId: string, from: number | null, to: number | null): number | null {
+    const conditions = ['user_id = ?']
+    const params: (string | number)[] = [userId]
+
+    if (from !== null) {
+      conditions.push('created_at >= ?')
+      params.push(toTimestamp(from))
+    }
+    if (to !== null) {
+      conditions.push('created_at < ?')
+      params.push(toTimestamp(to))
+    }
+
+    try {
+      const { started, finished } = db.prepare(`
+        SELECT COUNT(*) AS started, COALESCE(SUM(completed OR EXISTS (
+          SELECT 1 FROM watch_sessions s
+          WHERE s.user_id = p.user_id AND s.media_type = p.media_type AND s.tmdb_id = p.tmdb_id
+            AND s.season_number IS p.season_number AND s.episode_number IS p.episode_number
+            AND s.completed = 1
+        )), 0) AS finished
+        FROM watch_progress p
+        WHERE ${conditions.join(' AND ')}
+      `).get(...params) as { started: number, finished: number }
+
+      return started > 0 ? Math.round(finished / started * 1000) / 1000 : null
+    } catch (error) {
+      console.error('Error getting completion rate:', error)
+      return null
+    }
+  }
+
+  private getYears(userId: string): number[] {
+    try {
+      const rows = db.prepare(`
+        SELECT DISTINCT CAST(strftime('%Y', started_at) AS INTEGER) AS year
+        FROM watch_sessions
+        WHERE user_id = ?
+        ORDER BY year DESC
+      `).all(userId) as { year: number }[]
+      return rows.map(row => row.year)
+    } catch (error) {
+      console.error('Error getting watched years:', error)
+      return []
+    }
+  }
+}
+
+export const statsService = new StatsService()
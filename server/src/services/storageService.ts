@@ -0,0 +1,103 @@
+import fs from 'fs'
+import { config } from '../config.js'
+import { radarrService } from './radarrService.js'
+import { sonarrService } from './sonarrService.js'
+
+// Sizes in bytes; total is null when it isn't reported
+export interface DiskSpace {
+  path: string
+  free: number
+  total: number | null
+  used: number | null
+}
+
+export interface StorageStatus {
+  downloads: (DiskSpace & { reserve: number, low: boolean }) | null
+  radarr: DiskSpace[]
+  sonarr: DiskSpace[]
+}
+
+const GB = 1024 * 1024 * 1024
+
+/**
+ * A download refused because it would leave less free space than the reserve
+ */
+export class InsufficientSpaceError extends Error {
+  constructor(public readonly required: number, public readonly free: number) {
+    super('Not enough free disk space for this download')
+    this.name = 'InsufficientSpaceError'
+  }
+}
+
+const toDiskSpace = (folder: { path: string, freeSpace: number, totalSpace?: number }): DiskSpace => ({
+  path: folder.path,
+  free: folder.freeSpace,
+  total: folder.totalSpace ?? null,
+  used: folder.totalSpace ? folder.totalSpace - folder.freeSpace : null
+})
+
+/**
+ * Free and used space of the download disk and the Radarr/Sonarr root folders
+ */
+class StorageService {
+  /**
+   * Free space kept on the download disk, in bytes
+   */
+  getReserve(): number {
+    return Math.max(config.qbittorrent.diskReserveGb, 0) * GB
+  }
+
+  /**
+   * Space on the disk holding a path, as seen by this server; null when it can't be read
+   */
+  getDiskSpace(path: string): DiskSpace | null {
+    try {
+      const stats = fs.statfsSync(path)
+      const total = stats.blocks * stats.bsize
+      // Space available to this process, not counting blocks reserved for root
+      const free = stats.bavail * stats.bsize
+      return { path, free, total, used: total - stats.bfree * stats.bsize }
+    } catch (error) {
+      console.error(`Error reading disk space of ${path}:`, error)
+      return null
+    }
+  }
+
+  /**
+   * Space on the download disk, with the reserve and whether free space is already below it
+   */
+  getDownloadSpace(): StorageStatus['downloads'] {
+    const space = this.getDiskSpace(config.downloadPath)
+    if (!space) return null
+
+    const reserve = this.getReserve()
+    return { ...space, reserve, low: space.free < reserve }
+  }
+
+  /**
+   * Whether the download disk can take this many more bytes and keep the reserve free
+   * Unknown free space lets downloads through, as before the check existed
+   */
+  hasRoomFor(bytes: number): boolean {
+    const space = this.getDiskSpace(config.downloadPath)
+    return !space || space.free - bytes >= this.getReserve()
+  }
+
+  /**
+   * The download disk, and the root folders as reported by Radarr and Sonarr, which may see other disks
+   */
+  async getStatus(): Promise<StorageStatus> {
+    const [radarrFolders, sonarrFolders] = await Promise.all([
+      radarrService.isEnabled() ? radarrService.getRootFolders() : Promise.resolve([]),
+      sonarrService.isEnabled() ? sonarrService.getRootFolders() : Promise.resolve([])
+    ])
+
+    return {
+      downloads: this.getDownloadSpace(),
+      radarr: radarrFolders.map(toDiskSpace),
+      sonarr: sonarrFolders.map(toDiskSpace)
+    }
+  }
+}
+
+export const storageService = new StorageService()
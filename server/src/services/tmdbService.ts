@@ -0,0 +1,290 @@
+import axios, { AxiosInstance } from 'axios'
+import { config } from '../config.js'
+import { apiCacheService, type ApiResponse, type CachePolicy } from './apiCacheService.js'
+
+const TMDB_API_URL = 'https://api.themoviedb.org/3'
+
+// TMDB allows around 50 requests a second and 20 connections per IP
+const MAX_REQUESTS_PER_SECOND = 40
+const MAX_CONCURRENT_REQUESTS = 20
+
+// Times a request is retried after TMDB answers 429 Too Many Requests
+const MAX_RATE_LIMIT_RETRIES = 2
+
+const HOUR = 60 * 60
+const DAY = 24 * HOUR
+
+// Cached responses are still served for this long after expiring, while being refreshed
+const STALE_SECONDS = 7 * DAY
+
+// How long responses are cached, by endpoint; first match wins
+const CACHE_TTLS: { pattern: RegExp, ttlSeconds: number }[] = [
+  { pattern: /^\/(configuration|genre)(\/|$)/, ttlSeconds: 7 * DAY },
+  { pattern: /^\/find\//, ttlSeconds: 7 * DAY },
+  { pattern: /^\/(trending|discover|search)\//, ttlSeconds: HOUR },
+  { pattern: /^\/(movie|tv)\/(popular|top_rated|now_playing|upcoming|airing_today|on_the_air)$/, ttlSeconds: HOUR },
+  // Shows gain episodes, so their details go out of date sooner
+  { pattern: /^\/tv\/\d+/, ttlSeconds: 6 * HOUR },
+  { pattern: /^\/(movie|person|collection)\/\d+/, ttlSeconds: DAY }
+]
+const DEFAULT_TTL_SECONDS = HOUR
+
+// Query parameters the proxy passes on, by endpoint; first match wins
+// Anything else is dropped, so made-up parameters can't fill the cache with copies of a response
+const LIST_PARAMS = ['language', 'page', 'region']
+const DISCOVER_PARAMS = [
+  'include_adult', 'sort_by', 'watch_region', 'with_watch_providers',
+  'with_genres', 'without_genres', 'with_keywords', 'with_companies', 'with_networks',
+  'with_origin_country', 'with_original_language', 'with_release_type', 'with_status', 'with_type',
+  'primary_release_year', 'first_air_date_year', 'year',
+  'primary_release_date.gte', 'primary_release_date.lte', 'first_air_date.gte', 'first_air_date.lte',
+  'release_date.gte', 'release_date.lte', 'air_date.gte', 'air_date.lte',
+  'vote_average.gte', 'vote_average.lte', 'vote_count.gte', 'vote_count.lte',
+  'with_runtime.gte', 'with_runtime.lte', 'certification', 'certification.lte', 'certification_country'
+]
+const ENDPOINT_PARAMS: { pattern: RegExp, params: Set<string> }[] = [
+  { pattern: /^\/discover\//, params: new Set([...LIST_PARAMS, ...DISCOVER_PARAMS]) },
+  { pattern: /^\/search\//, params: new Set([...LIST_PARAMS, 'query', 'include_adult', 'year', 'primary_release_year', 'first_air_date_year']) },
+  { pattern: /^\/find\//, params: new Set(['language', 'external_source']) },
+  { pattern: /^\/(movie|tv|person|collection)\/\d+/, params: new Set([...LIST_PARAMS, 'append_to_response', 'include_image_language', 'include_video_language']) }
+]
+const DEFAULT_PARAMS = new Set(LIST_PARAMS)
+
+// Endpoint paths the proxy passes on
+const PATH_PATTERN = /^(\/[a-z0-9_-]+)+$/i
+
+export type TmdbParams = Record<string, string>
+
+export interface TmdbGenre {
+  id: number
+  name: string
+}
+
+export interface TmdbTitle {
+  title: string | null
+  genres: TmdbGenre[]
+  // Movie runtime, or the usual episode runtime of a show
+  runtimeMinutes: number | null
+  posterPath: string | null
+  backdropPath: string | null
+  tvdbId: number | null
+  imdbId: string | null
+}
+
+export interface TmdbEpisodeNumber {
+  seasonNumber: number
+  episodeNumber: number
+}
+
+const getCachePolicy = (path: string): CachePolicy => ({
+  ttlSeconds: CACHE_TTLS.find(({ pattern }) => pattern.test(path))?.ttlSeconds ?? DEFAULT_TTL_SECONDS,
+  staleSeconds: STALE_SECONDS
+})
+
+const getAllowedParams = (path: string): Set<string> => {
+  return ENDPOINT_PARAMS.find(({ pattern }) => pattern.test(path))?.params ?? DEFAULT_PARAMS
+}
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms))
+
+class TmdbService {
+  private client: AxiosInstance
+
+  // Start times of requests in the last second, oldest first
+  private recentRequests: number[] = []
+  private activeRequests = 0
+  private waitingForSlot: (() => void)[] = []
+  // Set from Retry-After when TMDB says we're going too fast
+  private pausedUntil = 0
+
+  constructor() {
+    this.client = axios.create({
+      baseURL: TMDB_API_URL,
+      timeout: 15000,
+      params: {
+        api_key: config.tmdb.apiKey
+      }
+    })
+  }
+
+  /**
+   * Get the title, genres, runtime, artwork and other ids of a movie or show
+   * Titles TMDB doesn't know come back empty, so they aren't looked up again;
+   * null means TMDB couldn't be reached
+   */
+  async getTitle(mediaType: 'movie' | 'tv', tmdbId: number): Promise<TmdbTitle | null> {
+    try {
+      const data = await this.getJson(`/${mediaType}/${tmdbId}`, { append_to_response: 'external_ids' })
+      if (!data) {
+        return {
+          title: null,
+          genres: [],
+          runtimeMinutes: null,
+          posterPath: null,
+          backdropPath: null,
+          tvdbId: null,
+          imdbId: null
+        }
+      }
+
+      return {
+        title: (mediaType === 'movie' ? data.title : data.name) || null,
+        genres: (data.genres || []).map((genre: TmdbGenre) => ({ id: genre.id, name: genre.name })),
+        runtimeMinutes: mediaType === 'movie'
+          ? data.runtime || null
+          : data.episode_run_time?.[0] || data.last_episode_to_air?.runtime || null,
+        posterPath: data.poster_path || null,
+        backdropPath: data.backdrop_path || null,
+        tvdbId: data.external_ids?.tvdb_id || null,
+        imdbId: data.external_ids?.imdb_id || data.imdb_id || null
+      }
+    } catch (error: any) {
+      console.error(`TMDB: Error getting ${mediaType} ${tmdbId}:`, error.message)
+      return null
+    }
+  }
+
+  /**
+   * Find the TMDB id of a show by its TVDB id
+   * Null when TMDB doesn't know the show or couldn't be reached
+   */
+  async findShowByTvdbId(tvdbId: number): Promise<number | null> {
+    try {
+      const data = await this.getJson(`/find/${tvdbId}`, { external_source: 'tvdb_id' })
+      return data?.tv_results?.[0]?.id ?? null
+    } catch (error: any) {
+      console.error(`TMDB: Error finding show with TVDB id ${tvdbId}:`, error.message)
+      return null
+    }
+  }
+
+  /**
+   * List the episodes of a show that have aired, in order, specials (season 0) included
+   * Episode numbers are taken from the season episode counts, capped at the latest aired episode;
+   * null means TMDB couldn't be reached
+   */
+  async getAiredEpisodes(tmdbId: number): Promise<TmdbEpisodeNumber[] | null> {
+    try {
+      const data = await this.getJson(`/tv/${tmdbId}`)
+      const lastAired = data?.last_episode_to_air
+      if (!lastAired) return []
+
+      const episodes: TmdbEpisodeNumber[] = []
+      const seasons = [...(data.seasons || [])]
+        .sort((a: any, b: any) => a.season_number - b.season_number)
+
+      for (const season of seasons) {
+        const seasonNumber: number = season.season_number
+        if (seasonNumber > lastAired.season_number) break
+
+        const count = seasonNumber === lastAired.season_number
+          ? lastAired.episode_number
+          : season.episode_count || 0
+        for (let episodeNumber = 1; episodeNumber <= count; episodeNumber++) {
+          episodes.push({ seasonNumber, episodeNumber })
+        }
+      }
+      return episodes
+    } catch (error: any) {
+      console.error(`TMDB: Error getting episodes of show ${tmdbId}:`, error.message)
+      return null
+    }
+  }
+
+  /**
+   * Get any TMDB endpoint through the cache, with our API key added
+   * Returns TMDB's status and body as they are; throws when TMDB can't be reached
+   * and nothing is cached
+   */
+  async proxy(path: string, params: TmdbParams = {}): Promise<ApiResponse> {
+    // Only the endpoint's own parameters are passed on (never api_key, which is ours to add),
+    // and sorting keeps one cache entry per query
+    const allowedParams = getAllowedParams(path)
+    const query = Object.entries(params)
+      .filter(([name]) => allowedParams.has(name))
+      .sort(([a], [b]) => a.localeCompare(b))
+    const cacheKey = `tmdb:${path}?${new URLSearchParams(query).toString()}`
+
+    return apiCacheService.get(cacheKey, getCachePolicy(path), () => this.request(path, Object.fromEntries(query)))
+  }
+
+  /**
+   * Whether a path looks like a TMDB endpoint, like /movie/550/credits
+   */
+  isValidPath(path: string): boolean {
+    return PATH_PATTERN.test(path)
+  }
+
+  isEnabled(): boolean {
+    return config.tmdb.enabled
+  }
+
+  /**
+   * Get the body of an endpoint through the cache, or null when TMDB doesn't know it
+   */
+  private async getJson(path: string, params: TmdbParams = {}): Promise<any> {
+    const { status, data } = await this.proxy(path, params)
+    if (status === 404) return null
+    if (status !== 200) throw new Error(`TMDB responded with ${status}`)
+    return data
+  }
+
+  /**
+   * Call TMDB within its rate limits, waiting out any 429 it answers with
+   * Server errors throw, so they aren't cached; other statuses are returned
+   */
+  private async request(path: string, params: TmdbParams): Promise<ApiResponse> {
+    for (let attempt = 0; ; attempt++) {
+      await this.acquireSlot()
+      let response
+      try {
+        response = await this.client.get(path, { params, validateStatus: () => true })
+      } finally {
+        this.releaseSlot()
+      }
+
+      if (response.status === 429 && attempt < MAX_RATE_LIMIT_RETRIES) {
+        const retryAfterSeconds = parseInt(response.headers['retry-after'], 10) || 1
+        this.pausedUntil = Math.max(this.pausedUntil, Date.now() + retryAfterSeconds * 1000)
+        console.warn(`TMDB: Rate limited, pausing for ${retryAfterSeconds}s`)
+        continue
+      }
+
+      if (response.status === 429 || response.status >= 500) {
+        throw new Error(`TMDB responded with ${response.status}`)
+      }
+      return { status: response.status, data: response.data }
+    }
+  }
+
+  private async acquireSlot(): Promise<void> {
+    for (;;) {
+      if (this.activeRequests >= MAX_CONCURRENT_REQUESTS) {
+        await new Promise<void>(resolve => this.waitingForSlot.push(resolve))
+        continue
+      }
+
+      const now = Date.now()
+      this.recentRequests = this.recentRequests.filter(startedAt => now - startedAt < 1000)
+      const waitMs = Math.max(
+        this.pausedUntil - now,
+        this.recentRequests.length >= MAX_REQUESTS_PER_SECOND ? this.recentRequests[0] + 1000 - now : 0
+      )
+      if (waitMs > 0) {
+        await sleep(waitMs)
+        continue
+      }
+
+      this.recentRequests.push(now)
+      this.activeRequests++
+      return
+    }
+  }
+
+  private releaseSlot(): void {
+    this.activeRequests--
+    this.waitingForSlot.shift()?.()
+  }
+}
+
+export const tmdbService = new TmdbService()
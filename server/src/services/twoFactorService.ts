@@ -0,0 +1,198 @@
+import crypto from 'crypto'
+import QRCode from 'qrcode'
+import db from '../db/index.js'
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from '../utils/totp.js'
+
+// Name shown next to the account in authenticator apps
+const TOTP_ISSUER = 'My Cinema'
+
+const RECOVERY_CODE_COUNT = 10
+
+export interface TwoFactorSetup {
+  secret: string
+  otpauthUri: string
+  // PNG data URL of the otpauth URI, ready to use as an <img> source
+  qrCode: string
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean
+  recoveryCodesRemaining: number
+}
+
+// How a second-step code was accepted
+export type TwoFactorMethod = 'totp' | 'recovery'
+
+export class TwoFactorService {
+  // The clock is injectable so codes can be checked against a fixed time
+  constructor(private readonly now: () => number = Date.now) {}
+
+  getStatus(userId: string): TwoFactorStatus {
+    try {
+      const row = db.prepare('SELECT totp_enabled FROM users WHERE id = ?').get(userId) as
+        { totp_enabled: number } | undefined
+      return {
+        enabled: !!row?.totp_enabled,
+        recoveryCodesRemaining: row?.totp_enabled ? this.countRecoveryCodes(userId) : 0
+      }
+    } catch (error) {
+      console.error('Error getting two-factor status:', error)
+      return { enabled: false, recoveryCodesRemaining: 0 }
+    }
+  }
+
+  isEnabled(userId: string): boolean {
+    return this.getStatus(userId).enabled
+  }
+
+  /**
+   * Generate a new secret for an account that hasn't enabled two-factor yet
+   * The secret is stored but not enforced until confirmed with enable()
+   */
+  async beginSetup(userId: string, username: string): Promise<TwoFactorSetup | null> {
+    try {
+      const secret = generateTotpSecret()
+      const result = db.prepare(`
+        UPDATE users
+        SET totp_secret = ?, totp_last_step = NULL, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ? AND totp_enabled = 0
+      `).run(secret, userId)
+
+      if (result.changes === 0) return null
+
+      const otpauthUri = buildOtpauthUri(secret, username, TOTP_ISSUER)
+      return { secret, otpauthUri, qrCode: await QRCode.toDataURL(otpauthUri) }
+    } catch (error) {
+      console.error('Error starting two-factor setup:', error)
+      return null
+    }
+  }
+
+  /**
+   * Turn two-factor on once the user proves their app generates valid codes
+   * Returns the plain recovery codes, which are only shown this once
+   */
+  enable(userId: string, code: string): string[] | null {
+    try {
+      const row = db.prepare('SELECT totp_secret, totp_enabled FROM users WHERE id = ?').get(userId) as
+        { totp_secret: string | null, totp_enabled: number } | undefined
+
+      if (!row?.totp_secret || row.totp_enabled) return null
+
+      const step = verifyTotp(row.totp_secret, code, this.now())
+      if (step === null) return null
+
+      const enable = db.transaction(() => {
+        db.prepare(`
+          UPDATE users
+          SET totp_enabled = 1, totp_last_step = ?, updated_at = CURRENT_TIMESTAMP
+          WHERE id = ?
+        `).run(step, userId)
+        return this.replaceRecoveryCodes(userId)
+      })
+      return enable()
+    } catch (error) {
+      console.error('Error enabling two-factor:', error)
+      return null
+    }
+  }
+
+  /**
+   * Check a second-step code: an authenticator code or an unused recovery code
+   */
+  verifyCode(userId: string, code: string): TwoFactorMethod | null {
+    const normalized = code.replace(/[\s-]/g, '').toLowerCase()
+
+    try {
+      const row = db.prepare('SELECT totp_secret, totp_enabled FROM users WHERE id = ?').get(userId) as
+        { totp_secret: string | null, totp_enabled: number } | undefined
+
+      if (!row?.totp_secret || !row.totp_enabled) return null
+
+      const step = verifyTotp(row.totp_secret, normalized, this.now())
+      if (step !== null) {
+        // Each code only works once, so a code seen over someone's shoulder can't be replayed
+        const result = db.prepare(`
+          UPDATE users
+          SET totp_last_step = ?
+          WHERE id = ? AND (totp_last_step IS NULL OR totp_last_step < ?)
+        `).run(step, userId, step)
+        return result.changes > 0 ? 'totp' : null
+      }
+
+      const result = db.prepare(`
+        UPDATE recovery_codes
+        SET used_at = CURRENT_TIMESTAMP
+        WHERE user_id = ? AND code_hash = ? AND used_at IS NULL
+      `).run(userId, this.hashCode(normalized))
+      return result.changes > 0 ? 'recovery' : null
+    } catch (error) {
+      console.error('Error verifying two-factor code:', error)
+      return null
+    }
+  }
+
+  /**
+   * Issue a fresh set of recovery codes, invalidating the old ones
+   */
+  regenerateRecoveryCodes(userId: string): string[] | null {
+    try {
+      if (!this.isEnabled(userId)) return null
+      return db.transaction(() => this.replaceRecoveryCodes(userId))()
+    } catch (error) {
+      console.error('Error regenerating recovery codes:', error)
+      return null
+    }
+  }
+
+  disable(userId: string): boolean {
+    try {
+      const disable = db.transaction(() => {
+        db.prepare('DELETE FROM recovery_codes WHERE user_id = ?').run(userId)
+        return db.prepare(`
+          UPDATE users
+          SET totp_secret = NULL, totp_enabled = 0, totp_last_step = NULL, updated_at = CURRENT_TIMESTAMP
+          WHERE id = ? AND totp_enabled = 1
+        `).run(userId)
+      })
+      return disable().changes > 0
+    } catch (error) {
+      console.error('Error disabling two-factor:', error)
+      return false
+    }
+  }
+
+  private countRecoveryCodes(userId: string): number {
+    const row = db.prepare(`
+      SELECT COUNT(*) AS count FROM recovery_codes
+      WHERE user_id = ? AND used_at IS NULL
+    `).get(userId) as { count: number }
+    return row.count
+  }
+
+  // Must run inside a transaction
+  private replaceRecoveryCodes(userId: string): string[] {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => this.generateRecoveryCode())
+
+    db.prepare('DELETE FROM recovery_codes WHERE user_id = ?').run(userId)
+    const insert = db.prepare('INSERT INTO recovery_codes (user_id, code_hash) VALUES (?, ?)')
+    for (const code of codes) {
+      insert.run(userId, this.hashCode(code.replace('-', '')))
+    }
+
+    return codes
+  }
+
+  // Formatted as xxxxx-xxxxx for readability; the dash is optional when typing it in
+  private generateRecoveryCode(): string {
+    const value = crypto.randomBytes(5).toString('hex')
+    return `${value.slice(0, 5)}-${value.slice(5)}`
+  }
+
+  // Only hashes are stored, like refresh tokens
+  private hashCode(code: string): string {
+    return crypto.createHash('sha256').update(code).digest('hex')
+  }
+}
+
+export const twoFactorService = new TwoFactorService()
@@ -0,0 +1,200 @@
+import bcrypt from 'bcryptjs'
+import { v4 as uuidv4 } from 'uuid'
+import db from '../db/index.js'
+import { config } from '../config.js'
+
+// User ID that owned all data before multi-user accounts existed.
+// The bootstrap admin account reuses it so existing progress stays attached.
+export const DEFAULT_USER_ID = 'default'
+
+const BCRYPT_ROUNDS = 10
+
+// Compared against when the username is unknown, so lookups of missing
+// accounts take as long as a wrong password
+const DUMMY_HASH = bcrypt.hashSync('my-cinema-dummy-password', BCRYPT_ROUNDS)
+
+export type UserRole = 'admin' | 'viewer' | 'kid'
+
+export const USER_ROLES: UserRole[] = ['admin', 'viewer', 'kid']
+
+export interface User {
+  id: string
+  username: string
+  role: UserRole
+  // Highest content rating a kid account may play
+  maxRating: string | null
+  twoFactorEnabled: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+class UserService {
+  /**
+   * Create the initial admin account from APP_PASSWORD_HASH when no users exist
+   */
+  ensureBootstrapUser(): void {
+    if (!config.auth.passwordHash) return
+
+    try {
+      const row = db.prepare('SELECT COUNT(*) AS count FROM users').get() as { count: number }
+      if (row.count > 0) return
+
+      db.prepare(`
+        INSERT INTO users (id, username, password_hash, role)
+        VALUES (?, ?, ?, 'admin')
+      `).run(DEFAULT_USER_ID, config.auth.adminUsername, config.auth.passwordHash)
+
+      console.log(`Created initial user "${config.auth.adminUsername}" from APP_PASSWORD_HASH`)
+    } catch (error) {
+      console.error('Error creating initial user:', error)
+    }
+  }
+
+  /**
+   * Create a new user account
+   */
+  async createUser(
+    username: string,
+    password: string,
+    role: UserRole = 'viewer',
+    maxRating: string | null = null
+  ): Promise<User | null> {
+    try {
+      const passwordHash = await bcrypt.hash(password, BCRYPT_ROUNDS)
+      const result = db.prepare(`
+        INSERT INTO users (id, username, password_hash, role, max_rating)
+        VALUES (?, ?, ?, ?, ?)
+        RETURNING *
+      `).get(uuidv4(), username.trim(), passwordHash, role, role === 'kid' ? maxRating : null)
+
+      return result ? this.mapRowToUser(result) : null
+    } catch (error) {
+      console.error('Error creating user:', error)
+      return null
+    }
+  }
+
+  getUserById(id: string): User | null {
+    try {
+      const result = db.prepare('SELECT * FROM users WHERE id = ?').get(id)
+      return result ? this.mapRowToUser(result) : null
+    } catch (error) {
+      console.error('Error getting user:', error)
+      return null
+    }
+  }
+
+  getUserByUsername(username: string): User | null {
+    try {
+      const result = db.prepare('SELECT * FROM users WHERE username = ?').get(username.trim())
+      return result ? this.mapRowToUser(result) : null
+    } catch (error) {
+      console.error('Error getting user by username:', error)
+      return null
+    }
+  }
+
+  listUsers(): User[] {
+    try {
+      const results = db.prepare('SELECT * FROM users ORDER BY created_at').all()
+      return results.map(row => this.mapRowToUser(row))
+    } catch (error) {
+      console.error('Error listing users:', error)
+      return []
+    }
+  }
+
+  /**
+   * Check a username/password pair, returning the user when valid
+   */
+  async verifyCredentials(username: string, password: string): Promise<User | null> {
+    const row = db.prepare('SELECT * FROM users WHERE username = ?').get(username.trim()) as
+      { password_hash: string } | undefined
+
+    if (!row) {
+      await bcrypt.compare(password, DUMMY_HASH)
+      return null
+    }
+
+    const isValid = await bcrypt.compare(password, row.password_hash)
+    return isValid ? this.mapRowToUser(row) : null
+  }
+
+  async updatePassword(id: string, password: string): Promise<boolean> {
+    try {
+      const passwordHash = await bcrypt.hash(password, BCRYPT_ROUNDS)
+      const result = db.prepare(`
+        UPDATE users
+        SET password_hash = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `).run(passwordHash, id)
+      return result.changes > 0
+    } catch (error) {
+      console.error('Error updating password:', error)
+      return false
+    }
+  }
+
+  /**
+   * Change an account's role (the rating limit only applies to kid accounts)
+   */
+  updateRole(id: string, role: UserRole, maxRating: string | null = null): User | null {
+    try {
+      const result = db.prepare(`
+        UPDATE users
+        SET role = ?, max_rating = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+        RETURNING *
+      `).get(role, role === 'kid' ? maxRating : null, id)
+
+      return result ? this.mapRowToUser(result) : null
+    } catch (error) {
+      console.error('Error updating role:', error)
+      return null
+    }
+  }
+
+  /**
+   * Delete a user together with their profiles and watch data
+   */
+  deleteUser(id: string): boolean {
+    try {
+      const remove = db.transaction((userId: string) => {
+        const profiles = db.prepare('SELECT id FROM profiles WHERE user_id = ?').all(userId) as { id: string }[]
+        for (const scopeId of [userId, ...profiles.map(p => p.id)]) {
+          db.prepare('DELETE FROM watch_progress WHERE user_id = ?').run(scopeId)
+          db.prepare('DELETE FROM watch_sessions WHERE user_id = ?').run(scopeId)
+          db.prepare('DELETE FROM user_preferences WHERE user_id = ?').run(scopeId)
+          db.prepare('DELETE FROM jellyfin_sync_runs WHERE profile_id = ?').run(scopeId)
+          db.prepare('DELETE FROM jellyfin_sync_conflicts WHERE profile_id = ?').run(scopeId)
+        }
+        db.prepare('DELETE FROM profiles WHERE user_id = ?').run(userId)
+        db.prepare('DELETE FROM sessions WHERE user_id = ?').run(userId)
+        db.prepare('DELETE FROM recovery_codes WHERE user_id = ?').run(userId)
+        db.prepare('DELETE FROM api_keys WHERE user_id = ?').run(userId)
+        return db.prepare('DELETE FROM users WHERE id = ?').run(userId)
+      })
+      return remove(id).changes > 0
+    } catch (error) {
+      console.error('Error deleting user:', error)
+      return false
+    }
+  }
+
+  /**
+   * Map database row to User object (never exposes the password hash or TOTP secret)
+   */
+  private mapRowToUser(row: any): User {
+    return {
+      id: row.id,
+      username: row.username,
+      role: row.role,
+      maxRating: row.max_rating,
+      twoFactorEnabled: !!row.totp_enabled,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    }
+  }
+}
+
+export const userService = new UserService()
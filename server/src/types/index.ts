@@ -9,6 +9,8 @@ export interface TorrentResult {
   quality?: string
   codec?: string
   source: 'yts' | 'torrentio' | 'radarr' | 'sonarr' | 'prowlarr'
+  // Name of the indexer the release was found on, when the provider reports it
+  indexer?: string
   uploadDate?: string
 }
 
@@ -19,6 +21,9 @@ export interface Download {
   mediaType?: 'movie' | 'tv'
   name: string
   status: DownloadStatus
+  priority: DownloadPriority
+  // Place in the download queue; only meaningful while queued, downloading or paused
+  queuePosition: number
   progress: number
   downloadSpeed: number
   uploadSpeed: number
@@ -26,12 +31,45 @@ export interface Download {
   downloaded: number
   eta?: number
   savePath: string
+  indexer?: string
+  // The indexer is a private tracker according to Prowlarr
+  privateTracker?: boolean
+  // Upload/download ratio and seconds spent seeding, once complete
+  ratio?: number
+  seedingTime?: number
   createdAt: string
+  updatedAt?: string
   completedAt?: string
+  failedAt?: string
+  cancelledAt?: string
+  // When the torrent was removed from qBittorrent after seeding; the files are left to Radarr/Sonarr
+  seedingStoppedAt?: string
+  // Queued but held back because it would eat into the disk reserve; not stored
+  waitingForSpace?: boolean
   error?: string
 }
 
-export type DownloadStatus = 'queued' | 'downloading' | 'paused' | 'completed' | 'error'
+export type DownloadStatus = 'queued' | 'downloading' | 'paused' | 'completed' | 'error' | 'cancelled'
+
+export const DOWNLOAD_STATUSES: DownloadStatus[] = ['queued', 'downloading', 'paused', 'completed', 'error', 'cancelled']
+
+// New downloads join the queue after those of the same or higher priority
+export type DownloadPriority = 'high' | 'normal' | 'low'
+
+export const DOWNLOAD_PRIORITIES: DownloadPriority[] = ['high', 'normal', 'low']
+
+export type QueueMove = 'up' | 'down' | 'top'
+
+export interface DownloadHistoryFilter {
+  status?: DownloadStatus
+  mediaType?: 'movie' | 'tv'
+  mediaId?: number
+  // ISO 8601 times, matched against when the download was started
+  from?: string
+  to?: string
+  limit: number
+  offset: number
+}
 
 export interface SearchQuery {
   title: string
@@ -44,6 +82,10 @@ export interface DownloadRequest {
   mediaId?: number
   mediaType?: 'movie' | 'tv'
   name?: string
+  priority?: DownloadPriority
+  indexer?: string
+  // Size in bytes, when known from the search result
+  size?: number
 }
 
 export interface TorrentProvider {
@@ -52,13 +94,34 @@ export interface TorrentProvider {
 }
 
 export interface ProgressUpdate {
-  type: 'progress' | 'status' | 'error' | 'complete' | 'init'
+  type: 'progress' | 'status' | 'error' | 'complete' | 'init' | 'queue'
   downloadId?: string
   downloads?: Download[]
   data?: Partial<Download>
+  // Ids of queued, downloading and paused downloads in queue order
+  queue?: string[]
 }
 
+// Streams of live updates a WebSocket client can subscribe to
+export type WSChannel = 'downloads' | 'progress' | 'library'
+
+export const WS_CHANNELS: WSChannel[] = ['downloads', 'progress', 'library']
+
 export interface WSMessage {
   type: 'subscribe' | 'unsubscribe'
-  downloadId?: string
+  channels: WSChannel[]
+}
+
+// A title added to or removed from the Radarr/Sonarr library
+export interface LibraryEvent {
+  type: 'added' | 'removed'
+  mediaType: 'movie' | 'tv'
+  // Unknown when a title is removed by its Radarr/Sonarr id
+  tmdbId: number | null
+}
+
+// Every message sent to clients names the channel it belongs to
+export interface WSEvent<T = unknown> {
+  channel: WSChannel
+  data: T
 }
@@ -1,6 +1,7 @@
 import fs from 'fs'
 import path from 'path'
 import { Request } from 'express'
+import { authEventService } from '../services/authEventService.js'
 
 const LOG_DIR = process.env.LOG_DIR || path.join(process.cwd(), 'logs')
 const AUTH_LOG_FILE = path.join(LOG_DIR, 'auth.log')
@@ -10,11 +11,15 @@ if (!fs.existsSync(LOG_DIR)) {
   fs.mkdirSync(LOG_DIR, { recursive: true })
 }
 
-export type AuthLogEvent = 'LOGIN_SUCCESS' | 'LOGIN_FAILED' | 'TOKEN_EXPIRED' | 'INVALID_TOKEN'
+export type AuthLogEvent = 'LOGIN_SUCCESS' | 'LOGIN_FAILED' | 'LOGIN_RATE_LIMITED' | 'TOKEN_EXPIRED' | 'INVALID_TOKEN'
+
+export const AUTH_LOG_EVENTS: AuthLogEvent[] = ['LOGIN_SUCCESS', 'LOGIN_FAILED', 'LOGIN_RATE_LIMITED', 'TOKEN_EXPIRED', 'INVALID_TOKEN']
 
 export interface AuthLogEntry {
   timestamp: string
   event: AuthLogEvent
+  // Account the attempt was for, when known
+  username?: string
   ip: string
   userAgent?: string
   reason?: string
@@ -28,6 +33,9 @@ export const logAuthEvent = (entry: Omit<AuthLogEntry, 'timestamp'>) => {
 
   const logLine = `[${logEntry.timestamp}] ${logEntry.event} | IP: ${logEntry.ip} | UA: ${logEntry.userAgent || 'unknown'} | ${logEntry.reason || ''}\n`
 
+  // Keep a queryable copy for the login history view
+  authEventService.record(entry)
+
   // Append to log file
   fs.appendFile(AUTH_LOG_FILE, logLine, (err) => {
     if (err) {
@@ -38,23 +46,18 @@ export const logAuthEvent = (entry: Omit<AuthLogEntry, 'timestamp'>) => {
   // Also log to console for visibility
   if (logEntry.event === 'LOGIN_FAILED') {
     console.warn(`[AUTH] Failed login attempt from ${logEntry.ip}: ${logEntry.reason}`)
+  } else if (logEntry.event === 'LOGIN_RATE_LIMITED') {
+    console.warn(`[AUTH] Locked out login attempt from ${logEntry.ip}: ${logEntry.reason}`)
   } else if (logEntry.event === 'LOGIN_SUCCESS') {
     console.log(`[AUTH] Successful login from ${logEntry.ip}`)
   }
 }
 
+/**
+ * Get the client's IP address
+ * X-Forwarded-For is only honoured for proxies listed in TRUST_PROXY (Express "trust proxy"),
+ * so clients can't dodge lockouts by sending a fake header
+ */
 export const getClientIp = (req: Request): string => {
-  // Check for forwarded IP (behind proxy)
-  const forwarded = req.headers['x-forwarded-for']
-  if (forwarded) {
-    const ip = Array.isArray(forwarded) ? forwarded[0] : forwarded.split(',')[0]
-    return ip.trim()
-  }
-
-  const realIp = req.headers['x-real-ip']
-  if (realIp) {
-    return Array.isArray(realIp) ? realIp[0] : realIp
-  }
-
-  return req.ip || 'unknown'
+  return req.ip || req.socket.remoteAddress || 'unknown'
 }
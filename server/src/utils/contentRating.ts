@@ -0,0 +1,36 @@
+// Minimum viewer age for the US certifications Radarr and Sonarr report
+// Movie and TV ratings share one scale so a single limit covers both
+const RATING_AGES: Record<string, number> = {
+  'G': 0,
+  'TV-Y': 0,
+  'TV-G': 0,
+  'TV-Y7': 7,
+  'PG': 10,
+  'TV-PG': 10,
+  'PG-13': 13,
+  'TV-14': 14,
+  'R': 17,
+  'TV-MA': 17,
+  'NC-17': 18
+}
+
+// Ratings that can be chosen as the limit for a kid account
+export const KID_RATING_LIMITS = ['G', 'PG', 'PG-13', 'TV-14']
+
+export const DEFAULT_KID_RATING = 'PG'
+
+export const isValidRatingLimit = (rating: unknown): rating is string => {
+  return typeof rating === 'string' && KID_RATING_LIMITS.includes(rating)
+}
+
+/**
+ * Check whether a title's certification is within a rating limit
+ * Unrated or unknown certifications are never allowed under a limit
+ */
+export const isRatingAllowed = (certification: string | null | undefined, limit: string): boolean => {
+  const age = certification ? RATING_AGES[certification.toUpperCase()] : undefined
+  const limitAge = RATING_AGES[limit]
+
+  if (age === undefined || limitAge === undefined) return false
+  return age <= limitAge
+}
@@ -0,0 +1,90 @@
+import crypto from 'crypto'
+import { config } from '../config.js'
+
+// Query parameter carrying the signed token on proxy URLs
+export const STREAM_TOKEN_PARAM = 'st'
+
+export interface StreamTokenPayload {
+  itemId: string
+  playSessionId: string
+  issuedAt: number // Unix seconds
+  expiresAt: number // Unix seconds
+}
+
+// Last time each play session used a token (Unix seconds)
+// A token past its expiry is still accepted while its session has been active within the TTL
+const sessionLastUsed = new Map<string, number>()
+
+const nowSeconds = (): number => Math.floor(Date.now() / 1000)
+
+const markSessionUsed = (playSessionId: string, now: number): void => {
+  if (!sessionLastUsed.has(playSessionId)) {
+    // Forget sessions that have gone idle before tracking a new one
+    for (const [id, lastUsed] of sessionLastUsed) {
+      if (lastUsed + config.jellyfin.streamTokenTtl < now) sessionLastUsed.delete(id)
+    }
+  }
+  sessionLastUsed.set(playSessionId, now)
+}
+
+const sign = (data: string): string => {
+  return crypto.createHmac('sha256', config.auth.jwtSecret).update(data).digest('base64url')
+}
+
+/**
+ * Issue a signed, expiring token granting access to one item's stream
+ */
+export const createStreamToken = (itemId: string, playSessionId: string): string => {
+  const now = nowSeconds()
+  const payload: StreamTokenPayload = {
+    itemId,
+    playSessionId,
+    issuedAt: now,
+    expiresAt: now + config.jellyfin.streamTokenTtl
+  }
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url')
+  return `${encoded}.${sign(encoded)}`
+}
+
+/**
+ * Check a stream token's signature, expiry and item
+ * An expired token is still accepted while its play session keeps using it, up to the max age
+ * Returns the payload when the token grants access to the item
+ */
+export const verifyStreamToken = (token: unknown, itemId: string): StreamTokenPayload | null => {
+  if (typeof token !== 'string') return null
+
+  const [encoded, signature] = token.split('.')
+  if (!encoded || !signature) return null
+
+  const expected = Buffer.from(sign(encoded))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString()) as StreamTokenPayload
+    if (payload.itemId !== itemId || typeof payload.issuedAt !== 'number') return null
+
+    const now = nowSeconds()
+    if (payload.issuedAt + config.jellyfin.streamTokenMaxAge < now) return null
+
+    const lastUsed = sessionLastUsed.get(payload.playSessionId)
+    const sessionActive = lastUsed !== undefined && lastUsed + config.jellyfin.streamTokenTtl >= now
+    if (payload.expiresAt < now && !sessionActive) return null
+
+    markSessionUsed(payload.playSessionId, now)
+    return payload
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Append a stream token to a URL that may already have a query string
+ */
+export const withStreamToken = (url: string, token: string): string => {
+  const separator = url.includes('?') ? '&' : '?'
+  return `${url}${separator}${STREAM_TOKEN_PARAM}=${token}`
+}
@@ -0,0 +1,83 @@
+import jwt from 'jsonwebtoken'
+import { config } from '../config.js'
+import type { UserRole } from '../services/userService.js'
+
+export interface TokenUser {
+  id: string
+  username: string
+  role: UserRole
+  maxRating?: string | null
+}
+
+export interface TokenProfile {
+  id: string
+  name: string
+  avatarColor?: string
+}
+
+// Helper to create JWT with proper typing
+export const createToken = (payload: object): string => {
+  // expiresIn accepts seconds (number) or string like "7d", "1h", etc.
+  // Cast to any to bypass strict typing from newer @types/jsonwebtoken
+  return jwt.sign(payload, config.auth.jwtSecret, {
+    expiresIn: config.auth.tokenExpiry
+  } as jwt.SignOptions)
+}
+
+export interface SessionTokenOptions {
+  // Session the access token belongs to (absent when auth is disabled)
+  sessionId?: string
+  profile?: TokenProfile | null
+  // Included when a new refresh token was issued for the session
+  refreshToken?: string
+}
+
+/**
+ * Issue an access token carrying the user's identity, scoped to a profile once one is selected
+ */
+export const createSessionToken = (user: TokenUser, options: SessionTokenOptions = {}) => {
+  const { sessionId, profile, refreshToken } = options
+  const token = createToken({
+    authenticated: true,
+    userId: user.id,
+    username: user.username,
+    role: user.role,
+    sessionId,
+    profileId: profile?.id,
+    profileName: profile?.name
+  })
+  const decoded = jwt.decode(token) as { exp: number }
+
+  return {
+    token,
+    expiresAt: decoded.exp * 1000, // Convert to milliseconds
+    ...(refreshToken ? { refreshToken } : {}),
+    user: { id: user.id, username: user.username, role: user.role, maxRating: user.maxRating ?? null },
+    profile: profile ? { id: profile.id, name: profile.name, avatarColor: profile.avatarColor } : null
+  }
+}
+
+// How long the second login step may take after the password was accepted
+const TWO_FACTOR_CHALLENGE_EXPIRY = '5m'
+
+/**
+ * Issue a short-lived token proving the password step of a two-factor login succeeded
+ * It carries no session, so it can't be used as an access token
+ */
+export const createTwoFactorChallenge = (userId: string): string => {
+  return jwt.sign({ purpose: 'two-factor', userId }, config.auth.jwtSecret, {
+    expiresIn: TWO_FACTOR_CHALLENGE_EXPIRY
+  } as jwt.SignOptions)
+}
+
+/**
+ * Get the user a two-factor challenge was issued for, or null when invalid or expired
+ */
+export const verifyTwoFactorChallenge = (challengeToken: string): string | null => {
+  try {
+    const decoded = jwt.verify(challengeToken, config.auth.jwtSecret) as { purpose?: string, userId?: string }
+    return decoded.purpose === 'two-factor' && decoded.userId ? decoded.userId : null
+  } catch {
+    return null
+  }
+}
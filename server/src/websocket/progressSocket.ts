@@ -2,48 +2,77 @@ import { WebSocketServer, WebSocket } from 'ws'
 import type { Server } from 'http'
 import type { IncomingMessage } from 'http'
 import jwt from 'jsonwebtoken'
-import type { ProgressUpdate, WSMessage } from '../types/index.js'
+import { WS_CHANNELS, type LibraryEvent, type ProgressUpdate, type WSChannel, type WSEvent, type WSMessage } from '../types/index.js'
 import { downloadManager } from '../services/downloadManager.js'
+import { progressService, type ProgressEvent } from '../services/progressService.js'
 import { config } from '../config.js'
+import type { TokenPayload } from '../middleware/auth.js'
+import { DEFAULT_USER_ID, userService } from '../services/userService.js'
+import { sessionService } from '../services/sessionService.js'
 
-function verifyToken(token: string): boolean {
+interface ClientIdentity {
+  userId: string
+  // Unset until a profile is picked; profile-scoped channels are refused without one
+  profileId?: string
+  sessionId?: string
+}
+
+// Account and profile each connected client is authenticated as
+const clientIdentities = new WeakMap<WebSocket, ClientIdentity>()
+
+// Channels each connected client has subscribed to
+const clientChannels = new WeakMap<WebSocket, Set<WSChannel>>()
+
+let wss: WebSocketServer | null = null
+
+function verifyToken(token: string): TokenPayload | null {
   try {
-    jwt.verify(token, config.auth.jwtSecret)
-    return true
+    const decoded = jwt.verify(token, config.auth.jwtSecret) as TokenPayload
+    if (!decoded.userId || !decoded.sessionId) return null
+    return sessionService.isSessionActive(decoded.sessionId) ? decoded : null
   } catch {
-    return false
+    return null
   }
 }
 
 export function setupWebSocket(server: Server): WebSocketServer {
-  const wss = new WebSocketServer({ server, path: '/ws' })
+  wss = new WebSocketServer({ server, path: '/ws' })
 
   // Subscribe to download manager progress
   downloadManager.onProgress((update: ProgressUpdate) => {
-    broadcast(wss, update)
+    broadcast('downloads', update)
+  })
+
+  // Watch progress only goes to the devices of the profile it belongs to
+  progressService.onChange((profileId: string, event: ProgressEvent) => {
+    sendToProfile(profileId, 'progress', event)
   })
 
   wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
+    let identity: ClientIdentity = { userId: DEFAULT_USER_ID, profileId: DEFAULT_USER_ID }
+
     // Check authentication if enabled
     if (config.auth.enabled) {
       const url = new URL(req.url || '', `http://${req.headers.host}`)
       const token = url.searchParams.get('token')
+      const payload = token ? verifyToken(token) : null
 
-      if (!token || !verifyToken(token)) {
+      if (!payload) {
         console.log('WebSocket connection rejected: Invalid or missing token')
         ws.close(4001, 'Unauthorized')
         return
       }
-    }
 
-    console.log('WebSocket client connected')
+      identity = {
+        userId: payload.userId,
+        profileId: payload.profileId,
+        sessionId: payload.sessionId
+      }
+    }
 
-    // Send current state of all downloads
-    const downloads = downloadManager.getAllDownloads()
-    ws.send(JSON.stringify({
-      type: 'init',
-      downloads
-    }))
+    clientIdentities.set(ws, identity)
+    clientChannels.set(ws, new Set())
+    console.log(`WebSocket client connected (user: ${identity.userId}, profile: ${identity.profileId ?? 'none'})`)
 
     ws.on('message', (data: Buffer) => {
       try {
@@ -67,23 +96,103 @@ export function setupWebSocket(server: Server): WebSocketServer {
 }
 
 function handleMessage(ws: WebSocket, message: WSMessage): void {
+  const channels = clientChannels.get(ws)
+  if (!channels) return
+
+  const requested = Array.isArray(message.channels)
+    ? message.channels.filter(channel => WS_CHANNELS.includes(channel))
+    : []
+
   switch (message.type) {
     case 'subscribe':
-      // Could implement per-download subscriptions if needed
+      for (const channel of requested) {
+        if (channels.has(channel) || !canSubscribe(ws, channel)) continue
+        channels.add(channel)
+
+        // Start download subscribers off with the current state of all downloads
+        if (channel === 'downloads') {
+          send(ws, 'downloads', { type: 'init', downloads: downloadManager.getAllDownloads() })
+        }
+      }
       break
     case 'unsubscribe':
+      for (const channel of requested) {
+        channels.delete(channel)
+      }
       break
     default:
-      console.log('Unknown message type:', message.type)
+      console.log('Unknown message type:', (message as { type?: unknown }).type)
   }
 }
 
-function broadcast(wss: WebSocketServer, data: ProgressUpdate): void {
-  const message = JSON.stringify(data)
+// Downloads are admin-only, like the torrent routes
+// Watch progress belongs to a profile, so it needs a connection opened with one
+function canSubscribe(ws: WebSocket, channel: WSChannel): boolean {
+  if (!config.auth.enabled) return true
+
+  const identity = clientIdentities.get(ws)
+  if (!identity) return false
+
+  switch (channel) {
+    case 'downloads':
+      return userService.getUserById(identity.userId)?.role === 'admin'
+    case 'progress':
+      return !!identity.profileId
+    default:
+      return true
+  }
+}
+
+function send(ws: WebSocket, channel: WSChannel, data: unknown): void {
+  const event: WSEvent = { channel, data }
+  ws.send(JSON.stringify(event))
+}
+
+function isSubscribed(client: WebSocket, channel: WSChannel): boolean {
+  return client.readyState === WebSocket.OPEN && !!clientChannels.get(client)?.has(channel)
+}
+
+function broadcast(channel: WSChannel, data: unknown): void {
+  if (!wss) return
+  const message = JSON.stringify({ channel, data } satisfies WSEvent)
+
+  wss.clients.forEach((client) => {
+    if (isSubscribed(client, channel)) {
+      client.send(message)
+    }
+  })
+}
+
+/**
+ * Send a message only to the connections of one profile
+ */
+export function sendToProfile(profileId: string, channel: WSChannel, data: unknown): void {
+  if (!wss) return
+  const message = JSON.stringify({ channel, data } satisfies WSEvent)
 
   wss.clients.forEach((client) => {
-    if (client.readyState === WebSocket.OPEN) {
+    if (isSubscribed(client, channel) && clientIdentities.get(client)?.profileId === profileId) {
       client.send(message)
     }
   })
 }
+
+/**
+ * Tell subscribed clients that a title was added to or removed from the library
+ */
+export function publishLibraryChange(event: LibraryEvent): void {
+  broadcast('library', event)
+}
+
+/**
+ * Close the connections of a signed-out session
+ */
+export function disconnectSession(sessionId: string): void {
+  if (!wss) return
+
+  wss.clients.forEach((client) => {
+    if (clientIdentities.get(client)?.sessionId === sessionId) {
+      client.close(4001, 'Unauthorized')
+    }
+  })
+}
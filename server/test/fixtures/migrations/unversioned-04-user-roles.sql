@@ -0,0 +1,65 @@
+-- Database as left by the release that added the user roles schema,
+-- from before schema versions were recorded (matches migrations 1-4, without schema_version)
+BEGIN TRANSACTION;
+CREATE TABLE profiles (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      avatar_color TEXT NOT NULL DEFAULT '#e50914',
+      pin_hash TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(user_id, name)
+    );
+INSERT INTO "profiles" VALUES('u1','u1','Alice','#e50914',NULL,'2024-05-01 12:00:00','2024-05-01 12:00:00');
+CREATE TABLE user_preferences (
+      user_id TEXT PRIMARY KEY,
+      subtitle_settings TEXT,
+      default_subtitle_language TEXT,
+      default_audio_language TEXT,
+      playback_speed REAL DEFAULT 1.0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+INSERT INTO "user_preferences" VALUES('u1',NULL,NULL,'en',1.25,'2024-05-01 12:00:00','2024-05-01 12:00:00');
+CREATE TABLE users (
+      id TEXT PRIMARY KEY,
+      username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      password_hash TEXT NOT NULL,
+      role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('admin', 'viewer', 'kid')),
+      max_rating TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+INSERT INTO "users" VALUES('u1','alice','$2b$10$abcdefghijklmnopqrstuv','viewer',NULL,'2024-05-01 12:00:00','2024-05-01 12:00:00');
+CREATE TABLE watch_progress (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id TEXT NOT NULL,
+      media_type TEXT NOT NULL CHECK (media_type IN ('movie', 'episode')),
+      tmdb_id INTEGER NOT NULL,
+      season_number INTEGER,
+      episode_number INTEGER,
+      position_ms INTEGER NOT NULL DEFAULT 0,
+      duration_ms INTEGER NOT NULL DEFAULT 0,
+      completed BOOLEAN NOT NULL DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(user_id, media_type, tmdb_id, season_number, episode_number)
+    );
+INSERT INTO "watch_progress" VALUES(1,'u1','movie',603,NULL,NULL,8160000,8160000,1,'2024-05-01 20:00:00','2024-05-01 22:16:00');
+INSERT INTO "watch_progress" VALUES(2,'u1','episode',1399,1,2,1200000,3360000,0,'2024-05-02 21:00:00','2024-05-02 21:20:00');
+CREATE INDEX idx_profiles_user
+    ON profiles(user_id)
+  ;
+CREATE INDEX idx_progress_user_media
+    ON watch_progress(user_id, media_type, tmdb_id)
+  ;
+CREATE INDEX idx_progress_updated
+    ON watch_progress(updated_at DESC)
+  ;
+CREATE INDEX idx_progress_user_updated
+    ON watch_progress(user_id, updated_at DESC)
+  ;
+DELETE FROM "sqlite_sequence";
+INSERT INTO "sqlite_sequence" VALUES('watch_progress',2);
+COMMIT;
@@ -0,0 +1,191 @@
+-- Database at schema version 12 (media_metadata)
+BEGIN TRANSACTION;
+CREATE TABLE api_keys (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        profile_id TEXT,
+        name TEXT NOT NULL,
+        key_hash TEXT NOT NULL UNIQUE,
+        key_prefix TEXT NOT NULL,
+        scope TEXT NOT NULL CHECK (scope IN ('read', 'downloads', 'admin')),
+        last_used_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+CREATE TABLE auth_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        event TEXT NOT NULL,
+        username TEXT,
+        ip TEXT NOT NULL,
+        user_agent TEXT,
+        reason TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+CREATE TABLE jellyfin_sync_conflicts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        profile_id TEXT NOT NULL,
+        media_type TEXT NOT NULL CHECK (media_type IN ('movie', 'episode')),
+        tmdb_id INTEGER NOT NULL,
+        season_number INTEGER,
+        episode_number INTEGER,
+        local_position_ms INTEGER NOT NULL,
+        local_completed BOOLEAN NOT NULL,
+        local_updated_at DATETIME NOT NULL,
+        remote_position_ms INTEGER NOT NULL,
+        remote_played BOOLEAN NOT NULL,
+        remote_updated_at DATETIME,
+        resolution TEXT NOT NULL CHECK (resolution IN ('local', 'remote')),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+CREATE TABLE jellyfin_sync_runs (
+        profile_id TEXT PRIMARY KEY,
+        synced_at DATETIME NOT NULL,
+        pulled INTEGER NOT NULL DEFAULT 0,
+        pushed INTEGER NOT NULL DEFAULT 0,
+        conflicts INTEGER NOT NULL DEFAULT 0,
+        unmatched INTEGER NOT NULL DEFAULT 0,
+        error TEXT
+      );
+CREATE TABLE login_lockouts (
+        key TEXT PRIMARY KEY,
+        failures INTEGER NOT NULL DEFAULT 0,
+        locked_until DATETIME,
+        last_failure_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+CREATE TABLE media_metadata (
+        media_type TEXT NOT NULL CHECK (media_type IN ('movie', 'tv')),
+        tmdb_id INTEGER NOT NULL,
+        title TEXT,
+        genres TEXT NOT NULL DEFAULT '[]',
+        runtime_minutes INTEGER,
+        fetched_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (media_type, tmdb_id)
+      );
+INSERT INTO "media_metadata" VALUES('movie',603,'The Matrix','["Action"]',136,'2024-05-01 20:00:00');
+CREATE TABLE profiles (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        avatar_color TEXT NOT NULL DEFAULT '#e50914',
+        pin_hash TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP, jellyfin_user_id TEXT,
+        UNIQUE(user_id, name)
+      );
+INSERT INTO "profiles" VALUES('u1','u1','Alice','#e50914',NULL,'2024-05-01 12:00:00','2024-05-01 12:00:00',NULL);
+CREATE TABLE recovery_codes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id TEXT NOT NULL,
+        code_hash TEXT NOT NULL,
+        used_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+CREATE TABLE schema_version (version INTEGER PRIMARY KEY, name TEXT NOT NULL, applied_at DATETIME DEFAULT CURRENT_TIMESTAMP);
+INSERT INTO "schema_version" VALUES(1,'initial_schema','2024-05-01 12:00:00');
+INSERT INTO "schema_version" VALUES(2,'users','2024-05-01 12:00:00');
+INSERT INTO "schema_version" VALUES(3,'profiles','2024-05-01 12:00:00');
+INSERT INTO "schema_version" VALUES(4,'user_roles','2024-05-01 12:00:00');
+INSERT INTO "schema_version" VALUES(5,'sessions','2024-05-01 12:00:00');
+INSERT INTO "schema_version" VALUES(6,'two_factor','2024-05-01 12:00:00');
+INSERT INTO "schema_version" VALUES(7,'auth_events','2024-05-01 12:00:00');
+INSERT INTO "schema_version" VALUES(8,'api_keys','2024-05-01 12:00:00');
+INSERT INTO "schema_version" VALUES(9,'preferences_locale','2024-05-01 12:00:00');
+INSERT INTO "schema_version" VALUES(10,'watch_sessions','2024-05-01 12:00:00');
+INSERT INTO "schema_version" VALUES(11,'jellyfin_sync','2024-05-01 12:00:00');
+INSERT INTO "schema_version" VALUES(12,'media_metadata','2024-05-01 12:00:00');
+CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        profile_id TEXT,
+        refresh_token_hash TEXT NOT NULL UNIQUE,
+        user_agent TEXT,
+        ip TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        last_used_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        expires_at DATETIME NOT NULL
+      );
+CREATE TABLE user_preferences (
+        user_id TEXT PRIMARY KEY,
+        subtitle_settings TEXT,
+        default_subtitle_language TEXT,
+        default_audio_language TEXT,
+        playback_speed REAL DEFAULT 1.0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      , ui_locale TEXT);
+INSERT INTO "user_preferences" VALUES('u1',NULL,NULL,'en',1.25,'2024-05-01 12:00:00','2024-05-01 12:00:00',NULL);
+CREATE TABLE users (
+        id TEXT PRIMARY KEY,
+        username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        password_hash TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      , role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('admin', 'viewer', 'kid')), max_rating TEXT, totp_secret TEXT, totp_enabled BOOLEAN NOT NULL DEFAULT 0, totp_last_step INTEGER);
+INSERT INTO "users" VALUES('u1','alice','$2b$10$abcdefghijklmnopqrstuv','2024-05-01 12:00:00','2024-05-01 12:00:00','viewer',NULL,NULL,0,NULL);
+CREATE TABLE watch_progress (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id TEXT NOT NULL,
+        media_type TEXT NOT NULL CHECK (media_type IN ('movie', 'episode')),
+        tmdb_id INTEGER NOT NULL,
+        season_number INTEGER,
+        episode_number INTEGER,
+        position_ms INTEGER NOT NULL DEFAULT 0,
+        duration_ms INTEGER NOT NULL DEFAULT 0,
+        completed BOOLEAN NOT NULL DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(user_id, media_type, tmdb_id, season_number, episode_number)
+      );
+INSERT INTO "watch_progress" VALUES(1,'u1','movie',603,NULL,NULL,8160000,8160000,1,'2024-05-01 20:00:00','2024-05-01 22:16:00');
+INSERT INTO "watch_progress" VALUES(2,'u1','episode',1399,1,2,1200000,3360000,0,'2024-05-02 21:00:00','2024-05-02 21:20:00');
+CREATE TABLE watch_sessions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id TEXT NOT NULL,
+        media_type TEXT NOT NULL CHECK (media_type IN ('movie', 'episode')),
+        tmdb_id INTEGER NOT NULL,
+        season_number INTEGER,
+        episode_number INTEGER,
+        start_position_ms INTEGER NOT NULL DEFAULT 0,
+        end_position_ms INTEGER NOT NULL DEFAULT 0,
+        duration_ms INTEGER NOT NULL DEFAULT 0,
+        completed BOOLEAN NOT NULL DEFAULT 0,
+        device TEXT,
+        started_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        ended_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+CREATE INDEX idx_progress_user_media
+      ON watch_progress(user_id, media_type, tmdb_id)
+    ;
+CREATE INDEX idx_progress_updated
+      ON watch_progress(updated_at DESC)
+    ;
+CREATE INDEX idx_progress_user_updated
+      ON watch_progress(user_id, updated_at DESC)
+    ;
+CREATE INDEX idx_profiles_user
+      ON profiles(user_id)
+    ;
+CREATE INDEX idx_sessions_user
+      ON sessions(user_id)
+    ;
+CREATE INDEX idx_recovery_codes_user
+      ON recovery_codes(user_id)
+    ;
+CREATE INDEX idx_auth_events_created
+      ON auth_events(created_at DESC)
+    ;
+CREATE INDEX idx_api_keys_user
+      ON api_keys(user_id)
+    ;
+CREATE INDEX idx_watch_sessions_user_started
+      ON watch_sessions(user_id, started_at DESC)
+    ;
+CREATE INDEX idx_watch_sessions_title
+      ON watch_sessions(user_id, media_type, tmdb_id, season_number, episode_number)
+    ;
+CREATE INDEX idx_jellyfin_sync_conflicts_profile
+      ON jellyfin_sync_conflicts(profile_id)
+    ;
+DELETE FROM "sqlite_sequence";
+INSERT INTO "sqlite_sequence" VALUES('watch_sessions',0);
+INSERT INTO "sqlite_sequence" VALUES('watch_progress',2);
+COMMIT;
@@ -0,0 +1,228 @@
+import { test, describe } from 'node:test'
+import assert from 'node:assert/strict'
+import { spawnSync } from 'child_process'
+import fs from 'fs'
+import path from 'path'
+import { fileURLToPath } from 'url'
+import Database, { type Database as DatabaseType } from 'better-sqlite3'
+import { getMigrationStatus, runMigrations } from '../src/db/migrate.js'
+import { migrations } from '../src/db/migrations/index.js'
+
+const SERVER_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..')
+const FIXTURES_DIR = path.join(SERVER_DIR, 'test', 'fixtures', 'migrations')
+const LATEST_VERSION = migrations.length
+
+// One dump per schema that has shipped: "unversioned-*" from before schema_version existed, "vNN-*" after
+// Each holds a few rows (watch progress, preferences, a user and profile once those existed)
+const FIXTURES = fs.readdirSync(FIXTURES_DIR).filter(file => file.endsWith('.sql')).sort()
+
+const getFixtureVersion = (fixture: string): number => {
+  const match = fixture.match(/^v(\d+)-/)
+  return match ? parseInt(match[1], 10) : 0
+}
+
+const loadFixture = (fixture: string, db: DatabaseType = new Database(':memory:')): DatabaseType => {
+  db.pragma('foreign_keys = ON')
+  db.exec(fs.readFileSync(path.join(FIXTURES_DIR, fixture), 'utf8'))
+  return db
+}
+
+// Migrations log each step; keep the test output readable
+const quietly = <T>(fn: () => T): T => {
+  const log = console.log
+  console.log = () => {}
+  try {
+    return fn()
+  } finally {
+    console.log = log
+  }
+}
+
+// Tables with their columns and indexes, ignoring column order (ALTER TABLE appends columns)
+const describeSchema = (db: DatabaseType) => {
+  const tables = db.prepare(`
+    SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name
+  `).all() as { name: string }[]
+
+  return Object.fromEntries(tables.map(({ name }) => {
+    const columns = (db.prepare(`PRAGMA table_info(${name})`).all() as any[])
+      .map(column => `${column.name} ${column.type} ${column.notnull ? 'NOT NULL' : 'NULL'} ${column.dflt_value ?? ''}`.trim())
+      .sort()
+    const indexes = (db.prepare(`PRAGMA index_list(${name})`).all() as any[])
+      .filter(index => index.origin === 'c')
+      .map(index => index.name)
+      .sort()
+    return [name, { columns, indexes }]
+  }))
+}
+
+// Schema and every row, to tell whether anything changed
+const snapshot = (db: DatabaseType) => {
+  const objects = db.prepare(`
+    SELECT type, name, sql FROM sqlite_master WHERE name NOT LIKE 'sqlite_%' ORDER BY type, name
+  `).all() as { type: string, name: string, sql: string }[]
+
+  const rows = Object.fromEntries(objects
+    .filter(object => object.type === 'table')
+    .map(({ name }) => [name, db.prepare(`SELECT * FROM ${name}`).all()]))
+
+  return { objects, rows }
+}
+
+const freshSchema = (() => {
+  const db = new Database(':memory:')
+  quietly(() => runMigrations(db))
+  const schema = describeSchema(db)
+  db.close()
+  return schema
+})()
+
+describe('runMigrations', () => {
+  test('creates the latest schema in an empty database', () => {
+    const db = new Database(':memory:')
+    const applied = quietly(() => runMigrations(db))
+
+    assert.equal(applied.length, LATEST_VERSION)
+    assert.equal(getMigrationStatus(db).currentVersion, LATEST_VERSION)
+  })
+
+  for (const fixture of FIXTURES) {
+    test(`upgrades ${fixture} to the latest version`, () => {
+      const db = loadFixture(fixture)
+      const fixtureVersion = getFixtureVersion(fixture)
+
+      const before = getMigrationStatus(db)
+      assert.equal(before.currentVersion, fixtureVersion)
+      assert.equal(before.pending.length, LATEST_VERSION - fixtureVersion)
+
+      const applied = quietly(() => runMigrations(db))
+      assert.deepEqual(applied.map(m => m.version), before.pending.map(m => m.version))
+
+      const after = getMigrationStatus(db)
+      assert.equal(after.currentVersion, LATEST_VERSION)
+      assert.equal(after.pending.length, 0)
+      assert.deepEqual(after.applied.map(m => m.version), migrations.map(m => m.version))
+
+      // Same tables, columns and indexes as a database created from scratch
+      assert.deepEqual(describeSchema(db), freshSchema)
+
+      // Existing data is kept
+      assert.equal((db.prepare('SELECT COUNT(*) AS count FROM watch_progress').get() as any).count, 2)
+      assert.equal((db.prepare("SELECT playback_speed FROM user_preferences WHERE user_id = 'u1'").get() as any).playback_speed, 1.25)
+
+      // Running again changes nothing
+      assert.deepEqual(quietly(() => runMigrations(db)), [])
+    })
+  }
+
+  test('makes accounts from before roles existed admins', () => {
+    for (const fixture of ['unversioned-02-users.sql', 'unversioned-03-profiles.sql']) {
+      const db = loadFixture(fixture)
+      quietly(() => runMigrations(db))
+
+      const user = db.prepare("SELECT role FROM users WHERE id = 'u1'").get() as { role: string }
+      assert.equal(user.role, 'admin', fixture)
+    }
+  })
+
+  test('records existing watch progress as watch sessions', () => {
+    for (const fixture of FIXTURES.filter(file => getFixtureVersion(file) < 10)) {
+      const db = loadFixture(fixture)
+      quietly(() => runMigrations(db))
+
+      const sessions = db.prepare('SELECT tmdb_id, completed FROM watch_sessions ORDER BY tmdb_id').all()
+      assert.deepEqual(sessions, [{ tmdb_id: 603, completed: 1 }, { tmdb_id: 1399, completed: 0 }], fixture)
+    }
+  })
+
+  test('refuses a database upgraded by a newer build', () => {
+    const db = loadFixture(FIXTURES[FIXTURES.length - 1])
+    quietly(() => runMigrations(db))
+    db.prepare("INSERT INTO schema_version (version, name) VALUES (?, 'from_the_future')").run(LATEST_VERSION + 1)
+
+    assert.throws(() => runMigrations(db), /newer than this build supports/)
+  })
+
+  for (const fixture of FIXTURES) {
+    test(`dry run of ${fixture} rolls back`, () => {
+      const db = loadFixture(fixture)
+      const before = snapshot(db)
+      const pending = getMigrationStatus(db).pending
+
+      const applied = quietly(() => runMigrations(db, { dryRun: true }))
+
+      assert.deepEqual(applied.map(m => m.version), pending.map(m => m.version))
+      assert.deepEqual(snapshot(db), before)
+      assert.equal(getMigrationStatus(db).currentVersion, getFixtureVersion(fixture))
+    })
+  }
+})
+
+describe('migrateCli', () => {
+  // Run the command against a database file made from a fixture
+  const createDatabase = (fixture: string): string => {
+    const dir = fs.mkdtempSync(path.join(path.dirname(process.env.DB_PATH!), 'migrate-'))
+    const db = loadFixture(fixture, new Database(path.join(dir, 'my-cinema.db')))
+    db.close()
+    return dir
+  }
+
+  const migrateCli = (dbDir: string, ...args: string[]) => {
+    const result = spawnSync(process.execPath, ['--import', 'tsx', 'src/db/migrateCli.ts', ...args], {
+      cwd: SERVER_DIR,
+      env: { ...process.env, DB_PATH: dbDir },
+      encoding: 'utf8'
+    })
+    return { status: result.status, output: result.stdout + result.stderr }
+  }
+
+  test('status lists applied and pending migrations', () => {
+    const dir = createDatabase('v09-preferences-locale.sql')
+    const { status, output } = migrateCli(dir, 'status')
+
+    assert.equal(status, 0)
+    assert.match(output, new RegExp(`Schema version: 9 \\(latest: ${LATEST_VERSION}\\)`))
+    assert.match(output, /\[x\] 9 preferences_locale/)
+    assert.match(output, /\[ \] 10 watch_sessions/)
+    assert.match(output, new RegExp(`\\[ \\] ${LATEST_VERSION} ${migrations[LATEST_VERSION - 1].name}`))
+  })
+
+  test('status of a database from before schema versions', () => {
+    const dir = createDatabase('unversioned-08-api-keys.sql')
+    const { status, output } = migrateCli(dir, 'status')
+
+    assert.equal(status, 0)
+    assert.match(output, new RegExp(`Schema version: 0 \\(latest: ${LATEST_VERSION}\\)`))
+    assert.match(output, /\[ \] 1 initial_schema/)
+  })
+
+  test('up --dry-run reports what would be applied without applying it', () => {
+    const dir = createDatabase('v18-download-queue.sql')
+    const dryRun = migrateCli(dir, 'up', '--dry-run')
+
+    assert.equal(dryRun.status, 0)
+    assert.match(dryRun.output, /Dry run succeeded, would apply: 19 bandwidth_schedule/)
+    assert.match(dryRun.output, /no changes were made/)
+    assert.match(migrateCli(dir, 'status').output, new RegExp(`Schema version: 18 \\(latest: ${LATEST_VERSION}\\)`))
+  })
+
+  test('up applies pending migrations and then reports the database is up to date', () => {
+    const dir = createDatabase('unversioned-01-initial-schema.sql')
+
+    const up = migrateCli(dir, 'up')
+    assert.equal(up.status, 0)
+    assert.match(up.output, new RegExp(`Now at schema version ${LATEST_VERSION}`))
+
+    const again = migrateCli(dir, 'up')
+    assert.equal(again.status, 0)
+    assert.match(again.output, /Database is up to date/)
+  })
+
+  test('rejects unknown commands', () => {
+    const dir = createDatabase('v19-bandwidth-schedule.sql')
+    const { status, output } = migrateCli(dir, 'down')
+
+    assert.equal(status, 1)
+    assert.match(output, /Unknown command "down"/)
+  })
+})
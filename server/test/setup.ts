@@ -0,0 +1,10 @@
+// Loaded before every test file: point the database and downloads at a throwaway directory
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'my-cinema-test-'))
+process.env.DB_PATH = path.join(dir, 'data')
+process.env.DOWNLOAD_PATH = path.join(dir, 'downloads')
+
+process.on('exit', () => fs.rmSync(dir, { recursive: true, force: true }))
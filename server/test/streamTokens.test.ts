@@ -0,0 +1,70 @@
+import { test, mock, afterEach } from 'node:test'
+import assert from 'node:assert/strict'
+import { config } from '../src/config.js'
+import { createStreamToken, verifyStreamToken } from '../src/utils/streamTokens.js'
+
+const TTL_MS = config.jellyfin.streamTokenTtl * 1000
+const MAX_AGE_MS = config.jellyfin.streamTokenMaxAge * 1000
+
+// Each test starts its own clock; play session ids are unique so tests don't share activity
+const startClock = () => mock.timers.enable({ apis: ['Date'], now: 1_700_000_000_000 })
+
+afterEach(() => mock.timers.reset())
+
+test('accepts a token for its own item only', () => {
+  startClock()
+  const token = createStreamToken('item-1', 'session-item')
+
+  assert.equal(verifyStreamToken(token, 'item-1')?.playSessionId, 'session-item')
+  assert.equal(verifyStreamToken(token, 'item-2'), null)
+})
+
+test('rejects tampered and malformed tokens', () => {
+  startClock()
+  const token = createStreamToken('item-1', 'session-tampered')
+  const [encoded, signature] = token.split('.')
+  const forged = Buffer.from(JSON.stringify({ ...JSON.parse(Buffer.from(encoded, 'base64url').toString()), itemId: 'item-2' }))
+    .toString('base64url')
+
+  assert.equal(verifyStreamToken(`${forged}.${signature}`, 'item-2'), null)
+  assert.equal(verifyStreamToken('not-a-token', 'item-1'), null)
+  assert.equal(verifyStreamToken(undefined, 'item-1'), null)
+})
+
+test('expires a token that is never used', () => {
+  startClock()
+  const token = createStreamToken('item-1', 'session-unused')
+
+  mock.timers.tick(TTL_MS + 1000)
+  assert.equal(verifyStreamToken(token, 'item-1'), null)
+})
+
+test('keeps a token valid while its play session keeps using it', () => {
+  startClock()
+  const token = createStreamToken('item-1', 'session-active')
+
+  // Segment requests every half TTL carry playback well past the token's own expiry
+  for (let elapsed = 0; elapsed < TTL_MS * 4; elapsed += TTL_MS / 2) {
+    assert.ok(verifyStreamToken(token, 'item-1'))
+    mock.timers.tick(TTL_MS / 2)
+  }
+
+  // Once the session goes idle for a full TTL the token is refused
+  mock.timers.tick(TTL_MS)
+  assert.equal(verifyStreamToken(token, 'item-1'), null)
+})
+
+test('stops extending a token at its max age', () => {
+  startClock()
+  const token = createStreamToken('item-1', 'session-long')
+
+  let elapsed = 0
+  while (elapsed + TTL_MS / 2 <= MAX_AGE_MS) {
+    assert.ok(verifyStreamToken(token, 'item-1'))
+    mock.timers.tick(TTL_MS / 2)
+    elapsed += TTL_MS / 2
+  }
+
+  mock.timers.tick(MAX_AGE_MS - elapsed + 1000)
+  assert.equal(verifyStreamToken(token, 'item-1'), null)
+})
@@ -0,0 +1,46 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { base32Encode, generateTotp, verifyTotp, getTimeStep, TOTP_PERIOD_SECONDS } from '../src/utils/totp.js'
+
+// RFC 6238 appendix B, SHA-1 seed; codes here are 6 digits, so the last 6 of the RFC's 8
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'))
+const RFC_VECTORS: [number, string][] = [
+  [59, '287082'],
+  [1111111109, '081804'],
+  [1111111111, '050471'],
+  [1234567890, '005924'],
+  [2000000000, '279037'],
+  [20000000000, '353130']
+]
+
+const PERIOD_MS = TOTP_PERIOD_SECONDS * 1000
+
+test('generates the RFC 6238 SHA-1 test vectors', () => {
+  for (const [seconds, code] of RFC_VECTORS) {
+    assert.equal(generateTotp(RFC_SECRET, seconds * 1000), code, `at T=${seconds}`)
+  }
+})
+
+test('accepts codes from one step either side of the clock', () => {
+  const now = 1234567890 * 1000
+  const step = getTimeStep(now)
+
+  assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now), now), step)
+  assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now - PERIOD_MS), now), step - 1)
+  assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now + PERIOD_MS), now), step + 1)
+})
+
+test('rejects codes outside the window', () => {
+  const now = 1234567890 * 1000
+
+  assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now - 2 * PERIOD_MS), now), null)
+  assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now + 2 * PERIOD_MS), now), null)
+})
+
+test('rejects malformed codes', () => {
+  const now = 1234567890 * 1000
+
+  assert.equal(verifyTotp(RFC_SECRET, '', now), null)
+  assert.equal(verifyTotp(RFC_SECRET, '00592', now), null)
+  assert.equal(verifyTotp(RFC_SECRET, 'abcdef', now), null)
+})
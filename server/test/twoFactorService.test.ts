@@ -0,0 +1,69 @@
+import { test, before } from 'node:test'
+import assert from 'node:assert/strict'
+import { TwoFactorService } from '../src/services/twoFactorService.js'
+import { userService } from '../src/services/userService.js'
+import { generateTotp, TOTP_PERIOD_SECONDS } from '../src/utils/totp.js'
+
+const PERIOD_MS = TOTP_PERIOD_SECONDS * 1000
+
+// A fixed clock the tests move forward by hand
+let now = Date.UTC(2025, 0, 1)
+const twoFactor = new TwoFactorService(() => now)
+
+let userId: string
+let secret: string
+let recoveryCodes: string[]
+
+before(async () => {
+  const user = await userService.createUser('alice', 'correct horse battery')
+  assert.ok(user)
+  userId = user.id
+
+  const setup = await twoFactor.beginSetup(userId, user.username)
+  assert.ok(setup)
+  secret = setup.secret
+
+  const codes = twoFactor.enable(userId, generateTotp(secret, now))
+  assert.ok(codes)
+  recoveryCodes = codes
+})
+
+test('enabling needs a valid code and returns recovery codes', () => {
+  assert.deepEqual(twoFactor.getStatus(userId), { enabled: true, recoveryCodesRemaining: 10 })
+  assert.equal(recoveryCodes.length, 10)
+})
+
+test('accepts a code only once', () => {
+  // The code used to enable two-factor can't be replayed
+  assert.equal(twoFactor.verifyCode(userId, generateTotp(secret, now)), null)
+
+  now += PERIOD_MS
+  const code = generateTotp(secret, now)
+  assert.equal(twoFactor.verifyCode(userId, code), 'totp')
+  assert.equal(twoFactor.verifyCode(userId, code), null)
+})
+
+test('rejects a code older than the last one used', () => {
+  now += 5 * PERIOD_MS
+  assert.equal(twoFactor.verifyCode(userId, generateTotp(secret, now)), 'totp')
+  assert.equal(twoFactor.verifyCode(userId, generateTotp(secret, now - PERIOD_MS)), null)
+})
+
+test('uses up recovery codes', () => {
+  const [first, second] = recoveryCodes
+
+  assert.equal(twoFactor.verifyCode(userId, first), 'recovery')
+  assert.equal(twoFactor.verifyCode(userId, first), null)
+  // The dash is optional
+  assert.equal(twoFactor.verifyCode(userId, second.replace('-', '')), 'recovery')
+  assert.equal(twoFactor.getStatus(userId).recoveryCodesRemaining, 8)
+})
+
+test('regenerating recovery codes invalidates the old ones', () => {
+  const fresh = twoFactor.regenerateRecoveryCodes(userId)
+  assert.ok(fresh)
+
+  assert.equal(twoFactor.verifyCode(userId, recoveryCodes[2]), null)
+  assert.equal(twoFactor.verifyCode(userId, fresh[0]), 'recovery')
+  assert.equal(twoFactor.getStatus(userId).recoveryCodesRemaining, 9)
+})
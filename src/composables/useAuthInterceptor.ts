@@ -9,6 +9,11 @@ const SOFT_FAILURE_ENDPOINTS = [
   '/continue-watching',
 ]
 
+// Marks a request that was already replayed after a token refresh
+interface RetriableRequestConfig extends InternalAxiosRequestConfig {
+  _retried?: boolean
+}
+
 export function setupAuthInterceptor(axiosInstance: AxiosInstance): void {
   // Request interceptor - add auth token to requests
   axiosInstance.interceptors.request.use(
@@ -27,8 +32,26 @@ export function setupAuthInterceptor(axiosInstance: AxiosInstance): void {
   // Response interceptor - handle 401 errors
   axiosInstance.interceptors.response.use(
     (response) => response,
-    (error: AxiosError) => {
+    async (error: AxiosError) => {
+      // Profile-scoped endpoints need a profile picked first
+      const responseError = (error.response?.data as { error?: string } | undefined)?.error
+      if (error.response?.status === 403 && responseError === 'No profile selected') {
+        const authStore = useAuthStore()
+        authStore.clearProfile()
+        router.push({ name: 'profiles' })
+      }
+
       if (error.response?.status === 401) {
+        // Renew an expired access token once and replay the request
+        const authStore = useAuthStore()
+        const originalRequest = error.config as RetriableRequestConfig | undefined
+        if (originalRequest && !originalRequest._retried && authStore.refreshToken) {
+          originalRequest._retried = true
+          if (await authStore.refreshSession()) {
+            return axiosInstance(originalRequest)
+          }
+        }
+
         // Check if this is a soft-failure endpoint
         const requestUrl = error.config?.url || ''
         const isSoftFailure = SOFT_FAILURE_ENDPOINTS.some(endpoint =>
@@ -37,8 +60,6 @@ export function setupAuthInterceptor(axiosInstance: AxiosInstance): void {
 
         // Only logout for critical endpoints
         if (!isSoftFailure) {
-          const authStore = useAuthStore()
-
           // Clear auth state and redirect to login
           authStore.logout()
           router.push({ name: 'login' })
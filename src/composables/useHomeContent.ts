@@ -22,7 +22,6 @@ import {
   getDocumentaries,
   getKoreanDramas,
   getBackdropUrl,
-  findByExternalId,
   getMediaDetails,
 } from '@/services/tmdbService'
 import { libraryService, type RadarrMovie, type SonarrSeries } from '@/services/libraryService'
@@ -94,7 +93,8 @@ export function useHomeContent() {
   // Load continue watching items and enrich with TMDB data
   const loadContinueWatching = async () => {
     try {
-      isLoadingContinueWatching.value = true
+      // Keep showing the current items while refreshing them
+      isLoadingContinueWatching.value = continueWatchingItems.value.length === 0
       const items = await progressService.getContinueWatching(10)
 
       const enrichedItems: ContinueWatchingItem[] = await Promise.all(
@@ -145,43 +145,33 @@ export function useHomeContent() {
         libraryService.getSeries(),
       ])
 
-      const movieMedia = await Promise.all(
-        movies.slice(0, 10).map(async (movie: RadarrMovie) => {
-          const tmdb = await findByExternalId(movie.tmdbId, 'imdb_id').catch(() => null)
-          return {
-            id: movie.tmdbId,
-            title: movie.title,
-            posterPath: tmdb?.posterPath || movie.images?.find((i: { coverType: string }) => i.coverType === 'poster')?.remoteUrl || null,
-            releaseDate: movie.year ? `${movie.year}-01-01` : '',
-            voteAverage: movie.ratings?.tmdb?.value || 0,
-            mediaType: 'movie' as const,
-            overview: movie.overview || '',
-            backdropPath: null,
-            voteCount: 0,
-            genreIds: [],
-            popularity: 0,
-          }
-        })
-      )
+      const movieMedia = movies.slice(0, 10).map((movie: RadarrMovie) => ({
+        id: movie.tmdbId,
+        title: movie.title,
+        posterPath: movie.metadata?.posterPath || movie.images?.find((i: { coverType: string }) => i.coverType === 'poster')?.remoteUrl || null,
+        releaseDate: movie.year ? `${movie.year}-01-01` : '',
+        voteAverage: movie.ratings?.tmdb?.value || 0,
+        mediaType: 'movie' as const,
+        overview: movie.overview || '',
+        backdropPath: movie.metadata?.backdropPath || null,
+        voteCount: 0,
+        genreIds: movie.metadata?.genres.map(genre => genre.id) || [],
+        popularity: 0,
+      }))
 
-      const seriesMedia = await Promise.all(
-        series.slice(0, 10).map(async (s: SonarrSeries) => {
-          const tmdb = await findByExternalId(s.tvdbId, 'tvdb_id').catch(() => null)
-          return {
-            id: tmdb?.id || s.tvdbId,
-            title: s.title,
-            posterPath: tmdb?.posterPath || s.images?.find((i: { coverType: string }) => i.coverType === 'poster')?.remoteUrl || null,
-            releaseDate: s.year ? `${s.year}-01-01` : '',
-            voteAverage: s.ratings?.value || 0,
-            mediaType: 'tv' as const,
-            overview: s.overview || '',
-            backdropPath: null,
-            voteCount: 0,
-            genreIds: [],
-            popularity: 0,
-          }
-        })
-      )
+      const seriesMedia = series.slice(0, 10).map((s: SonarrSeries) => ({
+        id: s.metadata?.tmdbId || s.tvdbId,
+        title: s.title,
+        posterPath: s.metadata?.posterPath || s.images?.find((i: { coverType: string }) => i.coverType === 'poster')?.remoteUrl || null,
+        releaseDate: s.year ? `${s.year}-01-01` : '',
+        voteAverage: s.ratings?.value || 0,
+        mediaType: 'tv' as const,
+        overview: s.overview || '',
+        backdropPath: s.metadata?.backdropPath || null,
+        voteCount: 0,
+        genreIds: s.metadata?.genres.map(genre => genre.id) || [],
+        popularity: 0,
+      }))
 
       libraryItems.value = [...movieMedia, ...seriesMedia].slice(0, 20)
     } catch (error) {
@@ -1,9 +1,9 @@
 import { computed, watch, ref } from 'vue'
 import { useI18n } from 'vue-i18n'
-import { SUPPORTED_LOCALES, type SupportedLocale } from '@/i18n'
+import { SUPPORTED_LOCALES, LOCALE_STORAGE_KEY, getSavedLocale, type SupportedLocale } from '@/i18n'
 import { setTmdbLanguage } from '@/services/tmdbService'
-
-const STORAGE_KEY = 'my-cinema-locale'
+import { getProfileStorageKey } from '@/stores/authStore'
+import { usePreferencesStore } from '@/stores/preferencesStore'
 
 // Global reactive flag to trigger refetch across components
 const languageChangeCounter = ref(0)
@@ -26,7 +26,7 @@ export function useLanguage() {
   const setLocale = (newLocale: SupportedLocale) => {
     const previousLocale = locale.value
     locale.value = newLocale
-    localStorage.setItem(STORAGE_KEY, newLocale)
+    localStorage.setItem(getProfileStorageKey(LOCALE_STORAGE_KEY), newLocale)
     document.documentElement.lang = newLocale
     // Update TMDB language for API requests
     setTmdbLanguage(newLocale)
@@ -34,6 +34,15 @@ export function useLanguage() {
     if (previousLocale !== newLocale) {
       languageChangeCounter.value++
     }
+    usePreferencesStore().update({ locale: newLocale })
+  }
+
+  // Apply the locale saved for the profile that was just selected
+  const restoreProfileLocale = () => {
+    const saved = getSavedLocale()
+    if (SUPPORTED_LOCALES.some(l => l.code === saved)) {
+      setLocale(saved as SupportedLocale)
+    }
   }
 
   const toggleLocale = () => {
@@ -47,7 +56,7 @@ export function useLanguage() {
     locale,
     (newLocale) => {
       document.documentElement.lang = newLocale
-      localStorage.setItem(STORAGE_KEY, newLocale)
+      localStorage.setItem(getProfileStorageKey(LOCALE_STORAGE_KEY), newLocale)
       setTmdbLanguage(newLocale)
     },
     { immediate: true }
@@ -59,6 +68,7 @@ export function useLanguage() {
     currentLocaleName,
     supportedLocales: SUPPORTED_LOCALES,
     setLocale,
+    restoreProfileLocale,
     toggleLocale,
     languageChangeCounter,
   }
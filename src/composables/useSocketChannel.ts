@@ -0,0 +1,13 @@
+import { onScopeDispose } from 'vue'
+import { useSocketStore } from '@/stores/socketStore'
+import type { SocketChannel } from '@/services/socketService'
+
+/**
+ * Listen to live updates on a channel for as long as the calling component is mounted
+ */
+export function useSocketChannel<T>(channel: SocketChannel, listener: (data: T) => void): void {
+  const socketStore = useSocketStore()
+  const unsubscribe = socketStore.subscribe<T>(channel, listener)
+
+  onScopeDispose(unsubscribe)
+}
@@ -1,4 +1,6 @@
 import { ref } from 'vue'
+import { getProfileStorageKey } from '@/stores/authStore'
+import { usePreferencesStore } from '@/stores/preferencesStore'
 
 export interface SubtitleStyle {
   fontSize: 'small' | 'medium' | 'large' | 'xlarge'
@@ -46,19 +48,20 @@ const fontSizes: Record<string, string> = {
 
 function loadSubtitleStyle(): SubtitleStyle {
   try {
-    const stored = localStorage.getItem(STORAGE_KEY)
+    const stored = localStorage.getItem(getProfileStorageKey(STORAGE_KEY))
     if (stored) return JSON.parse(stored)
   } catch (e) {
     console.error('Failed to load subtitle style:', e)
   }
-  return defaultSubtitleStyle
+  return { ...defaultSubtitleStyle }
 }
 
 export function useSubtitleStyle() {
   const subtitleStyle = ref<SubtitleStyle>(loadSubtitleStyle())
 
   const saveSubtitleStyle = () => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(subtitleStyle.value))
+    localStorage.setItem(getProfileStorageKey(STORAGE_KEY), JSON.stringify(subtitleStyle.value))
+    usePreferencesStore().update({ subtitleStyle: { ...subtitleStyle.value } })
     applySubtitleStyle()
   }
 
@@ -1,9 +1,18 @@
 import { createI18n } from 'vue-i18n'
 import en from './locales/en.json'
 import ro from './locales/ro.json'
+import { getProfileStorageKey } from '@/stores/authStore'
 
-// Get saved locale from localStorage or default to English
-const savedLocale = localStorage.getItem('my-cinema-locale') || 'en'
+export const LOCALE_STORAGE_KEY = 'my-cinema-locale'
+
+// Get the active profile's saved locale, falling back to the device locale, then English
+export function getSavedLocale(): string {
+  return localStorage.getItem(getProfileStorageKey(LOCALE_STORAGE_KEY))
+    || localStorage.getItem(LOCALE_STORAGE_KEY)
+    || 'en'
+}
+
+const savedLocale = getSavedLocale()
 
 export const i18n = createI18n({
   legacy: false, // Use Composition API mode
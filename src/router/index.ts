@@ -10,6 +10,12 @@ const router = createRouter({
       component: () => import('@/views/LoginView.vue'),
       meta: { public: true }
     },
+    {
+      path: '/profiles',
+      name: 'profiles',
+      component: () => import('@/views/ProfilePickerView.vue'),
+      meta: { skipProfile: true }
+    },
     {
       path: '/',
       name: 'home',
@@ -40,12 +46,44 @@ const router = createRouter({
       path: '/downloads',
       name: 'downloads',
       component: () => import('@/views/DownloadsView.vue'),
+      meta: { adminOnly: true }
     },
     {
       path: '/calendar',
       name: 'calendar',
       component: () => import('@/views/CalendarView.vue'),
     },
+    {
+      path: '/history',
+      name: 'history',
+      component: () => import('@/views/HistoryView.vue'),
+    },
+    {
+      path: '/stats',
+      name: 'stats',
+      component: () => import('@/views/StatsView.vue'),
+    },
+    {
+      path: '/sessions',
+      name: 'sessions',
+      component: () => import('@/views/SessionsView.vue'),
+    },
+    {
+      path: '/security',
+      name: 'security',
+      component: () => import('@/views/SecurityView.vue'),
+    },
+    {
+      path: '/api-keys',
+      name: 'api-keys',
+      component: () => import('@/views/ApiKeysView.vue'),
+    },
+    {
+      path: '/login-history',
+      name: 'login-history',
+      component: () => import('@/views/LoginHistoryView.vue'),
+      meta: { adminOnly: true }
+    },
     {
       path: '/actor/:id',
       name: 'actor',
@@ -75,8 +113,8 @@ router.beforeEach(async (to, _from, next) => {
 
   // If auth is not enabled, allow all routes
   if (authStore.authEnabled === false) {
-    // If on login page but auth is disabled, redirect to home
-    if (to.name === 'login') {
+    // If on login or profile page but auth is disabled, redirect to home
+    if (to.name === 'login' || to.name === 'profiles') {
       return next({ name: 'home' })
     }
     return next()
@@ -91,11 +129,26 @@ router.beforeEach(async (to, _from, next) => {
     return next()
   }
 
+  // Renew the access token if it lapsed, e.g. while the device was asleep
+  if (!authStore.isAuthenticated && authStore.refreshToken) {
+    await authStore.refreshSession()
+  }
+
   // Protected routes need auth
   if (!authStore.isAuthenticated) {
     return next({ name: 'login' })
   }
 
+  // Ask "who's watching?" before anything else
+  if (authStore.needsProfile && !to.meta.skipProfile) {
+    return next({ name: 'profiles' })
+  }
+
+  // Only admins manage downloads
+  if (to.meta.adminOnly && !authStore.isAdmin) {
+    return next({ name: 'home' })
+  }
+
   next()
 })
 
@@ -0,0 +1,59 @@
+import axios from 'axios'
+import { setupAuthInterceptor } from '@/composables/useAuthInterceptor'
+
+const API_BASE = import.meta.env.VITE_TORRENT_API_URL || 'http://localhost:3001'
+
+const api = axios.create({
+  baseURL: `${API_BASE}/api/api-keys`,
+  timeout: 30000
+})
+
+// Setup auth interceptor
+setupAuthInterceptor(api)
+
+export type ApiKeyScope = 'read' | 'downloads' | 'admin'
+
+export interface ApiKey {
+  id: string
+  name: string
+  // Start of the key, to tell keys apart
+  prefix: string
+  scope: ApiKeyScope
+  lastUsedAt: string | null
+  createdAt: string
+}
+
+export const apiKeyService = {
+  /**
+   * Get the current user's keys and the scopes they may create keys with
+   */
+  async getApiKeys(): Promise<{ apiKeys: ApiKey[], allowedScopes: ApiKeyScope[] }> {
+    const response = await api.get('/')
+    return response.data
+  },
+
+  /**
+   * Create a key, returning the full key (it can't be retrieved later)
+   */
+  async createApiKey(name: string, scope: ApiKeyScope): Promise<{ apiKey: ApiKey, key: string }> {
+    try {
+      const response = await api.post('/', { name, scope })
+      return response.data
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.data?.error) {
+        throw new Error(error.response.data.error)
+      }
+      throw error
+    }
+  },
+
+  async revokeApiKey(id: string): Promise<boolean> {
+    try {
+      await api.delete(`/${id}`)
+      return true
+    } catch (error) {
+      console.error('Error revoking API key:', error)
+      return false
+    }
+  }
+}
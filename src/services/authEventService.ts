@@ -0,0 +1,63 @@
+import axios from 'axios'
+import { setupAuthInterceptor } from '@/composables/useAuthInterceptor'
+
+const API_BASE = import.meta.env.VITE_TORRENT_API_URL || 'http://localhost:3001'
+
+const api = axios.create({
+  baseURL: `${API_BASE}/api/auth`,
+  timeout: 30000
+})
+
+// Setup auth interceptor
+setupAuthInterceptor(api)
+
+export type AuthEventType = 'LOGIN_SUCCESS' | 'LOGIN_FAILED' | 'LOGIN_RATE_LIMITED'
+
+export interface AuthEvent {
+  id: number
+  event: AuthEventType
+  username: string | null
+  ip: string
+  userAgent: string | null
+  reason: string | null
+  createdAt: string
+}
+
+export interface AuthEventFilter {
+  event?: AuthEventType
+  username?: string
+  ip?: string
+  limit?: number
+  offset?: number
+}
+
+export interface Lockout {
+  // "ip:<address>", "user:<username>" or "profile:<profile id>"
+  key: string
+  failures: number
+  lockedUntil: string
+  retryAfter: number
+  profileName?: string
+}
+
+export const authEventService = {
+  async getEvents(filter: AuthEventFilter = {}): Promise<{ events: AuthEvent[], total: number }> {
+    const response = await api.get('/events', { params: filter })
+    return response.data
+  },
+
+  async getLockouts(): Promise<Lockout[]> {
+    const response = await api.get('/lockouts')
+    return response.data.lockouts
+  },
+
+  async clearLockout(key: string): Promise<boolean> {
+    try {
+      await api.delete(`/lockouts/${encodeURIComponent(key)}`)
+      return true
+    } catch (error) {
+      console.error('Error clearing lockout:', error)
+      return false
+    }
+  }
+}
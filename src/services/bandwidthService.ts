@@ -0,0 +1,67 @@
+import axios from 'axios'
+import { setupAuthInterceptor } from '@/composables/useAuthInterceptor'
+
+const API_BASE = import.meta.env.VITE_TORRENT_API_URL || 'http://localhost:3001'
+
+const api = axios.create({
+  baseURL: `${API_BASE}/api/bandwidth`,
+  timeout: 30000
+})
+
+// Setup auth interceptor
+setupAuthInterceptor(api)
+
+// Speed limits in KiB/s, 0 = unlimited
+export interface BandwidthLimits {
+  downloadLimit: number
+  uploadLimit: number
+}
+
+export interface BandwidthRule extends BandwidthLimits {
+  // Weekdays the window starts on, 0 = Sunday
+  days: number[]
+  // HH:MM in the server's time zone; an end before the start runs past midnight,
+  // and an end equal to the start covers the whole day
+  start: string
+  end: string
+}
+
+export type BandwidthOverrideMode = 'turbo' | 'slow'
+
+export interface BandwidthStatus {
+  // Earlier rules win where they overlap
+  rules: BandwidthRule[]
+  defaultLimits: BandwidthLimits
+  slowLimits: BandwidthLimits
+  // until is a SQLite UTC timestamp, null until cleared
+  override: { mode: BandwidthOverrideMode, until: string | null } | null
+  active: BandwidthLimits & { source: 'default' | 'rule' | BandwidthOverrideMode, rule: number | null }
+}
+
+export const bandwidthService = {
+  async getStatus(): Promise<BandwidthStatus> {
+    const response = await api.get('/')
+    return response.data
+  },
+
+  async setRules(rules: BandwidthRule[]): Promise<BandwidthStatus> {
+    const response = await api.put('/rules', { rules })
+    return response.data
+  },
+
+  async setSlowLimits(limits: BandwidthLimits): Promise<BandwidthStatus> {
+    const response = await api.put('/slow-limits', limits)
+    return response.data
+  },
+
+  // Without minutes the override lasts until cleared
+  async setOverride(mode: BandwidthOverrideMode, minutes?: number): Promise<BandwidthStatus> {
+    const response = await api.put('/override', { mode, minutes })
+    return response.data
+  },
+
+  async clearOverride(): Promise<BandwidthStatus> {
+    const response = await api.delete('/override')
+    return response.data
+  }
+}
@@ -1,5 +1,7 @@
 import axios from 'axios'
 import { setupAuthInterceptor } from '@/composables/useAuthInterceptor'
+import type { Genre } from '@/types'
+import type { StorageStatus } from '@/types/torrent'
 
 const API_BASE = import.meta.env.VITE_TORRENT_API_URL || 'http://localhost:3001'
 
@@ -15,6 +17,15 @@ export interface ServiceStatus {
   radarr: { enabled: boolean; connected: boolean }
   sonarr: { enabled: boolean; connected: boolean }
   qbittorrent: { connected: boolean }
+  storage: StorageStatus
+}
+
+// TMDB details the server adds to library movies and series
+export interface LibraryMetadata {
+  tmdbId: number
+  posterPath: string | null
+  backdropPath: string | null
+  genres: Genre[]
 }
 
 export interface RadarrMovie {
@@ -31,6 +42,8 @@ export interface RadarrMovie {
   overview: string
   images: { coverType: string; url: string; remoteUrl?: string }[]
   ratings?: { tmdb?: { value: number } }
+  // Included in library lists; null until TMDB has been asked
+  metadata?: LibraryMetadata | null
 }
 
 export interface SonarrSeries {
@@ -46,6 +59,8 @@ export interface SonarrSeries {
   seasonCount?: number
   images: { coverType: string; url: string; remoteUrl?: string }[]
   ratings?: { value: number }
+  // Included in library lists; null when TMDB doesn't know the series
+  metadata?: LibraryMetadata | null
   statistics?: {
     seasonCount: number
     episodeFileCount: number
@@ -47,6 +47,8 @@ export interface PlaybackInfo {
   filePath?: string
   fileSize?: number
   duration?: number
+  // Where the end credits start; reaching them counts as finished
+  creditsStartMs?: number | null
   mediaInfo?: MediaInfo
   streamUrl?: string
   subtitles?: SubtitleTrack[]
@@ -57,6 +59,11 @@ export interface PlaybackInfo {
   jellyfinPlaySessionId?: string
 }
 
+export interface JellyfinUser {
+  id: string
+  name: string
+}
+
 export interface MediaStatus {
   enabled: boolean
   connected: boolean
@@ -66,6 +73,11 @@ export interface MediaStatus {
   }
 }
 
+// Signed stream token carried on a proxied stream URL, required by the audio and playback report endpoints
+const getStreamToken = (streamUrl: string): string | null => {
+  return new URL(streamUrl, window.location.origin).searchParams.get('st')
+}
+
 export const mediaService = {
   /**
    * Check if media service is available
@@ -95,6 +107,10 @@ export const mediaService = {
       // Jellyfin URLs are already absolute - no transformation needed
       return response.data
     } catch (error) {
+      // Refused because the title is above the account's content rating limit
+      if (axios.isAxiosError(error) && error.response?.status === 403) {
+        throw new Error(error.response.data?.error || 'Playback not allowed')
+      }
       console.error('Error fetching movie playback:', error)
       return null
     }
@@ -119,6 +135,10 @@ export const mediaService = {
       // Jellyfin URLs are already absolute - no transformation needed
       return response.data
     } catch (error) {
+      // Refused because the title is above the account's content rating limit
+      if (axios.isAxiosError(error) && error.response?.status === 403) {
+        throw new Error(error.response.data?.error || 'Playback not allowed')
+      }
       console.error('Error fetching episode playback:', error)
       return null
     }
@@ -126,16 +146,17 @@ export const mediaService = {
 
   /**
    * Get Jellyfin stream URL with different audio track
+   * The server only signs it for the stream token of the URL currently playing
    */
   async getJellyfinAudioTrackUrl(
     itemId: string,
     audioIndex: number,
     mediaSourceId: string,
-    playSessionId: string
+    currentStreamUrl: string
   ): Promise<string | null> {
     try {
       const response = await api.get(`/jellyfin/audio/${itemId}/${audioIndex}`, {
-        params: { mediaSourceId, playSessionId }
+        params: { mediaSourceId, st: getStreamToken(currentStreamUrl) }
       })
       return response.data.hlsUrl
     } catch (error) {
@@ -147,9 +168,9 @@ export const mediaService = {
   /**
    * Report playback started to Jellyfin (must be called before progress updates)
    */
-  async reportJellyfinStarted(itemId: string, mediaSourceId: string, playSessionId: string): Promise<void> {
+  async reportJellyfinStarted(itemId: string, mediaSourceId: string, streamUrl: string): Promise<void> {
     try {
-      await api.post('/jellyfin/started', { itemId, mediaSourceId, playSessionId })
+      await api.post('/jellyfin/started', { itemId, mediaSourceId, st: getStreamToken(streamUrl) })
     } catch (error) {
       console.error('Error reporting playback started to Jellyfin:', error)
     }
@@ -158,9 +179,9 @@ export const mediaService = {
   /**
    * Report playback progress to Jellyfin
    */
-  async reportJellyfinProgress(itemId: string, positionMs: number, isPaused: boolean): Promise<void> {
+  async reportJellyfinProgress(itemId: string, positionMs: number, isPaused: boolean, streamUrl: string): Promise<void> {
     try {
-      await api.post('/jellyfin/progress', { itemId, positionMs, isPaused })
+      await api.post('/jellyfin/progress', { itemId, positionMs, isPaused, st: getStreamToken(streamUrl) })
     } catch (error) {
       // Ignore progress reporting errors
     }
@@ -169,14 +190,27 @@ export const mediaService = {
   /**
    * Report playback stopped to Jellyfin
    */
-  async reportJellyfinStopped(itemId: string, positionMs: number): Promise<void> {
+  async reportJellyfinStopped(itemId: string, positionMs: number, streamUrl: string): Promise<void> {
     try {
-      await api.post('/jellyfin/stopped', { itemId, positionMs })
+      await api.post('/jellyfin/stopped', { itemId, positionMs, st: getStreamToken(streamUrl) })
     } catch (error) {
       // Ignore stop reporting errors
     }
   },
 
+  /**
+   * List Jellyfin users, for linking profiles (admin only)
+   */
+  async getJellyfinUsers(): Promise<JellyfinUser[]> {
+    try {
+      const response = await api.get('/jellyfin/users')
+      return response.data.users
+    } catch (error) {
+      console.error('Error fetching Jellyfin users:', error)
+      return []
+    }
+  },
+
   /**
    * Trigger Jellyfin library refresh
    */
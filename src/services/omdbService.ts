@@ -1,6 +1,15 @@
 import axios from 'axios'
+import { setupAuthInterceptor } from '@/composables/useAuthInterceptor'
 
-const OMDB_BASE_URL = 'https://www.omdbapi.com'
+// OMDb is reached through the backend, which holds the API key and caches responses
+const API_BASE = import.meta.env.VITE_TORRENT_API_URL || 'http://localhost:3001'
+
+const api = axios.create({
+  baseURL: `${API_BASE}/api/omdb`,
+  timeout: 30000
+})
+
+setupAuthInterceptor(api)
 
 export interface OMDbRating {
   Source: string
@@ -47,26 +56,13 @@ export interface ExternalRatings {
 const ratingsCache = new Map<string, ExternalRatings>()
 
 export async function getExternalRatings(imdbId: string): Promise<ExternalRatings | null> {
-  const apiKey = import.meta.env.VITE_OMDB_API_KEY
-
-  // Check if API key is configured
-  if (!apiKey) {
-    console.warn('OMDb API key not configured')
-    return null
-  }
-
   // Check cache first
   if (ratingsCache.has(imdbId)) {
     return ratingsCache.get(imdbId)!
   }
 
   try {
-    const { data } = await axios.get<OMDbResponse>(OMDB_BASE_URL, {
-      params: {
-        apikey: apiKey,
-        i: imdbId
-      },
-    })
+    const { data } = await api.get<OMDbResponse>(`/${encodeURIComponent(imdbId)}`)
 
     if (data.Response === 'False') {
       return null
@@ -110,12 +106,11 @@ export async function getExternalRatings(imdbId: string): Promise<ExternalRating
 
     return ratings
   } catch (error) {
+    // Not configured on the server
+    if (axios.isAxiosError(error) && error.response?.status === 503) {
+      return null
+    }
     console.error('Error fetching OMDb ratings:', error)
     return null
   }
 }
-
-// Check if OMDb API is configured
-export function isOMDbConfigured(): boolean {
-  return !!import.meta.env.VITE_OMDB_API_KEY
-}
@@ -0,0 +1,39 @@
+import axios from 'axios'
+import { setupAuthInterceptor } from '@/composables/useAuthInterceptor'
+import type { SubtitleStyle } from '@/composables/useSubtitleStyle'
+
+const API_BASE = import.meta.env.VITE_TORRENT_API_URL || 'http://localhost:3001'
+
+const api = axios.create({
+  baseURL: `${API_BASE}/api/preferences`,
+  timeout: 30000
+})
+
+// Setup auth interceptor
+setupAuthInterceptor(api)
+
+// Preferences of the active profile; null means never chosen
+export interface Preferences {
+  subtitleStyle: SubtitleStyle | null
+  locale: string | null
+  // Jellyfin language codes, e.g. "eng"
+  defaultAudioLanguage: string | null
+  defaultSubtitleLanguage: string | null
+  playbackSpeed: number
+  // Percentage watched that counts as finished, unless the end credits start earlier
+  completionThreshold: number
+  // Days without progress before a title leaves Continue Watching; null keeps it
+  abandonAfterDays: number | null
+}
+
+export const preferencesService = {
+  async getPreferences(): Promise<Preferences> {
+    const response = await api.get('/')
+    return response.data.preferences
+  },
+
+  async updatePreferences(update: Partial<Preferences>): Promise<Preferences> {
+    const response = await api.put('/', update)
+    return response.data.preferences
+  }
+}
@@ -0,0 +1,71 @@
+import axios from 'axios'
+import { setupAuthInterceptor } from '@/composables/useAuthInterceptor'
+
+const API_BASE = import.meta.env.VITE_TORRENT_API_URL || 'http://localhost:3001'
+
+const api = axios.create({
+  baseURL: `${API_BASE}/api/profiles`,
+  timeout: 30000
+})
+
+// Setup auth interceptor
+setupAuthInterceptor(api)
+
+export interface Profile {
+  id: string
+  name: string
+  avatarColor: string
+  hasPin: boolean
+  // Jellyfin user whose watched state is synced with this profile
+  jellyfinUserId: string | null
+}
+
+export interface ProfileInput {
+  name?: string
+  avatarColor?: string
+  // A 4-digit PIN, or null to remove the PIN
+  pin?: string | null
+}
+
+export const PROFILE_COLORS = ['#e50914', '#2563eb', '#16a34a', '#f59e0b', '#9333ea', '#db2777']
+
+// Pull the server's error message out of a failed request
+function getErrorMessage(error: unknown, fallback: string): string {
+  if (axios.isAxiosError(error) && error.response?.data?.error) {
+    return error.response.data.error
+  }
+  return fallback
+}
+
+export const profileService = {
+  async getProfiles(): Promise<Profile[]> {
+    const response = await api.get('/')
+    return response.data.profiles
+  },
+
+  async createProfile(input: ProfileInput): Promise<Profile> {
+    try {
+      const response = await api.post('/', input)
+      return response.data.profile
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to create profile'))
+    }
+  },
+
+  async updateProfile(id: string, input: ProfileInput): Promise<Profile> {
+    try {
+      const response = await api.put(`/${id}`, input)
+      return response.data.profile
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to update profile'))
+    }
+  },
+
+  async deleteProfile(id: string): Promise<void> {
+    try {
+      await api.delete(`/${id}`)
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to delete profile'))
+    }
+  }
+}
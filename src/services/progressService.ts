@@ -23,6 +23,13 @@ export interface WatchProgress {
   updatedAt: string
 }
 
+// Sent on the 'progress' socket channel when another device changes the profile's progress
+// 'reset' stands for many changes at once (imports, Jellyfin syncs)
+export type ProgressEvent =
+  | { type: 'saved', progress: WatchProgress }
+  | { type: 'removed', mediaType: 'movie' | 'episode', tmdbId: number, seasonNumber: number | null, episodeNumber: number | null }
+  | { type: 'reset' }
+
 export interface ContinueWatchingItem {
   id: number
   mediaType: 'movie' | 'episode'
@@ -35,6 +42,131 @@ export interface ContinueWatchingItem {
   updatedAt: string
 }
 
+// One play of a title
+export interface WatchSession {
+  id: number
+  mediaType: 'movie' | 'episode'
+  tmdbId: number
+  seasonNumber: number | null
+  episodeNumber: number | null
+  startPositionMs: number
+  endPositionMs: number
+  durationMs: number
+  completed: boolean
+  device: string | null
+  // SQLite UTC timestamps
+  startedAt: string
+  endedAt: string
+}
+
+export interface HistoryQuery {
+  // ISO timestamps, matched against when the play started
+  from?: string
+  to?: string
+  limit?: number
+  offset?: number
+}
+
+export interface JellyfinSyncRun {
+  syncedAt: string
+  pulled: number
+  pushed: number
+  conflicts: number
+  unmatched: number
+  error: string | null
+}
+
+// A title changed both here and in Jellyfin between two syncs
+export interface JellyfinSyncConflict {
+  mediaType: 'movie' | 'episode'
+  tmdbId: number
+  seasonNumber: number | null
+  episodeNumber: number | null
+  local: { positionMs: number, completed: boolean, updatedAt: string }
+  remote: { positionMs: number, played: boolean, updatedAt: string | null }
+  // Side whose position was kept
+  resolution: 'local' | 'remote'
+}
+
+export interface JellyfinSyncStatus {
+  enabled: boolean
+  jellyfinUserId: string | null
+  lastRun: JellyfinSyncRun | null
+  conflicts: JellyfinSyncConflict[]
+}
+
+export type HistoryFormat = 'trakt' | 'letterboxd'
+
+// invalid: missing title or date; not_found: no TMDB match; no_lookup: matching needs
+// Radarr (films) or TMDB (shows); unsupported: the format can't hold it (Letterboxd has films only)
+export type HistoryUnmatchedReason = 'invalid' | 'not_found' | 'no_lookup' | 'unsupported'
+
+// An entry of an imported file that couldn't be matched to a TMDB title
+export interface HistoryUnmatchedRow {
+  // Entry of the Trakt export, or line of the Letterboxd CSV
+  row: number
+  mediaType: 'movie' | 'episode'
+  title: string | null
+  year: number | null
+  seasonNumber: number | null
+  episodeNumber: number | null
+  reason: HistoryUnmatchedReason
+}
+
+export interface HistoryImportResult {
+  format: HistoryFormat
+  dryRun: boolean
+  total: number
+  matched: number
+  imported: number
+  // Titles already finished on the same day
+  duplicates: number
+  unmatched: HistoryUnmatchedRow[]
+}
+
+export interface HistoryExportPreview {
+  format: HistoryFormat
+  count: number
+  // Finished plays the format can't hold
+  unmatched: {
+    mediaType: 'movie' | 'episode'
+    tmdbId: number
+    seasonNumber: number | null
+    episodeNumber: number | null
+    watchedAt: string
+    reason: HistoryUnmatchedReason
+  }[]
+}
+
+// Surface the server's message (e.g. "This profile is not linked to a Jellyfin user")
+export interface EpisodeNumber {
+  seasonNumber: number
+  episodeNumber: number
+}
+
+// Episodes a bulk change applies to: explicit episodes, a season, every regular
+// episode up to and including (through) or up to (before) one, or the whole show ({})
+export type EpisodeSelection =
+  | { episodes: EpisodeNumber[] }
+  | { seasonNumber: number }
+  | { through: EpisodeNumber }
+  | { before: EpisodeNumber }
+  | Record<string, never>
+
+export interface UpNextEpisode extends EpisodeNumber {
+  // Left partway through, so play resumes from positionMs
+  resume: boolean
+  positionMs: number
+  durationMs: number
+}
+
+const rethrow = (error: unknown): never => {
+  if (axios.isAxiosError(error) && error.response?.data?.error) {
+    throw new Error(error.response.data.error)
+  }
+  throw error
+}
+
 export const progressService = {
   /**
    * Save watch progress for a movie or episode
@@ -45,7 +177,8 @@ export const progressService = {
     positionMs: number,
     durationMs: number,
     seasonNumber?: number,
-    episodeNumber?: number
+    episodeNumber?: number,
+    creditsStartMs?: number | null
   ): Promise<void> {
     try {
       await api.post('/', {
@@ -54,7 +187,8 @@ export const progressService = {
         positionMs,
         durationMs,
         seasonNumber: seasonNumber ?? null,
-        episodeNumber: episodeNumber ?? null
+        episodeNumber: episodeNumber ?? null,
+        creditsStartMs: creditsStartMs ?? undefined
       })
     } catch (error) {
       console.error('Error saving progress:', error)
@@ -104,6 +238,106 @@ export const progressService = {
     }
   },
 
+  /**
+   * Remove an item from Continue Watching; it comes back once watched again
+   */
+  async hideFromContinueWatching(id: number): Promise<void> {
+    try {
+      await api.delete(`/continue-watching/${id}`)
+    } catch (error) {
+      return rethrow(error)
+    }
+  },
+
+  /**
+   * Get watch history, one entry per play, most recent first
+   */
+  async getHistory(query: HistoryQuery = {}): Promise<{ sessions: WatchSession[], total: number }> {
+    const response = await api.get('/history', { params: query })
+    return response.data
+  },
+
+  /**
+   * Get the profile's Jellyfin sync state and the conflicts of the latest sync
+   */
+  async getJellyfinSyncStatus(): Promise<JellyfinSyncStatus> {
+    const response = await api.get('/jellyfin-sync')
+    return response.data
+  },
+
+  /**
+   * Link the profile to a Jellyfin user, or unlink it with null (admin only)
+   */
+  async setJellyfinUser(jellyfinUserId: string | null): Promise<JellyfinSyncStatus> {
+    try {
+      const response = await api.put('/jellyfin-sync/user', { jellyfinUserId })
+      return response.data
+    } catch (error) {
+      return rethrow(error)
+    }
+  },
+
+  /**
+   * Sync watched state with Jellyfin now
+   */
+  async syncWithJellyfin(): Promise<JellyfinSyncRun> {
+    try {
+      const response = await api.post('/jellyfin-sync')
+      return response.data.run
+    } catch (error) {
+      return rethrow(error)
+    }
+  },
+
+  /**
+   * Import a Trakt JSON export or Letterboxd CSV; a dry run only previews the matches
+   */
+  async importHistory(format: HistoryFormat, file: File, dryRun: boolean): Promise<HistoryImportResult> {
+    try {
+      const response = await api.post('/import', await file.text(), {
+        params: { format, dryRun },
+        headers: { 'Content-Type': 'text/plain' },
+        // Matching titles through Radarr takes a while for long histories
+        timeout: 10 * 60 * 1000
+      })
+      return response.data
+    } catch (error) {
+      return rethrow(error)
+    }
+  },
+
+  /**
+   * Preview what an export in the given format would hold
+   */
+  async previewHistoryExport(format: HistoryFormat): Promise<HistoryExportPreview> {
+    try {
+      const response = await api.get('/export', { params: { format, dryRun: true } })
+      return response.data
+    } catch (error) {
+      return rethrow(error)
+    }
+  },
+
+  /**
+   * Download finished plays as a Trakt JSON or Letterboxd CSV file
+   */
+  async exportHistory(format: HistoryFormat): Promise<void> {
+    try {
+      const response = await api.get('/export', { params: { format }, responseType: 'blob' })
+      const filename = /filename="([^"]+)"/.exec(response.headers['content-disposition'] ?? '')?.[1]
+        ?? `watch-history.${format === 'trakt' ? 'json' : 'csv'}`
+
+      const url = URL.createObjectURL(response.data)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = filename
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      return rethrow(error)
+    }
+  },
+
   /**
    * Get all watch progress for a TV show (all episodes)
    */
@@ -117,6 +351,43 @@ export const progressService = {
     }
   },
 
+  /**
+   * Get the episode of a show to play next, skipping specials; null when caught up
+   */
+  async getUpNext(tmdbId: number): Promise<UpNextEpisode | null> {
+    try {
+      const response = await api.get(`/show/${tmdbId}/up-next`)
+      return response.data.upNext
+    } catch (error) {
+      console.error('Error fetching up next episode:', error)
+      return null
+    }
+  },
+
+  /**
+   * Mark episodes of a show watched in bulk, returning how many changed
+   */
+  async markEpisodesWatched(tmdbId: number, selection: EpisodeSelection): Promise<number> {
+    try {
+      const response = await api.post(`/show/${tmdbId}/watched`, selection)
+      return response.data.changed
+    } catch (error) {
+      return rethrow(error)
+    }
+  },
+
+  /**
+   * Mark episodes of a show unwatched in bulk, returning how many changed
+   */
+  async unwatchEpisodes(tmdbId: number, selection: EpisodeSelection): Promise<number> {
+    try {
+      const response = await api.delete(`/show/${tmdbId}/watched`, { data: selection })
+      return response.data.changed
+    } catch (error) {
+      return rethrow(error)
+    }
+  },
+
   /**
    * Mark media as fully watched
    */
@@ -0,0 +1,41 @@
+import axios from 'axios'
+import { setupAuthInterceptor } from '@/composables/useAuthInterceptor'
+
+const API_BASE = import.meta.env.VITE_TORRENT_API_URL || 'http://localhost:3001'
+
+const api = axios.create({
+  baseURL: `${API_BASE}/api/auth/sessions`,
+  timeout: 30000
+})
+
+// Setup auth interceptor
+setupAuthInterceptor(api)
+
+export interface Session {
+  id: string
+  device: string
+  userAgent: string | null
+  ip: string | null
+  createdAt: string
+  lastUsedAt: string
+  expiresAt: string
+  // Whether this is the device making the request
+  current: boolean
+}
+
+export const sessionService = {
+  async getSessions(): Promise<Session[]> {
+    const response = await api.get('/')
+    return response.data.sessions
+  },
+
+  async revokeSession(id: string): Promise<boolean> {
+    try {
+      await api.delete(`/${id}`)
+      return true
+    } catch (error) {
+      console.error('Error revoking session:', error)
+      return false
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import { useAuthStore } from '@/stores/authStore'
+
+const API_BASE = import.meta.env.VITE_TORRENT_API_URL || 'http://localhost:3001'
+
+// Streams of live updates the server sends to subscribed clients
+export type SocketChannel = 'downloads' | 'progress' | 'library'
+
+export interface SocketEvent<T = unknown> {
+  channel: SocketChannel
+  data: T
+}
+
+// A title added to or removed from the Radarr/Sonarr library
+export interface LibraryEvent {
+  type: 'added' | 'removed'
+  mediaType: 'movie' | 'tv'
+  // Unknown when a title was removed by its Radarr/Sonarr id
+  tmdbId: number | null
+}
+
+export const socketService = {
+  createWebSocket(onEvent: (event: SocketEvent) => void): WebSocket {
+    const authStore = useAuthStore()
+    let wsUrl = API_BASE.replace('http', 'ws') + '/ws'
+
+    // Add token to WebSocket URL if authenticated
+    if (authStore.token) {
+      wsUrl += `?token=${encodeURIComponent(authStore.token)}`
+    }
+
+    const ws = new WebSocket(wsUrl)
+
+    ws.onmessage = (event) => {
+      try {
+        onEvent(JSON.parse(event.data) as SocketEvent)
+      } catch (error) {
+        console.error('Error parsing WebSocket message:', error)
+      }
+    }
+
+    ws.onerror = (error) => {
+      console.error('WebSocket error:', error)
+    }
+
+    return ws
+  },
+
+  send(ws: WebSocket, type: 'subscribe' | 'unsubscribe', channels: SocketChannel[]): void {
+    if (ws.readyState !== WebSocket.OPEN || channels.length === 0) return
+    ws.send(JSON.stringify({ type, channels }))
+  }
+}
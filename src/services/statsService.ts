@@ -0,0 +1,80 @@
+import axios from 'axios'
+import { setupAuthInterceptor } from '@/composables/useAuthInterceptor'
+
+const API_BASE = import.meta.env.VITE_TORRENT_API_URL || 'http://localhost:3001'
+
+const api = axios.create({
+  baseURL: `${API_BASE}/api/stats`,
+  // The first request looks up genres and runtimes of every watched title
+  timeout: 120000
+})
+
+// Setup auth interceptor
+setupAuthInterceptor(api)
+
+export interface StatsPeriodHours {
+  // First day of the week (Monday) or month, "YYYY-MM-DD"
+  start: string
+  hours: number
+}
+
+export interface GenreStats {
+  id: number
+  // TMDB's English name
+  name: string
+  hours: number
+  plays: number
+}
+
+export interface ShowStats {
+  tmdbId: number
+  title: string | null
+  // Distinct episodes finished
+  episodes: number
+  hours: number
+}
+
+export interface BingeStats {
+  startedAt: string
+  endedAt: string
+  plays: number
+  hours: number
+  // Show watched, when the whole binge was one show
+  tmdbId: number | null
+}
+
+export interface ViewingStats {
+  // Calendar year of a year in review, null for all time
+  year: number | null
+  // Years with any plays, most recent first
+  years: number[]
+  totals: {
+    hours: number
+    plays: number
+    movies: number
+    episodes: number
+    // 0..1, null when nothing was started
+    completionRate: number | null
+  }
+  split: {
+    movies: { plays: number, hours: number }
+    episodes: { plays: number, hours: number }
+  }
+  byWeek: StatsPeriodHours[]
+  byMonth: StatsPeriodHours[]
+  topGenres: GenreStats[]
+  topShows: ShowStats[]
+  longestBinge: BingeStats | null
+  // False when the server has no TMDB key for genres and runtimes
+  metadataAvailable: boolean
+}
+
+export const statsService = {
+  /**
+   * Get viewing statistics for all time, or a year in review
+   */
+  async getStats(year: number | null = null): Promise<ViewingStats> {
+    const response = await api.get('/', { params: year === null ? {} : { year } })
+    return response.data
+  }
+}
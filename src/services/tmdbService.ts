@@ -1,4 +1,5 @@
 import axios from 'axios'
+import { setupAuthInterceptor } from '@/composables/useAuthInterceptor'
 import type {
   Media,
   MediaDetails,
@@ -15,7 +16,8 @@ import type {
   CollectionPart,
 } from '@/types'
 
-const TMDB_BASE_URL = 'https://api.themoviedb.org/3'
+// TMDB is reached through the backend, which holds the API key and caches responses
+const API_BASE = import.meta.env.VITE_TORRENT_API_URL || 'http://localhost:3001'
 const TMDB_IMAGE_BASE = 'https://image.tmdb.org/t/p'
 
 // Language mapping from our app locales to TMDB language codes
@@ -43,17 +45,17 @@ export function getTmdbLanguage(): string {
 }
 
 const api = axios.create({
-  baseURL: TMDB_BASE_URL,
-  params: {
-    api_key: import.meta.env.VITE_TMDB_API_KEY,
-  },
+  baseURL: `${API_BASE}/api/tmdb`,
+  timeout: 30000,
 })
 
-// Add language to every request
+setupAuthInterceptor(api)
+
+// Add language to every request, unless one is asked for
 api.interceptors.request.use((config) => {
   config.params = {
-    ...config.params,
     language: currentLanguage,
+    ...config.params,
   }
   return config
 })
@@ -118,16 +120,6 @@ export const getBackdropSrcset = (path: string | null): string => {
   ].join(', ')
 }
 
-// Get just the poster path for a movie or TV show (lightweight fetch)
-export async function getPosterPath(mediaType: MediaType, id: number): Promise<string | null> {
-  try {
-    const response = await api.get(`/${mediaType}/${id}`)
-    return response.data.poster_path || null
-  } catch {
-    return null
-  }
-}
-
 // Transform TMDB response to our Media type
 const transformToMedia = (item: TMDBSearchResult): Media | null => {
   if (item.media_type === 'person') return null
@@ -684,9 +676,9 @@ export async function getMediaDetails(mediaType: MediaType, id: number): Promise
     api.get(`/${mediaType}/${id}/credits`),
     api.get(`/${mediaType}/${id}/videos`),
     api.get(`/${mediaType}/${id}/external_ids`),
-    // Fetch English title for torrent searches (bypass language interceptor)
-    axios.get(`${TMDB_BASE_URL}/${mediaType}/${id}`, {
-      params: { api_key: import.meta.env.VITE_TMDB_API_KEY, language: 'en-US' }
+    // Fetch English title for torrent searches
+    api.get(`/${mediaType}/${id}`, {
+      params: { language: 'en-US' }
     }),
   ])
 
@@ -870,54 +862,6 @@ export async function getFeaturedContent(): Promise<Media | null> {
   return withBackdrop[randomIndex]
 }
 
-// Find TMDB ID by external ID (TVDB or IMDB)
-export async function findByExternalId(externalId: string | number, source: 'imdb_id' | 'tvdb_id'): Promise<{ id: number; mediaType: MediaType; posterPath?: string | null } | null> {
-  try {
-    const { data } = await api.get(`/find/${externalId}`, {
-      params: { external_source: source }
-    })
-
-    // Check TV results first (for TVDB)
-    if (data.tv_results && data.tv_results.length > 0) {
-      const result = data.tv_results[0]
-      return { id: result.id, mediaType: 'tv', posterPath: result.poster_path }
-    }
-
-    // Check movie results
-    if (data.movie_results && data.movie_results.length > 0) {
-      const result = data.movie_results[0]
-      return { id: result.id, mediaType: 'movie', posterPath: result.poster_path }
-    }
-
-    return null
-  } catch (error) {
-    console.error('Error finding by external ID:', error)
-    return null
-  }
-}
-
-// Find TMDB data by external ID with poster path (for calendar)
-export async function findTVByExternalId(externalId: string | number, source: 'imdb_id' | 'tvdb_id'): Promise<{ id: number; posterPath: string | null } | null> {
-  try {
-    const { data } = await api.get(`/find/${externalId}`, {
-      params: { external_source: source }
-    })
-
-    // Check TV results first (for TVDB)
-    if (data.tv_results && data.tv_results.length > 0) {
-      return {
-        id: data.tv_results[0].id,
-        posterPath: data.tv_results[0].poster_path || null
-      }
-    }
-
-    return null
-  } catch (error) {
-    console.error('Error finding TV by external ID:', error)
-    return null
-  }
-}
-
 // Get TV show season details with episodes
 export async function getTVSeasonDetails(tvId: number, seasonNumber: number): Promise<SeasonDetails | null> {
   // Check cache first
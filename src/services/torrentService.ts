@@ -1,7 +1,16 @@
 import axios from 'axios'
-import type { TorrentResult, Download, SearchQuery, ProgressUpdate } from '@/types/torrent'
+import type {
+  TorrentResult,
+  Download,
+  DownloadHistoryQuery,
+  DownloadPriority,
+  ProwlarrIndexer,
+  QueueMove,
+  SearchQuery,
+  SeedingRule,
+  StorageStatus
+} from '@/types/torrent'
 import { setupAuthInterceptor } from '@/composables/useAuthInterceptor'
-import { useAuthStore } from '@/stores/authStore'
 
 const API_BASE = import.meta.env.VITE_TORRENT_API_URL || 'http://localhost:3001'
 
@@ -31,12 +40,22 @@ export const torrentService = {
     return response.data
   },
 
-  async startDownload(magnetLink: string, mediaId?: number, mediaType?: 'movie' | 'tv', name?: string): Promise<Download> {
+  async startDownload(
+    magnetLink: string,
+    mediaId?: number,
+    mediaType?: 'movie' | 'tv',
+    name?: string,
+    indexer?: string,
+    size?: number
+  ): Promise<Download> {
+    // Fails with 507 when the download would eat into the disk reserve and the server refuses those
     const response = await api.post('/download', {
       magnetLink,
       mediaId,
       mediaType,
-      name
+      name,
+      indexer,
+      size
     })
     return response.data.download
   },
@@ -59,34 +78,48 @@ export const torrentService = {
     await api.put(`/downloads/${id}/resume`)
   },
 
-  async cancelDownload(id: string): Promise<void> {
-    await api.delete(`/downloads/${id}`)
+  // Fails with 409 for private tracker torrents that haven't finished seeding, unless forced
+  // Files of completed downloads are kept unless deleteFiles is set
+  async cancelDownload(id: string, options: { force?: boolean; deleteFiles?: boolean } = {}): Promise<void> {
+    await api.delete(`/downloads/${id}`, { params: options })
   },
 
-  createWebSocket(onMessage: (update: ProgressUpdate) => void): WebSocket {
-    const authStore = useAuthStore()
-    let wsUrl = API_BASE.replace('http', 'ws') + '/ws'
+  async moveDownload(id: string, move: QueueMove): Promise<void> {
+    await api.put(`/downloads/${id}/move-${move}`)
+  },
 
-    // Add token to WebSocket URL if authenticated
-    if (authStore.token) {
-      wsUrl += `?token=${encodeURIComponent(authStore.token)}`
-    }
+  // The listed downloads swap into the places they hold between them in the queue
+  async reorderDownloads(ids: string[]): Promise<void> {
+    await api.put('/downloads/order', { ids })
+  },
 
-    const ws = new WebSocket(wsUrl)
+  async setDownloadPriority(id: string, priority: DownloadPriority): Promise<void> {
+    await api.put(`/downloads/${id}/priority`, { priority })
+  },
 
-    ws.onmessage = (event) => {
-      try {
-        const update = JSON.parse(event.data) as ProgressUpdate
-        onMessage(update)
-      } catch (error) {
-        console.error('Error parsing WebSocket message:', error)
-      }
-    }
+  async getStorage(): Promise<StorageStatus> {
+    const response = await api.get('/storage')
+    return response.data
+  },
 
-    ws.onerror = (error) => {
-      console.error('WebSocket error:', error)
-    }
+  async getIndexers(): Promise<ProwlarrIndexer[]> {
+    const response = await api.get('/indexers')
+    return response.data.indexers
+  },
+
+  async getSeedingRules(): Promise<SeedingRule[]> {
+    const response = await api.get('/seeding-rules')
+    return response.data.rules
+  },
 
-    return ws
+  async setSeedingRules(rules: SeedingRule[]): Promise<SeedingRule[]> {
+    const response = await api.put('/seeding-rules', { rules })
+    return response.data.rules
+  },
+
+  // Downloads of any status, including cancelled ones, most recent first
+  async getHistory(query: DownloadHistoryQuery = {}): Promise<{ downloads: Download[]; total: number }> {
+    const response = await api.get('/history', { params: query })
+    return response.data
   }
 }
@@ -0,0 +1,77 @@
+import axios from 'axios'
+import { setupAuthInterceptor } from '@/composables/useAuthInterceptor'
+
+const API_BASE = import.meta.env.VITE_TORRENT_API_URL || 'http://localhost:3001'
+
+const api = axios.create({
+  baseURL: `${API_BASE}/api/users/me/2fa`,
+  timeout: 30000
+})
+
+// Setup auth interceptor
+setupAuthInterceptor(api)
+
+export interface TwoFactorStatus {
+  enabled: boolean
+  recoveryCodesRemaining: number
+}
+
+export interface TwoFactorSetup {
+  secret: string
+  otpauthUri: string
+  // PNG data URL of the otpauth URI
+  qrCode: string
+}
+
+// Surface the server's message (e.g. "Invalid verification code")
+const rethrow = (error: unknown): never => {
+  if (axios.isAxiosError(error) && error.response?.data?.error) {
+    throw new Error(error.response.data.error)
+  }
+  throw error
+}
+
+export const twoFactorService = {
+  async getStatus(): Promise<TwoFactorStatus> {
+    const response = await api.get('/')
+    return response.data
+  },
+
+  async beginSetup(): Promise<TwoFactorSetup> {
+    try {
+      const response = await api.post('/setup')
+      return response.data
+    } catch (error) {
+      return rethrow(error)
+    }
+  },
+
+  /**
+   * Confirm setup with a code from the authenticator app, returning the recovery codes
+   */
+  async enable(code: string): Promise<string[]> {
+    try {
+      const response = await api.post('/enable', { code })
+      return response.data.recoveryCodes
+    } catch (error) {
+      return rethrow(error)
+    }
+  },
+
+  async disable(password: string): Promise<void> {
+    try {
+      await api.post('/disable', { password })
+    } catch (error) {
+      rethrow(error)
+    }
+  },
+
+  async regenerateRecoveryCodes(password: string): Promise<string[]> {
+    try {
+      const response = await api.post('/recovery-codes', { password })
+      return response.data.recoveryCodes
+    } catch (error) {
+      return rethrow(error)
+    }
+  }
+}
@@ -5,6 +5,63 @@ import axios from 'axios'
 const API_BASE = import.meta.env.VITE_TORRENT_API_URL || 'http://localhost:3001'
 const TOKEN_KEY = 'my-cinema-auth-token'
 const EXPIRES_KEY = 'my-cinema-auth-expires'
+const USER_KEY = 'my-cinema-auth-user'
+const PROFILE_KEY = 'my-cinema-auth-profile'
+const REFRESH_KEY = 'my-cinema-auth-refresh'
+
+// Renew the access token this long before it expires
+const REFRESH_MARGIN_MS = 60 * 1000
+
+export type UserRole = 'admin' | 'viewer' | 'kid'
+
+export interface AuthUser {
+  id: string
+  username: string
+  role: UserRole
+  // Highest content rating a kid account may play
+  maxRating?: string | null
+}
+
+export interface AuthProfile {
+  id: string
+  name: string
+  avatarColor?: string
+}
+
+interface SessionResponse {
+  token: string
+  expiresAt: number
+  // Only present when the server issued a new refresh token
+  refreshToken?: string
+  user: AuthUser
+  profile: AuthProfile | null
+}
+
+function loadStored<T>(key: string): T | null {
+  try {
+    const stored = localStorage.getItem(key)
+    return stored ? JSON.parse(stored) : null
+  } catch {
+    return null
+  }
+}
+
+function persist(key: string, value: unknown) {
+  if (value) {
+    localStorage.setItem(key, JSON.stringify(value))
+  } else {
+    localStorage.removeItem(key)
+  }
+}
+
+/**
+ * Scope a localStorage key to the active profile, so each profile
+ * keeps its own settings on a shared device
+ */
+export function getProfileStorageKey(baseKey: string): string {
+  const profile = loadStored<AuthProfile>(PROFILE_KEY)
+  return profile ? `${baseKey}:${profile.id}` : baseKey
+}
 
 export const useAuthStore = defineStore('auth', () => {
   // State
@@ -12,9 +69,17 @@ export const useAuthStore = defineStore('auth', () => {
   const expiresAt = ref<number | null>(
     localStorage.getItem(EXPIRES_KEY) ? parseInt(localStorage.getItem(EXPIRES_KEY)!) : null
   )
+  const refreshToken = ref<string | null>(localStorage.getItem(REFRESH_KEY))
+  const user = ref<AuthUser | null>(loadStored<AuthUser>(USER_KEY))
+  const profile = ref<AuthProfile | null>(loadStored<AuthProfile>(PROFILE_KEY))
   const isLoading = ref(false)
   const error = ref<string | null>(null)
   const authEnabled = ref<boolean | null>(null) // null = not yet checked
+  // Set after a correct password when the account also needs a two-factor code
+  const twoFactorChallenge = ref<string | null>(null)
+
+  let refreshTimer: ReturnType<typeof setTimeout> | null = null
+  let refreshPromise: Promise<boolean> | null = null
 
   // Getters
   const isAuthenticated = computed(() => {
@@ -23,6 +88,21 @@ export const useAuthStore = defineStore('auth', () => {
     return Date.now() < expiresAt.value
   })
 
+  // Without accounts everyone has full access
+  const role = computed<UserRole>(() => {
+    if (authEnabled.value === false) return 'admin'
+    return user.value?.role ?? 'viewer'
+  })
+
+  // Admins manage the library and downloads
+  const isAdmin = computed(() => role.value === 'admin')
+
+  // Viewers may request titles be added to the library, kids may not
+  const canRequest = computed(() => role.value === 'admin' || role.value === 'viewer')
+
+  // Profile selection is only needed when accounts exist
+  const needsProfile = computed(() => authEnabled.value !== false && !profile.value)
+
   const tokenExpiresIn = computed(() => {
     if (!expiresAt.value) return 0
     return Math.max(0, expiresAt.value - Date.now())
@@ -41,27 +121,113 @@ export const useAuthStore = defineStore('auth', () => {
     }
   }
 
-  async function login(password: string): Promise<boolean> {
-    isLoading.value = true
-    error.value = null
+  function setUser(newUser: AuthUser | null) {
+    user.value = newUser
+    persist(USER_KEY, newUser)
+  }
+
+  function setProfile(newProfile: AuthProfile | null) {
+    profile.value = newProfile
+    persist(PROFILE_KEY, newProfile)
+  }
+
+  function setSession(data: SessionResponse) {
+    token.value = data.token
+    expiresAt.value = data.expiresAt
+    setUser(data.user)
+    setProfile(data.profile)
+
+    // Persist to localStorage
+    localStorage.setItem(TOKEN_KEY, data.token)
+    localStorage.setItem(EXPIRES_KEY, data.expiresAt.toString())
+
+    if (data.refreshToken) {
+      refreshToken.value = data.refreshToken
+      localStorage.setItem(REFRESH_KEY, data.refreshToken)
+    }
+
+    scheduleRefresh()
+  }
+
+  // Pick up a session another tab stored after refreshing
+  function loadStoredSession() {
+    token.value = localStorage.getItem(TOKEN_KEY)
+    const storedExpires = localStorage.getItem(EXPIRES_KEY)
+    expiresAt.value = storedExpires ? parseInt(storedExpires) : null
+    refreshToken.value = localStorage.getItem(REFRESH_KEY)
+    user.value = loadStored<AuthUser>(USER_KEY)
+    profile.value = loadStored<AuthProfile>(PROFILE_KEY)
+    scheduleRefresh()
+  }
+
+  // Renew the access token shortly before it expires
+  function scheduleRefresh() {
+    if (refreshTimer) {
+      clearTimeout(refreshTimer)
+      refreshTimer = null
+    }
+    if (!expiresAt.value || !refreshToken.value) return
+
+    const delay = Math.max(0, expiresAt.value - Date.now() - REFRESH_MARGIN_MS)
+    refreshTimer = setTimeout(() => refreshSession(), delay)
+  }
+
+  /**
+   * Exchange the refresh token for a new access token
+   * Concurrent callers share one request, since each refresh token works only once
+   */
+  function refreshSession(): Promise<boolean> {
+    if (!refreshPromise) {
+      refreshPromise = performRefresh().finally(() => {
+        refreshPromise = null
+      })
+    }
+    return refreshPromise
+  }
+
+  async function performRefresh(): Promise<boolean> {
+    // Read from storage, another tab may have rotated the token already
+    const currentRefreshToken = localStorage.getItem(REFRESH_KEY)
+    if (!currentRefreshToken) return false
 
     try {
-      const response = await axios.post(`${API_BASE}/api/auth/login`, { password })
+      const response = await axios.post(`${API_BASE}/api/auth/refresh`, { refreshToken: currentRefreshToken })
+      setSession(response.data)
+      return true
+    } catch (err) {
+      // Another tab refreshed first and used up our token
+      const latestRefreshToken = localStorage.getItem(REFRESH_KEY)
+      if (latestRefreshToken && latestRefreshToken !== currentRefreshToken) {
+        loadStoredSession()
+        return true
+      }
 
-      token.value = response.data.token
-      expiresAt.value = response.data.expiresAt
+      // The session was revoked or expired; network errors keep the session
+      if (axios.isAxiosError(err) && err.response?.status === 401) {
+        logout()
+      }
+      return false
+    }
+  }
 
-      // Persist to localStorage
-      localStorage.setItem(TOKEN_KEY, response.data.token)
-      localStorage.setItem(EXPIRES_KEY, response.data.expiresAt.toString())
+  async function login(username: string, password: string): Promise<boolean> {
+    isLoading.value = true
+    error.value = null
 
+    try {
+      const response = await axios.post(`${API_BASE}/api/auth/login`, { username, password })
+      if (response.data.twoFactorRequired) {
+        twoFactorChallenge.value = response.data.challengeToken
+        return false
+      }
+      setSession(response.data)
       return true
     } catch (err) {
       if (axios.isAxiosError(err)) {
         if (err.response?.status === 401) {
-          error.value = 'Invalid password'
+          error.value = 'Invalid username or password'
         } else if (err.response?.status === 429) {
-          error.value = 'Too many attempts. Please wait a minute.'
+          error.value = err.response.data?.error || 'Too many attempts. Please try again later.'
         } else {
           error.value = err.response?.data?.error || 'Login failed'
         }
@@ -74,6 +240,45 @@ export const useAuthStore = defineStore('auth', () => {
     }
   }
 
+  /**
+   * Finish a two-factor login with an authenticator or recovery code
+   */
+  async function verifyTwoFactor(code: string): Promise<boolean> {
+    if (!twoFactorChallenge.value) return false
+
+    isLoading.value = true
+    error.value = null
+
+    try {
+      const response = await axios.post(`${API_BASE}/api/auth/login`, {
+        challengeToken: twoFactorChallenge.value,
+        code
+      })
+      twoFactorChallenge.value = null
+      setSession(response.data)
+      return true
+    } catch (err) {
+      if (axios.isAxiosError(err)) {
+        if (err.response?.status === 429) {
+          error.value = err.response.data?.error || 'Too many attempts. Please try again later.'
+        } else {
+          error.value = err.response?.data?.error || 'Verification failed'
+        }
+      } else {
+        error.value = 'Connection failed'
+      }
+      return false
+    } finally {
+      isLoading.value = false
+    }
+  }
+
+  // Go back to the password step
+  function cancelTwoFactor() {
+    twoFactorChallenge.value = null
+    error.value = null
+  }
+
   async function verifyToken(): Promise<boolean> {
     if (!token.value) return false
 
@@ -83,17 +288,60 @@ export const useAuthStore = defineStore('auth', () => {
         {},
         { headers: { Authorization: `Bearer ${token.value}` } }
       )
+      if (response.data.valid && response.data.user) {
+        setUser(response.data.user)
+        setProfile(response.data.profile)
+      }
       return response.data.valid
     } catch {
       return false
     }
   }
 
+  /**
+   * Switch to a profile, exchanging the token for one scoped to it
+   * Throws with the server's message when the PIN is wrong
+   */
+  async function selectProfile(profileId: string, pin?: string): Promise<void> {
+    try {
+      const response = await axios.post(
+        `${API_BASE}/api/profiles/${profileId}/select`,
+        { pin },
+        { headers: getAuthHeader() }
+      )
+      setSession(response.data)
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.response?.data?.error) {
+        throw new Error(err.response.data.error)
+      }
+      throw err
+    }
+  }
+
+  // Forget the selected profile to return to the "who's watching?" screen
+  function clearProfile() {
+    setProfile(null)
+  }
+
   function logout() {
+    // Sign this device out on the server too (best effort)
+    if (token.value && refreshToken.value) {
+      axios.post(`${API_BASE}/api/auth/logout`, {}, { headers: getAuthHeader() }).catch(() => {})
+    }
+
+    if (refreshTimer) {
+      clearTimeout(refreshTimer)
+      refreshTimer = null
+    }
+
     token.value = null
     expiresAt.value = null
+    refreshToken.value = null
+    setUser(null)
+    setProfile(null)
     localStorage.removeItem(TOKEN_KEY)
     localStorage.removeItem(EXPIRES_KEY)
+    localStorage.removeItem(REFRESH_KEY)
   }
 
   function getAuthHeader(): { Authorization: string } | {} {
@@ -109,12 +357,20 @@ export const useAuthStore = defineStore('auth', () => {
     // If auth is not enabled, we're good
     if (!authEnabled.value) return
 
+    // Renew an access token that expired while the app was closed
+    if (refreshToken.value && (!expiresAt.value || expiresAt.value - Date.now() < REFRESH_MARGIN_MS)) {
+      await refreshSession()
+      return
+    }
+
     // If we have a token, verify it's still valid
     if (token.value) {
       const isValid = await verifyToken()
       if (!isValid) {
         logout()
+        return
       }
+      scheduleRefresh()
     }
   }
 
@@ -122,16 +378,29 @@ export const useAuthStore = defineStore('auth', () => {
     // State
     token,
     expiresAt,
+    refreshToken,
+    user,
+    profile,
     isLoading,
     error,
     authEnabled,
+    twoFactorChallenge,
     // Getters
     isAuthenticated,
+    role,
+    isAdmin,
+    canRequest,
+    needsProfile,
     tokenExpiresIn,
     // Actions
     checkAuthStatus,
     login,
+    verifyTwoFactor,
+    cancelTwoFactor,
     verifyToken,
+    refreshSession,
+    selectProfile,
+    clearProfile,
     logout,
     getAuthHeader,
     initialize
@@ -0,0 +1,144 @@
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import { LOCALE_STORAGE_KEY } from '@/i18n'
+import { getProfileStorageKey } from '@/stores/authStore'
+import { preferencesService, type Preferences } from '@/services/preferencesService'
+
+// Same key useSubtitleStyle reads from
+const SUBTITLE_STYLE_STORAGE_KEY = 'my-cinema-subtitle-style'
+
+// Batch quick successive changes (e.g. stepping through speeds) into one request
+const SAVE_DELAY_MS = 1000
+
+const DEFAULT_PREFERENCES: Preferences = {
+  subtitleStyle: null,
+  locale: null,
+  defaultAudioLanguage: null,
+  defaultSubtitleLanguage: null,
+  playbackSpeed: 1,
+  completionThreshold: 95,
+  abandonAfterDays: 30
+}
+
+/**
+ * Per-profile preferences kept on the server, so they follow the profile across devices
+ * Subtitle style and locale are mirrored into localStorage, where the rest of the app reads them
+ */
+export const usePreferencesStore = defineStore('preferences', () => {
+  // State
+  const preferences = ref<Preferences>({ ...DEFAULT_PREFERENCES })
+  const isLoaded = ref(false)
+
+  let loadPromise: Promise<void> | null = null
+  let pendingUpdate: Partial<Preferences> = {}
+  let saveTimer: ReturnType<typeof setTimeout> | null = null
+
+  const readLocal = (baseKey: string): string | null => {
+    return localStorage.getItem(getProfileStorageKey(baseKey))
+  }
+
+  const fetchPreferences = async () => {
+    try {
+      const remote = await preferencesService.getPreferences()
+      preferences.value = remote
+
+      // Server values win; values only this device knows about are uploaded
+      const upload: Partial<Preferences> = {}
+
+      if (remote.subtitleStyle) {
+        localStorage.setItem(getProfileStorageKey(SUBTITLE_STYLE_STORAGE_KEY), JSON.stringify(remote.subtitleStyle))
+      } else {
+        const local = readLocal(SUBTITLE_STYLE_STORAGE_KEY)
+        if (local) {
+          try {
+            upload.subtitleStyle = JSON.parse(local)
+          } catch {
+            // Ignore a corrupt local value
+          }
+        }
+      }
+
+      if (remote.locale) {
+        localStorage.setItem(getProfileStorageKey(LOCALE_STORAGE_KEY), remote.locale)
+      } else {
+        const local = readLocal(LOCALE_STORAGE_KEY)
+        if (local) upload.locale = local
+      }
+
+      if (Object.keys(upload).length > 0) {
+        preferences.value = await preferencesService.updatePreferences(upload)
+      }
+      isLoaded.value = true
+    } catch (error) {
+      console.error('Failed to load preferences:', error)
+    } finally {
+      loadPromise = null
+    }
+  }
+
+  // Actions
+  const load = (): Promise<void> => {
+    if (!loadPromise) {
+      loadPromise = fetchPreferences()
+    }
+    return loadPromise
+  }
+
+  // Load once, e.g. when the player opens on a page that was reloaded
+  const ensureLoaded = async () => {
+    if (!isLoaded.value) {
+      await load()
+    }
+  }
+
+  const flush = async () => {
+    if (saveTimer) {
+      clearTimeout(saveTimer)
+      saveTimer = null
+    }
+
+    const update = pendingUpdate
+    pendingUpdate = {}
+    if (Object.keys(update).length === 0) return
+
+    try {
+      preferences.value = await preferencesService.updatePreferences(update)
+    } catch (error) {
+      console.error('Failed to save preferences:', error)
+    }
+  }
+
+  const update = (changes: Partial<Preferences>) => {
+    const changed = Object.fromEntries(
+      Object.entries(changes).filter(([key, value]) =>
+        JSON.stringify(preferences.value[key as keyof Preferences]) !== JSON.stringify(value)
+      )
+    ) as Partial<Preferences>
+    if (Object.keys(changed).length === 0) return
+
+    preferences.value = { ...preferences.value, ...changed }
+    pendingUpdate = { ...pendingUpdate, ...changed }
+
+    if (saveTimer) clearTimeout(saveTimer)
+    saveTimer = setTimeout(flush, SAVE_DELAY_MS)
+  }
+
+  // Forget the previous profile's preferences when switching or signing out
+  const reset = () => {
+    if (saveTimer) clearTimeout(saveTimer)
+    saveTimer = null
+    pendingUpdate = {}
+    preferences.value = { ...DEFAULT_PREFERENCES }
+    isLoaded.value = false
+  }
+
+  return {
+    preferences,
+    isLoaded,
+    load,
+    ensureLoaded,
+    update,
+    flush,
+    reset
+  }
+})
@@ -0,0 +1,114 @@
+import { defineStore } from 'pinia'
+import { ref, watch } from 'vue'
+import { useAuthStore } from '@/stores/authStore'
+import { socketService, type SocketChannel, type SocketEvent } from '@/services/socketService'
+
+const RECONNECT_DELAY_MS = 3000
+
+type SocketListener = (data: unknown) => void
+
+/**
+ * One WebSocket connection shared by everything that wants live updates
+ * Connected while any channel has a listener, and reopened when the account or profile changes
+ */
+export const useSocketStore = defineStore('socket', () => {
+  const authStore = useAuthStore()
+
+  // State
+  const connected = ref(false)
+
+  const listeners = new Map<SocketChannel, Set<SocketListener>>()
+  let ws: WebSocket | null = null
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+
+  const activeChannels = (): SocketChannel[] => [...listeners.keys()]
+
+  function handleEvent(event: SocketEvent): void {
+    listeners.get(event.channel)?.forEach(listener => listener(event.data))
+  }
+
+  function connect(): void {
+    if (ws || listeners.size === 0) return
+
+    const socket = socketService.createWebSocket(handleEvent)
+    ws = socket
+
+    socket.onopen = () => {
+      connected.value = true
+      socketService.send(socket, 'subscribe', activeChannels())
+    }
+
+    socket.onclose = () => {
+      // Replaced by a newer connection
+      if (ws !== socket) return
+
+      ws = null
+      connected.value = false
+      scheduleReconnect()
+    }
+  }
+
+  function scheduleReconnect(): void {
+    if (reconnectTimer || listeners.size === 0) return
+
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null
+      connect()
+    }, RECONNECT_DELAY_MS)
+  }
+
+  function disconnect(): void {
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer)
+      reconnectTimer = null
+    }
+
+    const socket = ws
+    ws = null
+    connected.value = false
+    socket?.close()
+  }
+
+  /**
+   * Listen to a channel, returning a function that stops listening
+   */
+  function subscribe<T>(channel: SocketChannel, listener: (data: T) => void): () => void {
+    let channelListeners = listeners.get(channel)
+    if (!channelListeners) {
+      channelListeners = new Set()
+      listeners.set(channel, channelListeners)
+      if (ws) socketService.send(ws, 'subscribe', [channel])
+    }
+    channelListeners.add(listener as SocketListener)
+    connect()
+
+    return () => {
+      channelListeners.delete(listener as SocketListener)
+      if (channelListeners.size > 0 || listeners.get(channel) !== channelListeners) return
+
+      listeners.delete(channel)
+      if (listeners.size === 0) {
+        disconnect()
+      } else if (ws) {
+        socketService.send(ws, 'unsubscribe', [channel])
+      }
+    }
+  }
+
+  // The server ties each connection to the account and profile it was opened with
+  watch(
+    () => [authStore.user?.id, authStore.profile?.id, !!authStore.token],
+    () => {
+      disconnect()
+      if (authStore.token || authStore.authEnabled === false) connect()
+    }
+  )
+
+  return {
+    // State
+    connected,
+
+    // Actions
+    subscribe
+  }
+})
@@ -1,19 +1,40 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
+import axios from 'axios'
 import { torrentService } from '@/services/torrentService'
-import type { TorrentResult, Download, SearchQuery, ProgressUpdate } from '@/types/torrent'
+import { useSocketStore } from '@/stores/socketStore'
+import type {
+  TorrentResult,
+  Download,
+  DownloadPriority,
+  QueueMove,
+  SearchQuery,
+  ProgressUpdate,
+  SeedingWarning
+} from '@/types/torrent'
 
 export const useTorrentsStore = defineStore('torrents', () => {
+  const socketStore = useSocketStore()
+
   // State
   const searchResults = ref<TorrentResult[]>([])
   const downloads = ref<Download[]>([])
   const isSearching = ref(false)
   const searchError = ref<string | null>(null)
-  const wsConnected = ref(false)
+  // Set when removing a private tracker torrent was refused, until confirmed or dismissed
+  const seedingWarning = ref<SeedingWarning | null>(null)
+  const wsConnected = computed(() => socketStore.connected)
 
-  let ws: WebSocket | null = null
+  let unsubscribeDownloads: (() => void) | null = null
 
   // Getters
+  // Queued, downloading and paused downloads in queue order
+  const queue = computed(() =>
+    downloads.value
+      .filter(d => d.status === 'queued' || d.status === 'downloading' || d.status === 'paused')
+      .sort((a, b) => a.queuePosition - b.queuePosition)
+  )
+
   const activeDownloads = computed(() =>
     downloads.value.filter(d => d.status === 'downloading' || d.status === 'queued')
   )
@@ -59,13 +80,15 @@ export const useTorrentsStore = defineStore('torrents', () => {
       torrent.magnetLink,
       mediaId,
       mediaType,
-      torrent.name
+      torrent.name,
+      torrent.indexer,
+      torrent.sizeBytes || undefined
     )
 
     // Add to local state (will be updated by WebSocket)
     const existingIndex = downloads.value.findIndex(d => d.id === download.id)
     if (existingIndex === -1) {
-      downloads.value.unshift(download)
+      downloads.value.push(download)
     }
 
     return download
@@ -83,14 +106,33 @@ export const useTorrentsStore = defineStore('torrents', () => {
   async function resumeDownload(id: string): Promise<void> {
     await torrentService.resumeDownload(id)
 
+    // Back in the queue; the server says when it actually starts
     const download = downloads.value.find(d => d.id === id)
     if (download) {
-      download.status = 'downloading'
+      download.status = 'queued'
     }
   }
 
-  async function cancelDownload(id: string): Promise<void> {
-    await torrentService.cancelDownload(id)
+  /**
+   * Remove a download; private tracker torrents that haven't finished seeding
+   * raise a seeding warning instead, unless forced
+   */
+  async function cancelDownload(id: string, force = false): Promise<void> {
+    try {
+      await torrentService.cancelDownload(id, { force: force || undefined })
+    } catch (error) {
+      const download = downloads.value.find(d => d.id === id)
+      if (download && axios.isAxiosError(error) && error.response?.status === 409) {
+        const { ratio, seedingTime, rule } = error.response.data
+        seedingWarning.value = { download, ratio, seedingTime, rule }
+        return
+      }
+      throw error
+    }
+
+    if (seedingWarning.value?.download.id === id) {
+      seedingWarning.value = null
+    }
 
     const index = downloads.value.findIndex(d => d.id === id)
     if (index !== -1) {
@@ -98,6 +140,53 @@ export const useTorrentsStore = defineStore('torrents', () => {
     }
   }
 
+  async function moveDownload(id: string, move: QueueMove): Promise<void> {
+    await torrentService.moveDownload(id, move)
+  }
+
+  /**
+   * Put the queue in the given order right away, then save it
+   * The server confirms the order over the WebSocket; on failure the saved order is fetched again
+   */
+  async function reorderQueue(ids: string[]): Promise<void> {
+    applyQueueOrder(ids)
+
+    try {
+      await torrentService.reorderDownloads(ids)
+    } catch (error) {
+      await fetchDownloads()
+      throw error
+    }
+  }
+
+  // Move a download into the place of another one in the queue
+  async function dropInQueue(id: string, targetId: string): Promise<void> {
+    const ids = queue.value.map(d => d.id)
+    const from = ids.indexOf(id)
+    const to = ids.indexOf(targetId)
+    if (from === -1 || to === -1) return
+
+    ids.splice(from, 1)
+    ids.splice(to, 0, id)
+    await reorderQueue(ids)
+  }
+
+  async function setDownloadPriority(id: string, priority: DownloadPriority): Promise<void> {
+    await torrentService.setDownloadPriority(id, priority)
+
+    const download = downloads.value.find(d => d.id === id)
+    if (download) {
+      download.priority = priority
+    }
+  }
+
+  function applyQueueOrder(ids: string[]): void {
+    ids.forEach((id, index) => {
+      const download = downloads.value.find(d => d.id === id)
+      if (download) download.queuePosition = index
+    })
+  }
+
   async function fetchDownloads(): Promise<void> {
     try {
       downloads.value = await torrentService.getDownloads()
@@ -112,6 +201,11 @@ export const useTorrentsStore = defineStore('torrents', () => {
       return
     }
 
+    if (update.type === 'queue' && update.queue) {
+      applyQueueOrder(update.queue)
+      return
+    }
+
     if (!update.downloadId || !update.data) return
 
     const download = downloads.value.find(d => d.id === update.downloadId)
@@ -121,34 +215,13 @@ export const useTorrentsStore = defineStore('torrents', () => {
   }
 
   function connectWebSocket(): void {
-    if (ws && ws.readyState === WebSocket.OPEN) return
-
-    ws = torrentService.createWebSocket(handleProgressUpdate)
-
-    ws.onopen = () => {
-      wsConnected.value = true
-      console.log('WebSocket connected')
-    }
-
-    ws.onclose = () => {
-      wsConnected.value = false
-      console.log('WebSocket disconnected')
-
-      // Reconnect after 3 seconds
-      setTimeout(() => {
-        if (!wsConnected.value) {
-          connectWebSocket()
-        }
-      }, 3000)
-    }
+    if (unsubscribeDownloads) return
+    unsubscribeDownloads = socketStore.subscribe<ProgressUpdate>('downloads', handleProgressUpdate)
   }
 
   function disconnectWebSocket(): void {
-    if (ws) {
-      ws.close()
-      ws = null
-    }
-    wsConnected.value = false
+    unsubscribeDownloads?.()
+    unsubscribeDownloads = null
   }
 
   return {
@@ -157,9 +230,11 @@ export const useTorrentsStore = defineStore('torrents', () => {
     downloads,
     isSearching,
     searchError,
+    seedingWarning,
     wsConnected,
 
     // Getters
+    queue,
     activeDownloads,
     completedDownloads,
     hasActiveDownloads,
@@ -172,6 +247,10 @@ export const useTorrentsStore = defineStore('torrents', () => {
     pauseDownload,
     resumeDownload,
     cancelDownload,
+    moveDownload,
+    reorderQueue,
+    dropInQueue,
+    setDownloadPriority,
     fetchDownloads,
     connectWebSocket,
     disconnectWebSocket
@@ -9,6 +9,7 @@ export interface TorrentResult {
   quality?: string
   codec?: string
   source: 'yts' | '1337x' | 'torrentio' | 'radarr' | 'sonarr' | 'prowlarr'
+  indexer?: string
   uploadDate?: string
 }
 
@@ -19,6 +20,9 @@ export interface Download {
   mediaType?: 'movie' | 'tv'
   name: string
   status: DownloadStatus
+  priority: DownloadPriority
+  // Place in the download queue; only meaningful while queued, downloading or paused
+  queuePosition: number
   progress: number
   downloadSpeed: number
   uploadSpeed: number
@@ -26,12 +30,77 @@ export interface Download {
   downloaded: number
   eta?: number
   savePath: string
+  indexer?: string
+  // The indexer is a private tracker according to Prowlarr
+  privateTracker?: boolean
+  // Upload/download ratio and seconds spent seeding, once complete
+  ratio?: number
+  seedingTime?: number
   createdAt: string
+  updatedAt?: string
   completedAt?: string
+  failedAt?: string
+  cancelledAt?: string
+  // When the torrent was removed from qBittorrent after seeding
+  seedingStoppedAt?: string
+  // Queued but held back because it would eat into the disk reserve
+  waitingForSpace?: boolean
   error?: string
 }
 
-export type DownloadStatus = 'queued' | 'downloading' | 'paused' | 'completed' | 'error'
+export type DownloadStatus = 'queued' | 'downloading' | 'paused' | 'completed' | 'error' | 'cancelled'
+
+export type DownloadPriority = 'high' | 'normal' | 'low'
+
+export type QueueMove = 'up' | 'down' | 'top'
+
+// How long completed torrents seed before they are removed, by qBittorrent category and indexer
+// An empty category or indexer matches any, and the most specific rule applies
+export interface SeedingRule {
+  category: '' | 'radarr' | 'sonarr'
+  indexer: string
+  // Null asks for nothing; a rule asking for neither keeps its torrents seeding
+  ratio: number | null
+  seedTimeMinutes: number | null
+}
+
+export interface ProwlarrIndexer {
+  name: string
+  privacy: 'public' | 'semiPrivate' | 'private'
+}
+
+// A private tracker torrent the server refused to remove before it finished seeding
+export interface SeedingWarning {
+  download: Download
+  ratio: number
+  seedingTime: number
+  rule: SeedingRule | null
+}
+
+// Sizes in bytes; total is null when it isn't reported
+export interface DiskSpace {
+  path: string
+  free: number
+  total: number | null
+  used: number | null
+}
+
+// The download disk, with the free space kept in reserve, and the Radarr/Sonarr root folders
+export interface StorageStatus {
+  downloads: (DiskSpace & { reserve: number; low: boolean }) | null
+  radarr: DiskSpace[]
+  sonarr: DiskSpace[]
+}
+
+export interface DownloadHistoryQuery {
+  status?: DownloadStatus
+  mediaType?: 'movie' | 'tv'
+  mediaId?: number
+  from?: string
+  to?: string
+  limit?: number
+  offset?: number
+}
 
 export interface SearchQuery {
   title: string
@@ -40,8 +109,10 @@ export interface SearchQuery {
 }
 
 export interface ProgressUpdate {
-  type: 'progress' | 'status' | 'error' | 'complete' | 'init'
+  type: 'progress' | 'status' | 'error' | 'complete' | 'init' | 'queue'
   downloadId?: string
   downloads?: Download[]
+  // Ids of queued, downloading and paused downloads in queue order
+  queue?: string[]
   data?: Partial<Download>
 }
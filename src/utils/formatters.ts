@@ -29,6 +29,17 @@ export function formatEta(seconds?: number): string {
   return `${hours}h ${mins}m`
 }
 
+/**
+ * Format a long span of seconds to whole minutes, hours and days (e.g., "3d 4h", "2h 5m", "12m")
+ */
+export function formatDuration(seconds: number): string {
+  const mins = Math.floor(seconds / 60)
+  if (mins < 60) return `${mins}m`
+  const hours = Math.floor(mins / 60)
+  if (hours < 24) return `${hours}h ${mins % 60}m`
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`
+}
+
 /**
  * Format seconds to time display (e.g., "1:23:45", "23:45")
  */
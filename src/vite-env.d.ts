@@ -1,7 +1,7 @@
 /// <reference types="vite/client" />
 
 interface ImportMetaEnv {
-  readonly VITE_TMDB_API_KEY: string
+  readonly VITE_TORRENT_API_URL?: string
 }
 
 interface ImportMeta {